@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "KPI" ADD COLUMN     "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- CreateTable
+CREATE TABLE "KPIValue" (
+    "id" TEXT NOT NULL,
+    "kpi_id" TEXT NOT NULL,
+    "value" DOUBLE PRECISION NOT NULL,
+    "recorded_by_user_id" TEXT,
+    "recorded_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "KPIValue_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "KPIValue_kpi_id_recorded_at_idx" ON "KPIValue"("kpi_id", "recorded_at");
+
+-- AddForeignKey
+ALTER TABLE "KPIValue" ADD CONSTRAINT "KPIValue_kpi_id_fkey" FOREIGN KEY ("kpi_id") REFERENCES "KPI"("id") ON DELETE CASCADE ON UPDATE CASCADE;
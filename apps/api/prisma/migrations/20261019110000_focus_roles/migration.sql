@@ -0,0 +1,14 @@
+-- AlterEnum
+-- This migration adds more than one value to an enum.
+-- With PostgreSQL versions 11 and earlier, this is not possible
+-- in a single migration. This can be worked around by creating
+-- multiple migrations, each migration adding only one value to
+-- the enum.
+
+
+ALTER TYPE "FocusRole" ADD VALUE 'admin';
+ALTER TYPE "FocusRole" ADD VALUE 'editor';
+ALTER TYPE "FocusRole" ADD VALUE 'viewer';
+
+-- AlterTable
+ALTER TABLE "FocusInvite" ADD COLUMN     "role" "FocusRole" NOT NULL DEFAULT 'member';
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "FocusInvite" ADD COLUMN     "revoked_at" TIMESTAMP(3);
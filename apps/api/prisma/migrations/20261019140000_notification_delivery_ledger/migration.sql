@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN     "due_version" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "NotificationDelivery" (
+    "id" TEXT NOT NULL,
+    "task_id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "due_version" INTEGER NOT NULL,
+    "slot" INTEGER NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "log_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "NotificationDelivery_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "NotificationDelivery_task_id_type_due_version_slot_key" ON "NotificationDelivery"("task_id", "type", "due_version", "slot");
+
+-- AddForeignKey
+ALTER TABLE "NotificationDelivery" ADD CONSTRAINT "NotificationDelivery_task_id_fkey" FOREIGN KEY ("task_id") REFERENCES "Task"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Focus" ADD COLUMN     "ai_model" TEXT;
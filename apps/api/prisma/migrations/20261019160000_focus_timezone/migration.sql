@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Focus" ADD COLUMN     "timezone" TEXT;
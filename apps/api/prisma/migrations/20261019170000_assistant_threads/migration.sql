@@ -0,0 +1,24 @@
+-- DropIndex
+DROP INDEX "AssistantThread_focus_id_idx";
+
+-- AlterTable
+ALTER TABLE "AssistantThread" ADD COLUMN     "archived_at" TIMESTAMP(3),
+ADD COLUMN     "created_by_user_id" TEXT,
+ADD COLUMN     "is_private" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "last_message_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "title" TEXT;
+
+-- Existing threads: order by their latest message
+UPDATE "AssistantThread" t SET "last_message_at" = COALESCE(
+  (SELECT MAX(m."created_at") FROM "AssistantMessage" m WHERE m."thread_id" = t."id"),
+  t."created_at"
+);
+
+-- CreateIndex
+CREATE INDEX "AssistantThread_focus_id_last_message_at_idx" ON "AssistantThread"("focus_id", "last_message_at");
+
+-- CreateIndex
+CREATE INDEX "AssistantThread_created_by_user_id_idx" ON "AssistantThread"("created_by_user_id");
+
+-- AddForeignKey
+ALTER TABLE "AssistantThread" ADD CONSTRAINT "AssistantThread_created_by_user_id_fkey" FOREIGN KEY ("created_by_user_id") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "AssistantThread" ADD COLUMN     "summary" TEXT,
+ADD COLUMN     "summary_until" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "AssistantFact" (
+    "id" TEXT NOT NULL,
+    "focus_id" TEXT NOT NULL,
+    "text" TEXT NOT NULL,
+    "created_by_user_id" TEXT,
+    "source_message_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AssistantFact_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AssistantFact_focus_id_idx" ON "AssistantFact"("focus_id");
+
+-- AddForeignKey
+ALTER TABLE "AssistantFact" ADD CONSTRAINT "AssistantFact_focus_id_fkey" FOREIGN KEY ("focus_id") REFERENCES "Focus"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AssistantFact" ADD CONSTRAINT "AssistantFact_source_message_id_fkey" FOREIGN KEY ("source_message_id") REFERENCES "AssistantMessage"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,52 @@
+-- CreateEnum
+CREATE TYPE "KnowledgeSource" AS ENUM ('note', 'text', 'file', 'attachment');
+
+-- CreateTable
+CREATE TABLE "KnowledgeDoc" (
+    "id" TEXT NOT NULL,
+    "focus_id" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "source" "KnowledgeSource" NOT NULL DEFAULT 'note',
+    "content" TEXT NOT NULL,
+    "file_name" TEXT,
+    "mime" TEXT,
+    "attachment_id" TEXT,
+    "created_by_user_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "KnowledgeDoc_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "KnowledgeChunk" (
+    "id" TEXT NOT NULL,
+    "doc_id" TEXT NOT NULL,
+    "focus_id" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "content" TEXT NOT NULL,
+    "embedding" DOUBLE PRECISION[],
+    "embedding_model" TEXT,
+    -- Written by Postgres, never by Prisma
+    "tsv" tsvector GENERATED ALWAYS AS (to_tsvector('russian', "content")) STORED,
+
+    CONSTRAINT "KnowledgeChunk_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "KnowledgeDoc_focus_id_idx" ON "KnowledgeDoc"("focus_id");
+
+-- CreateIndex
+CREATE INDEX "KnowledgeChunk_doc_id_idx" ON "KnowledgeChunk"("doc_id");
+
+-- CreateIndex
+CREATE INDEX "KnowledgeChunk_focus_id_idx" ON "KnowledgeChunk"("focus_id");
+
+-- Full-text search
+CREATE INDEX "KnowledgeChunk_tsv_idx" ON "KnowledgeChunk" USING GIN ("tsv");
+
+-- AddForeignKey
+ALTER TABLE "KnowledgeDoc" ADD CONSTRAINT "KnowledgeDoc_focus_id_fkey" FOREIGN KEY ("focus_id") REFERENCES "Focus"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "KnowledgeChunk" ADD CONSTRAINT "KnowledgeChunk_doc_id_fkey" FOREIGN KEY ("doc_id") REFERENCES "KnowledgeDoc"("id") ON DELETE CASCADE ON UPDATE CASCADE;
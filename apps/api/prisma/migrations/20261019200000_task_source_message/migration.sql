@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN     "source_message_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Task_source_message_id_idx" ON "Task"("source_message_id");
+
+-- AddForeignKey
+ALTER TABLE "Task" ADD CONSTRAINT "Task_source_message_id_fkey" FOREIGN KEY ("source_message_id") REFERENCES "AssistantMessage"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "AiUsage" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT,
+    "focus_id" TEXT,
+    "kind" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "prompt_tokens" INTEGER NOT NULL,
+    "completion_tokens" INTEGER NOT NULL,
+    "cost_usd" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "estimated" BOOLEAN NOT NULL DEFAULT false,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AiUsage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AiUsage_user_id_created_at_idx" ON "AiUsage"("user_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "AiUsage_focus_id_created_at_idx" ON "AiUsage"("focus_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "AiUsage_created_at_idx" ON "AiUsage"("created_at");
+
+-- AddForeignKey
+ALTER TABLE "AiUsage" ADD CONSTRAINT "AiUsage_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AiUsage" ADD CONSTRAINT "AiUsage_focus_id_fkey" FOREIGN KEY ("focus_id") REFERENCES "Focus"("id") ON DELETE SET NULL ON UPDATE CASCADE;
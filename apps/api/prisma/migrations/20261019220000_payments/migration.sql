@@ -0,0 +1,31 @@
+-- AlterEnum
+ALTER TYPE "SubscriptionStatus" ADD VALUE 'paid_expired';
+
+-- AlterTable
+ALTER TABLE "Subscription" ADD COLUMN     "auto_renew" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "paid_until" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "Payment" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "currency" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "payload" TEXT NOT NULL,
+    "telegram_payment_charge_id" TEXT NOT NULL,
+    "is_recurring" BOOLEAN NOT NULL DEFAULT false,
+    "period_start" TIMESTAMP(3) NOT NULL,
+    "period_end" TIMESTAMP(3) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Payment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Payment_telegram_payment_charge_id_key" ON "Payment"("telegram_payment_charge_id");
+
+-- CreateIndex
+CREATE INDEX "Payment_user_id_created_at_idx" ON "Payment"("user_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "Payment" ADD CONSTRAINT "Payment_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- Saved enabled_types predate the task event types; turn them on so nobody is opted out silently
+UPDATE "ReminderSettings"
+SET "enabled_types" = "enabled_types" || (
+    SELECT COALESCE(jsonb_agg(t), '[]'::jsonb)
+    FROM unnest(ARRAY['task_assigned', 'task_commented', 'task_completed']) AS t
+    WHERE NOT "enabled_types" ? t
+)
+WHERE jsonb_typeof("enabled_types") = 'array';
@@ -1,6 +1,12 @@
+import type { FastifyBaseLogger } from 'fastify';
 import { Telegraf, Markup } from 'telegraf';
 import { env } from '../lib/env.js';
 import { prisma } from '../lib/db.js';
+import { registerAttachmentHandlers } from './attachments.js';
+import { registerUserCommands } from './commands.js';
+import { registerForwardHandlers } from './forwards.js';
+import { registerPaymentHandlers } from './payments.js';
+import { registerTaskActionHandlers } from './tasks.js';
 
 function isAdmin(tgId: number) {
   return env.ADMIN_TG_IDS.includes(String(tgId));
@@ -13,9 +19,8 @@ function getFilters(tgId: number): Filters {
   return session.get(tgId) ?? { period: '7d', segment: 'all' };
 }
 
-async function calcOverview(filters: Filters) {
-  const now = new Date();
-  const start = new Date(now);
+function periodStart(filters: Filters) {
+  const start = new Date();
   if (filters.period === 'today') {
     start.setHours(0,0,0,0);
   } else if (filters.period === '7d') {
@@ -23,18 +28,24 @@ async function calcOverview(filters: Filters) {
   } else {
     start.setDate(start.getDate() - 30);
   }
+  return start;
+}
+
+async function calcOverview(filters: Filters) {
+  const start = periodStart(filters);
 
-  const [users, focuses, tasks, aiMsgs, errors, trialStarted, trialExpired] = await Promise.all([
+  const [users, focuses, tasks, aiMsgs, errors, trialStarted, trialExpired, payments] = await Promise.all([
     prisma.eventLog.count({ where: { ts: { gte: start }, event_name: 'first_open' } }),
     prisma.eventLog.count({ where: { ts: { gte: start }, event_name: 'create_focus' } }),
     prisma.eventLog.count({ where: { ts: { gte: start }, event_name: 'create_task' } }),
     prisma.eventLog.count({ where: { ts: { gte: start }, event_name: 'ai_message_sent' } }),
     prisma.eventLog.count({ where: { ts: { gte: start }, event_name: 'error_api' } }),
     prisma.eventLog.count({ where: { ts: { gte: start }, event_name: 'trial_started' } }),
-    prisma.eventLog.count({ where: { ts: { gte: start }, event_name: 'trial_expired' } })
+    prisma.eventLog.count({ where: { ts: { gte: start }, event_name: 'trial_expired' } }),
+    prisma.payment.aggregate({ where: { created_at: { gte: start } }, _count: true, _sum: { amount: true } })
   ]);
 
-  return { start, users, focuses, tasks, aiMsgs, errors, trialStarted, trialExpired };
+  return { start, users, focuses, tasks, aiMsgs, errors, trialStarted, trialExpired, payments };
 }
 
 function panelKeyboard() {
@@ -49,7 +60,7 @@ function panelKeyboard() {
 async function renderOverview(tgId: number) {
   const f = getFilters(tgId);
   const o = await calcOverview(f);
-  return `🛠 Admin Console\n\nFilters: ⏱ ${f.period} | 🧩 ${f.segment}\nFrom: ${o.start.toISOString().slice(0,10)}\n\n📌 Key metrics\n• first_open: ${o.users}\n• focuses created: ${o.focuses}\n• tasks created: ${o.tasks}\n• AI messages: ${o.aiMsgs}\n• errors: ${o.errors}\n\n💳 Trial\n• started: ${o.trialStarted}\n• expired: ${o.trialExpired}`;
+  return `🛠 Admin Console\n\nFilters: ⏱ ${f.period} | 🧩 ${f.segment}\nFrom: ${o.start.toISOString().slice(0,10)}\n\n📌 Key metrics\n• first_open: ${o.users}\n• focuses created: ${o.focuses}\n• tasks created: ${o.tasks}\n• AI messages: ${o.aiMsgs}\n• errors: ${o.errors}\n\n💳 Trial\n• started: ${o.trialStarted}\n• expired: ${o.trialExpired}\n• payments: ${o.payments._count} (⭐ ${o.payments._sum.amount ?? 0})`;
 }
 
 async function renderUsers(tgId: number) {
@@ -78,8 +89,59 @@ async function renderFocuses(tgId: number) {
   return `🎯 Focuses (top 10 by recent)\n\n${lines.join('\n')}`;
 }
 
-export function buildBot() {
-  const bot = new Telegraf(env.TELEGRAM_BOT_TOKEN);
+const fmtTokens = (n: number) => n >= 10_000 ? `${Math.round(n / 1000)}k` : String(n);
+const fmtUsd = (n: number) => `$${n.toFixed(n < 1 ? 4 : 2)}`;
+
+async function renderAi(tgId: number) {
+  const f = getFilters(tgId);
+  const start = periodStart(f);
+  const where = { created_at: { gte: start } };
+  const sum = { prompt_tokens: true, completion_tokens: true, cost_usd: true } as const;
+
+  const [total, estimated, quotaHits, byKind, byModel, byUser, byFocus] = await Promise.all([
+    prisma.aiUsage.aggregate({ where, _count: true, _sum: sum }),
+    prisma.aiUsage.count({ where: { ...where, estimated: true } }),
+    prisma.eventLog.count({ where: { ts: { gte: start }, event_name: 'ai_quota_exceeded' } }),
+    prisma.aiUsage.groupBy({ by: ['kind'], where, _count: true, _sum: sum }),
+    prisma.aiUsage.groupBy({ by: ['model'], where, _count: true, _sum: sum, orderBy: { _sum: { cost_usd: 'desc' } } }),
+    prisma.aiUsage.groupBy({ by: ['user_id'], where, _sum: sum, orderBy: { _sum: { cost_usd: 'desc' } }, take: 5 }),
+    prisma.aiUsage.groupBy({ by: ['focus_id'], where, _sum: sum, orderBy: { _sum: { cost_usd: 'desc' } }, take: 5 })
+  ]);
+
+  const [users, focuses] = await Promise.all([
+    prisma.user.findMany({ where: { id: { in: byUser.flatMap(u => u.user_id ? [u.user_id] : []) } }, include: { subscription: true } }),
+    prisma.focus.findMany({ where: { id: { in: byFocus.flatMap(x => x.focus_id ? [x.focus_id] : []) } }, select: { id: true, title: true } })
+  ]);
+  const tokens = (s: { prompt_tokens: number | null; completion_tokens: number | null }) => (s.prompt_tokens ?? 0) + (s.completion_tokens ?? 0);
+  const line = (label: string, s: { prompt_tokens: number | null; completion_tokens: number | null; cost_usd: number | null }) =>
+    `• ${label} | ${fmtTokens(tokens(s))} tok | ${fmtUsd(s.cost_usd ?? 0)}`;
+
+  const kindLines = byKind.map(k => line(`${k.kind} ×${k._count}`, k._sum));
+  const modelLines = byModel.map(m => line(`${m.model} ×${m._count}`, m._sum));
+  const userLines = byUser.map((u) => {
+    const user = users.find(x => x.id === u.user_id);
+    const name = user ? (user.username ?? user.first_name ?? user.tg_id.toString()) : 'deleted';
+    return line(`${name} (${user?.subscription?.status ?? 'none'})`, u._sum);
+  });
+  const focusLines = byFocus.map(x => line(focuses.find(fc => fc.id === x.focus_id)?.title ?? '—', x._sum));
+
+  return `🤖 AI usage\nFilters: ⏱ ${f.period}\nFrom: ${start.toISOString().slice(0,10)}\n\n` +
+    `📌 Total\n• requests: ${total._count}${estimated ? ` (${estimated} estimated)` : ''}\n` +
+    `• tokens: ${fmtTokens(total._sum.prompt_tokens ?? 0)} in / ${fmtTokens(total._sum.completion_tokens ?? 0)} out\n` +
+    `• cost: ${fmtUsd(total._sum.cost_usd ?? 0)}\n• quota hits: ${quotaHits}\n\n` +
+    `🧩 By kind\n${kindLines.join('\n') || '—'}\n\n🧠 By model\n${modelLines.join('\n') || '—'}\n\n` +
+    `👤 Top users\n${userLines.join('\n') || '—'}\n\n🎯 Top focuses\n${focusLines.join('\n') || '—'}`;
+}
+
+export function buildBot(log: FastifyBaseLogger) {
+  const bot = new Telegraf(env.TELEGRAM_BOT_TOKEN, { telegram: { apiRoot: env.TELEGRAM_API_ROOT } });
+
+  // User-facing handlers go first so their callbacks never reach the admin-only handler below
+  registerPaymentHandlers(bot, log); // pre_checkout_query and successful_payment must never be swallowed
+  registerUserCommands(bot, log);
+  registerForwardHandlers(bot, log); // before attachments: a forwarded file becomes a new task
+  registerAttachmentHandlers(bot);
+  registerTaskActionHandlers(bot, log);
 
   bot.command('admin', async (ctx) => {
     const tgId = ctx.from?.id;
@@ -143,6 +205,12 @@ export function buildBot() {
       return ctx.answerCbQuery();
     }
 
+    if (data === 'adm:tab=ai') {
+      const text = await renderAi(tgId);
+      await ctx.editMessageText(text, panelKeyboard());
+      return ctx.answerCbQuery();
+    }
+
     // Placeholders
     if (data.startsWith('adm:tab=')) {
       await ctx.answerCbQuery('v2: coming soon');
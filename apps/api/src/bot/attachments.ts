@@ -0,0 +1,110 @@
+import { Telegraf, Markup } from 'telegraf';
+import { message } from 'telegraf/filters';
+import { prisma } from '../lib/db.js';
+import { logEvent } from '../lib/events.js';
+import { AppError } from '../lib/errors.js';
+import { loadTaskForEdit, rolesWith } from '../lib/policy.js';
+import { pendingStore } from './pendingStore.js';
+
+export type PendingFile = { tg_file_id: string; file_name: string | null; mime: string | null; size: number | null };
+
+// Files waiting for the user to pick a task, keyed by Telegram user id
+const pending = pendingStore<number, PendingFile>({ ttlMs: 30 * 60_000, maxSize: 1000 });
+
+export function extractFile(msg: any): PendingFile | null {
+  if (msg.document) {
+    return {
+      tg_file_id: msg.document.file_id,
+      file_name: msg.document.file_name ?? null,
+      mime: msg.document.mime_type ?? null,
+      size: msg.document.file_size ?? null
+    };
+  }
+  if (Array.isArray(msg.photo) && msg.photo.length) {
+    const largest = msg.photo[msg.photo.length - 1];
+    return {
+      tg_file_id: largest.file_id,
+      file_name: `photo_${msg.date}.jpg`,
+      mime: 'image/jpeg',
+      size: largest.file_size ?? null
+    };
+  }
+  return null;
+}
+
+// Open tasks the user is allowed to attach files to (same rules as loadTaskForEdit)
+async function attachableTasks(userId: string) {
+  return prisma.task.findMany({
+    where: {
+      status: { notIn: ['done', 'canceled'] },
+      OR: [
+        { assigned_to_user_id: userId },
+        { focus: { members: { some: { user_id: userId, role: { in: rolesWith('task.edit_any') } } } } }
+      ]
+    },
+    orderBy: { updated_at: 'desc' },
+    take: 8,
+    include: { focus: { select: { title: true } } }
+  });
+}
+
+export function registerAttachmentHandlers(bot: Telegraf) {
+  bot.on([message('document'), message('photo')], async (ctx, next) => {
+    if (ctx.chat.type !== 'private') return next();
+    const file = extractFile(ctx.message);
+    if (!file) return next();
+
+    const user = await prisma.user.findUnique({ where: { tg_id: BigInt(ctx.from.id) } });
+    if (!user) return ctx.reply('Сначала открой мини-приложение, чтобы привязать аккаунт.');
+
+    const tasks = await attachableTasks(user.id);
+    if (!tasks.length) return ctx.reply('Нет открытых задач, к которым можно прикрепить файл.');
+
+    pending.set(ctx.from.id, file);
+    await ctx.reply(
+      `📎 К какой задаче прикрепить «${file.file_name ?? 'файл'}»?`,
+      Markup.inlineKeyboard([
+        ...tasks.map(t => [Markup.button.callback(`${t.title} · ${t.focus.title}`.slice(0, 60), `att:task=${t.id}`)]),
+        [Markup.button.callback('✖️ Отмена', 'att:cancel')]
+      ])
+    );
+  });
+
+  bot.action('att:cancel', async (ctx) => {
+    pending.delete(ctx.from.id);
+    await ctx.editMessageText('Прикрепление отменено.');
+    return ctx.answerCbQuery();
+  });
+
+  bot.action(/^att:task=(.+)$/, async (ctx) => {
+    const tgId = ctx.from.id;
+    const file = pending.get(tgId);
+    if (!file) return ctx.answerCbQuery('Файл не найден, отправь его ещё раз', { show_alert: true });
+    // Taken out before any await, so a double tap attaches the file once
+    pending.delete(tgId);
+    // Put back after a failure unless the user has sent another file since
+    const restore = () => {
+      if (!pending.get(tgId)) pending.set(tgId, file);
+    };
+
+    const user = await prisma.user.findUnique({ where: { tg_id: BigInt(tgId) } });
+    if (!user) {
+      restore();
+      return ctx.answerCbQuery('Access denied', { show_alert: true });
+    }
+
+    try {
+      const { task } = await loadTaskForEdit(ctx.match[1], user.id).catch((e) => {
+        restore();
+        throw e;
+      });
+      await prisma.taskAttachment.create({ data: { task_id: task.id, type: 'file', ...file } });
+      await logEvent({ event_name: 'create_attachment', user_id: user.id, focus_id: task.focus_id, props: { task_id: task.id, type: 'file', source: 'bot' } });
+      await ctx.editMessageText(`✅ Файл прикреплён к задаче «${task.title}»`);
+      return ctx.answerCbQuery();
+    } catch (e) {
+      if (e instanceof AppError) return ctx.answerCbQuery(e.message, { show_alert: true });
+      throw e;
+    }
+  });
+}
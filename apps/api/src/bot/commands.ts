@@ -0,0 +1,229 @@
+import type { FastifyBaseLogger } from 'fastify';
+import { Telegraf, Markup, type Context } from 'telegraf';
+import { DEFAULT_TIMEZONE, isValidTimezone, localDateKey, taskActionKeyboard } from '@ba/shared';
+import { prisma } from '../lib/db.js';
+import { env } from '../lib/env.js';
+import { upsertUser } from '../lib/auth.js';
+import { logEvent } from '../lib/events.js';
+import { AppError } from '../lib/errors.js';
+import { joinByInvite } from '../lib/invites.js';
+import { loadMember, rolesWith } from '../lib/policy.js';
+import { createTask } from '../lib/tasks.js';
+import { parseTaskText } from '../lib/dateParse.js';
+
+const LIST_LIMIT = 20;
+
+const HELP = [
+  'Что я умею:',
+  '/today — мои задачи на сегодня и просроченные',
+  '/tasks <проект> — открытые задачи проекта',
+  '/add <текст> — новая задача, например: /add позвонить поставщику завтра в 15:00',
+  '/subscribe — оформить подписку за Telegram Stars',
+  '',
+  'Перешли мне сообщение из любого чата — сделаю из него задачу.'
+].join('\n');
+
+// Same wording as friendlyError in the web app
+const ERROR_TEXT: Partial<Record<AppError['code'], string>> = {
+  trial_expired: '⏳ Пробный период или подписка закончились. Оформи подписку: /subscribe',
+  forbidden: '🚫 Нет доступа к этому проекту.',
+  owner_only: '🚫 Только владелец проекта может делать это.',
+  insufficient_role: '🚫 Твоя роль в проекте не позволяет это сделать.',
+  not_found: '🔍 Не найдено.',
+  gone: '⌛ Срок действия истёк.',
+  conflict: '⚠️ Не получилось: данные уже изменились. Попробуй ещё раз.'
+};
+
+// Only /start joins by invite, and there these codes mean the invite itself
+const INVITE_ERROR_TEXT: Partial<Record<AppError['code'], string>> = {
+  gone: '⌛ Приглашение больше не действует.',
+  conflict: '⚠️ Приглашение уже использовано максимальное число раз.'
+};
+
+export function botErrorText(e: AppError, texts: Partial<Record<AppError['code'], string>> = {}) {
+  return texts[e.code] ?? ERROR_TEXT[e.code] ?? e.message;
+}
+
+// Commands are private-chat only; the bot registers the user on first contact, like the Mini App does
+export async function commandUser(ctx: Context) {
+  if (!ctx.from || ctx.chat?.type !== 'private') return null;
+  return upsertUser(BigInt(ctx.from.id), {
+    username: ctx.from.username ?? null,
+    first_name: ctx.from.first_name ?? null,
+    last_name: ctx.from.last_name ?? null
+  });
+}
+
+export async function userTimezone(userId: string) {
+  const settings = await prisma.reminderSettings.findUnique({ where: { user_id: userId }, select: { timezone: true } });
+  return settings?.timezone && isValidTimezone(settings.timezone) ? settings.timezone : DEFAULT_TIMEZONE;
+}
+
+function commandArg(ctx: Context) {
+  const text = ctx.message && 'text' in ctx.message ? ctx.message.text : '';
+  return text.replace(/^\/\S+\s*/, '').trim();
+}
+
+function appButton(startParam?: string) {
+  if (!env.TELEGRAM_BOT_USERNAME) return undefined;
+  const url = `https://t.me/${env.TELEGRAM_BOT_USERNAME}?startapp${startParam ? `=${startParam}` : ''}`;
+  return Markup.inlineKeyboard([[Markup.button.url('📂 Открыть приложение', url)]]);
+}
+
+function formatDue(due: Date | null, timezone: string) {
+  if (!due) return '';
+  return due.toLocaleString('ru-RU', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit', timeZone: timezone });
+}
+
+type ListedTask = {
+  title: string;
+  status: string;
+  due_at: Date | null;
+  assigned_to?: { first_name: string | null; username: string | null } | null;
+};
+
+function taskLine(t: ListedTask, timezone: string) {
+  const icon = t.status === 'in_progress' ? '🔄' : '⬜️';
+  const due = t.due_at ? ` · до ${formatDue(t.due_at, timezone)}` : '';
+  const who = t.assigned_to ? ` · ${t.assigned_to.first_name || `@${t.assigned_to.username}`}` : '';
+  return `${icon} ${t.title}${due}${who}`;
+}
+
+function withMore(lines: string[], total: number) {
+  return total > lines.length ? [...lines, `…и ещё ${total - lines.length}`] : lines;
+}
+
+// Most recently active focus where the user may create tasks
+async function defaultFocus(userId: string) {
+  const member = await prisma.focusMember.findFirst({
+    where: { user_id: userId, role: { in: rolesWith('task.create') }, focus: { status: 'active' } },
+    orderBy: { focus: { updated_at: 'desc' } },
+    include: { focus: { select: { id: true, title: true } } }
+  });
+  return member?.focus ?? null;
+}
+
+async function findFocus(userId: string, query: string) {
+  const memberships = await prisma.focusMember.findMany({
+    where: { user_id: userId },
+    orderBy: { focus: { updated_at: 'desc' } },
+    include: { focus: { select: { id: true, title: true, status: true } } }
+  });
+  const q = query.toLowerCase();
+  const focuses = memberships.map(m => m.focus);
+  return {
+    focuses,
+    match: focuses.find(f => f.title.toLowerCase() === q) ?? focuses.find(f => f.title.toLowerCase().includes(q)) ?? null
+  };
+}
+
+export function registerUserCommands(bot: Telegraf, log: FastifyBaseLogger) {
+  // /start <invite code> comes from t.me/<bot>?start=<code> links
+  bot.start(async (ctx) => {
+    const user = await commandUser(ctx);
+    if (!user) return;
+    const code = ctx.payload.trim();
+    if (!code) return ctx.reply(`👋 Привет! Я помогаю вести задачи проектов.\n\n${HELP}`, appButton());
+
+    try {
+      const { focus_id, joined } = await joinByInvite(code, user.id);
+      const focus = await prisma.focus.findUnique({ where: { id: focus_id }, select: { title: true } });
+      const text = joined
+        ? `🎉 Ты присоединился(лась) к проекту «${focus?.title}».\n\n${HELP}`
+        : `Ты уже участник проекта «${focus?.title}».`;
+      return ctx.reply(text, appButton());
+    } catch (e) {
+      if (e instanceof AppError) return ctx.reply(botErrorText(e, INVITE_ERROR_TEXT));
+      throw e;
+    }
+  });
+
+  bot.help(ctx => ctx.reply(HELP));
+
+  bot.command('today', async (ctx) => {
+    const user = await commandUser(ctx);
+    if (!user) return;
+    const timezone = await userTimezone(user.id);
+    const todayKey = localDateKey(new Date(), timezone);
+
+    const open = await prisma.task.findMany({
+      where: { assigned_to_user_id: user.id, status: { notIn: ['done', 'canceled'] }, due_at: { not: null } },
+      orderBy: { due_at: 'asc' },
+      include: { focus: { select: { title: true } } }
+    });
+    // Compare local calendar days so a task due tonight is "today", not "tomorrow in UTC"
+    const overdue = open.filter(t => t.due_at! < new Date());
+    const today = open.filter(t => t.due_at! >= new Date() && localDateKey(t.due_at!, timezone) === todayKey);
+    if (!overdue.length && !today.length) return ctx.reply('🎉 На сегодня задач нет.');
+
+    const line = (t: (typeof open)[number]) => `${taskLine(t, timezone)} · ${t.focus.title}`;
+    const blocks = [
+      today.length ? ['📅 Сегодня:', ...withMore(today.slice(0, LIST_LIMIT).map(line), today.length)].join('\n') : '',
+      overdue.length ? ['🚨 Просрочено:', ...withMore(overdue.slice(0, LIST_LIMIT).map(line), overdue.length)].join('\n') : ''
+    ].filter(Boolean);
+    return ctx.reply(blocks.join('\n\n'), appButton());
+  });
+
+  bot.command('tasks', async (ctx) => {
+    const user = await commandUser(ctx);
+    if (!user) return;
+    const query = commandArg(ctx);
+    const { focuses, match } = await findFocus(user.id, query);
+    if (!focuses.length) return ctx.reply('У тебя пока нет проектов. Создай первый в приложении.', appButton());
+    if (!query || !match) {
+      const list = focuses.map(f => `• ${f.title}`).join('\n');
+      return ctx.reply(`${query ? `Проект «${query}» не найден.` : 'Укажи проект: /tasks <название>'}\n\nТвои проекты:\n${list}`);
+    }
+
+    try {
+      await loadMember(match.id, user.id);
+      const where = { focus_id: match.id, status: { notIn: ['done', 'canceled'] as ('done' | 'canceled')[] } };
+      const [tasks, total] = await Promise.all([
+        prisma.task.findMany({
+          where,
+          orderBy: [{ due_at: { sort: 'asc', nulls: 'last' } }, { created_at: 'asc' }],
+          take: LIST_LIMIT,
+          include: { assigned_to: { select: { first_name: true, username: true } } }
+        }),
+        prisma.task.count({ where })
+      ]);
+      if (!tasks.length) return ctx.reply(`В проекте «${match.title}» нет открытых задач.`);
+      const timezone = await userTimezone(user.id);
+      const lines = withMore(tasks.map(t => taskLine(t, timezone)), total);
+      return ctx.reply(`📁 ${match.title} — открытые задачи (${total}):\n\n${lines.join('\n')}`);
+    } catch (e) {
+      if (e instanceof AppError) return ctx.reply(botErrorText(e));
+      throw e;
+    }
+  });
+
+  bot.command('add', async (ctx) => {
+    const user = await commandUser(ctx);
+    if (!user) return;
+    const text = commandArg(ctx);
+    if (!text) return ctx.reply('Напиши задачу после команды, например:\n/add отправить счёт пт 15:00');
+
+    const focus = await defaultFocus(user.id);
+    if (!focus) return ctx.reply('Нет проекта, в который можно добавить задачу. Создай проект в приложении.', appButton());
+
+    const timezone = await userTimezone(user.id);
+    const { title, due_at } = parseTaskText(text, timezone);
+    if (!title) return ctx.reply('Не понял, что за задача. Напиши её текст, например: /add отправить счёт завтра');
+
+    try {
+      const task = await createTask(user.id, focus.id, {
+        title,
+        due_at: due_at?.toISOString() ?? null,
+        assigned_to_user_id: user.id
+      }, log);
+      await logEvent({ event_name: 'create_task', user_id: user.id, focus_id: focus.id, props: { task_id: task.id, source: 'bot' } });
+      const due = due_at ? `\nСрок: ${formatDue(due_at, timezone)}` : '';
+      return ctx.reply(`✅ Задача «${task.title}» добавлена в проект «${focus.title}»${due}`, {
+        reply_markup: taskActionKeyboard(task.id, { botUsername: env.TELEGRAM_BOT_USERNAME || undefined })
+      });
+    } catch (e) {
+      if (e instanceof AppError) return ctx.reply(botErrorText(e));
+      throw e;
+    }
+  });
+}
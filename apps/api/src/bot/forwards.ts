@@ -0,0 +1,182 @@
+import type { FastifyBaseLogger } from 'fastify';
+import { Telegraf, Markup } from 'telegraf';
+import { message } from 'telegraf/filters';
+import type { Chat, Message } from 'telegraf/types';
+import { taskActionKeyboard } from '@ba/shared';
+import { prisma } from '../lib/db.js';
+import { env } from '../lib/env.js';
+import { logEvent } from '../lib/events.js';
+import { AppError } from '../lib/errors.js';
+import { rolesWith } from '../lib/policy.js';
+import { createTask } from '../lib/tasks.js';
+import { extractFile, type PendingFile } from './attachments.js';
+import { botErrorText, commandUser, userTimezone } from './commands.js';
+import { pendingStore } from './pendingStore.js';
+
+const MAX_TITLE = 120;
+const PICK_TTL_MS = 30 * 60_000;
+const MAX_PENDING = 1000;
+
+// The bundled typings leave `date` off the concrete origin types
+type MessageOrigin = NonNullable<Message.CommonMessage['forward_origin']> & { date: number };
+
+type PendingForward = { text: string | null; origin: MessageOrigin; files: PendingFile[]; album: string | null };
+
+// Forwards waiting for a focus pick, keyed by `${tg user id}:${message id}`
+const pending = pendingStore<string, PendingForward>({ ttlMs: PICK_TTL_MS, maxSize: MAX_PENDING });
+// Albums arrive as one message per file; the rest join the first message's entry
+const albums = pendingStore<string, string>({ ttlMs: PICK_TTL_MS, maxSize: MAX_PENDING });
+
+function chatTitle(chat: Chat) {
+  return 'title' in chat ? chat.title : chat.first_name;
+}
+
+function originSender(origin: MessageOrigin) {
+  switch (origin.type) {
+    case 'user': {
+      const u = origin.sender_user;
+      const name = [u.first_name, u.last_name].filter(Boolean).join(' ');
+      return u.username ? `${name} (@${u.username})` : name;
+    }
+    case 'hidden_user':
+      return origin.sender_user_name;
+    case 'chat':
+      return [chatTitle(origin.sender_chat), origin.author_signature].filter(Boolean).join(' — ');
+    case 'channel':
+      return [chatTitle(origin.chat), origin.author_signature].filter(Boolean).join(' — ');
+  }
+}
+
+// Only public channel posts have a stable link
+function originLink(origin: MessageOrigin) {
+  if (origin.type !== 'channel' || !('username' in origin.chat) || !origin.chat.username) return null;
+  return `https://t.me/${origin.chat.username}/${origin.message_id}`;
+}
+
+function buildTask(fwd: PendingForward, timezone: string) {
+  const sender = originSender(fwd.origin);
+  const text = fwd.text?.trim() ?? '';
+  const firstLine = text.split('\n').find(l => l.trim())?.trim() ?? '';
+  const title = firstLine
+    ? (firstLine.length > MAX_TITLE ? `${firstLine.slice(0, MAX_TITLE - 1)}…` : firstLine)
+    : `${fwd.files.length ? 'Файл' : 'Сообщение'} от ${sender}`;
+
+  const date = new Date(fwd.origin.date * 1000).toLocaleString('ru-RU', {
+    day: 'numeric', month: 'long', year: 'numeric', hour: '2-digit', minute: '2-digit', timeZone: timezone
+  });
+  const link = originLink(fwd.origin);
+  const source = `↪️ Переслано: ${sender}, ${date}${link ? `\n${link}` : ''}`;
+  const description = text && text !== title ? `${text}\n\n${source}` : source;
+  return { title, description };
+}
+
+// Focuses the user may create tasks in, most recently active first
+async function pickableFocuses(userId: string) {
+  const members = await prisma.focusMember.findMany({
+    where: { user_id: userId, role: { in: rolesWith('task.create') }, focus: { status: 'active' } },
+    orderBy: { focus: { updated_at: 'desc' } },
+    take: 8,
+    include: { focus: { select: { id: true, title: true } } }
+  });
+  return members.map(m => m.focus);
+}
+
+export function registerForwardHandlers(bot: Telegraf, log: FastifyBaseLogger) {
+  bot.on(message('forward_origin'), async (ctx, next) => {
+    if (ctx.chat.type !== 'private') return next();
+    const msg = ctx.message as any;
+    const key = `${ctx.from.id}:${msg.message_id}`;
+    const file = extractFile(msg);
+    const text: string | null = msg.text ?? msg.caption ?? null;
+
+    // Checked before any await so concurrent album updates can't each open a picker
+    const album = msg.media_group_id ? `${ctx.from.id}:${msg.media_group_id}` : null;
+    if (album) {
+      const first = pending.get(albums.get(album) ?? '');
+      if (first) {
+        if (file) first.files.push(file);
+        if (!first.text && text) first.text = text;
+        return;
+      }
+      albums.set(album, key);
+    }
+    pending.set(key, { text, origin: ctx.message.forward_origin as MessageOrigin, files: file ? [file] : [], album });
+
+    if (!text && !file) {
+      pending.delete(key);
+      return ctx.reply('В этом сообщении нет текста или файла, из которого можно сделать задачу.');
+    }
+
+    const user = await commandUser(ctx);
+    if (!user) return;
+    const focuses = await pickableFocuses(user.id);
+    if (!focuses.length) {
+      pending.delete(key);
+      return ctx.reply('Нет проекта, в котором ты можешь создавать задачи.');
+    }
+
+    await ctx.reply(
+      '📥 В какой проект добавить задачу из пересланного сообщения?',
+      {
+        reply_parameters: { message_id: msg.message_id },
+        ...Markup.inlineKeyboard([
+          ...focuses.map(f => [Markup.button.callback(f.title.slice(0, 60), `fwd:${msg.message_id}:${f.id}`)]),
+          [Markup.button.callback('✖️ Отмена', `fwd:${msg.message_id}:cancel`)]
+        ])
+      }
+    );
+  });
+
+  bot.action(/^fwd:(\d+):([0-9a-f-]{36}|cancel)$/, async (ctx) => {
+    const [, messageId, focusId] = ctx.match;
+    const key = `${ctx.from.id}:${messageId}`;
+    const fwd = pending.get(key);
+    if (!fwd) return ctx.answerCbQuery('Сообщение не найдено, перешли его ещё раз', { show_alert: true });
+    // Taken out before any await, so a double tap or a redelivered callback finds nothing
+    pending.delete(key);
+    if (fwd.album) albums.delete(fwd.album);
+    // Put back when no task was created, so the user can pick again
+    const restore = () => {
+      pending.set(key, fwd);
+      if (fwd.album) albums.set(fwd.album, key);
+    };
+
+    if (focusId === 'cancel') {
+      await ctx.editMessageText('Создание задачи отменено.');
+      return ctx.answerCbQuery();
+    }
+
+    const user = await prisma.user.findUnique({ where: { tg_id: BigInt(ctx.from.id) } });
+    if (!user) {
+      restore();
+      return ctx.answerCbQuery('Access denied', { show_alert: true });
+    }
+
+    let task: Awaited<ReturnType<typeof createTask>>;
+    try {
+      const timezone = await userTimezone(user.id);
+      const { title, description } = buildTask(fwd, timezone);
+      task = await createTask(user.id, focusId, { title, description, assigned_to_user_id: user.id }, log);
+    } catch (e) {
+      restore();
+      if (e instanceof AppError) return ctx.answerCbQuery(botErrorText(e), { show_alert: true });
+      throw e;
+    }
+    if (fwd.files.length) {
+      await prisma.taskAttachment.createMany({ data: fwd.files.map(f => ({ task_id: task.id, type: 'file' as const, ...f })) });
+    }
+    await logEvent({
+      event_name: 'create_task',
+      user_id: user.id,
+      focus_id: focusId,
+      props: { task_id: task.id, source: 'forward', attachments: fwd.files.length }
+    });
+
+    const focus = await prisma.focus.findUnique({ where: { id: focusId }, select: { title: true } });
+    const files = fwd.files.length ? `\n📎 Вложений: ${fwd.files.length}` : '';
+    await ctx.editMessageText(`✅ Задача «${task.title}» создана в проекте «${focus?.title}»${files}`, {
+      reply_markup: taskActionKeyboard(task.id, { botUsername: env.TELEGRAM_BOT_USERNAME || undefined })
+    });
+    return ctx.answerCbQuery();
+  });
+}
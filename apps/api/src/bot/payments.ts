@@ -0,0 +1,82 @@
+import type { FastifyBaseLogger } from 'fastify';
+import { Telegraf, Markup } from 'telegraf';
+import { message } from 'telegraf/filters';
+import type { SuccessfulPayment } from 'telegraf/types';
+import { env } from '../lib/env.js';
+import { logEvent } from '../lib/events.js';
+import { AppError } from '../lib/errors.js';
+import { PAID_PERIOD_DAYS, applyPayment, checkPreCheckout, createSubscriptionInvoice } from '../lib/payments.js';
+import { getSubscription } from '../lib/subscription.js';
+import { botErrorText, commandUser } from './commands.js';
+
+// The bundled typings predate Stars subscriptions
+type StarsPayment = SuccessfulPayment & {
+  subscription_expiration_date?: number;
+  is_recurring?: boolean;
+  is_first_recurring?: boolean;
+};
+
+function formatDate(d: Date) {
+  return d.toLocaleDateString('ru-RU', { day: 'numeric', month: 'long', year: 'numeric' });
+}
+
+export function registerPaymentHandlers(bot: Telegraf, log: FastifyBaseLogger) {
+  bot.command('subscribe', async (ctx) => {
+    const user = await commandUser(ctx);
+    if (!user) return;
+    const sub = await getSubscription(user.id);
+    const until = sub?.status === 'paid' && sub.paid_until ? `Подписка активна до ${formatDate(sub.paid_until)}.\n\n` : '';
+    if (sub?.status === 'paid' && sub.auto_renew) return ctx.reply(`${until}Она продлевается автоматически.`);
+
+    try {
+      const link = await createSubscriptionInvoice(user.id);
+      await logEvent({ event_name: 'invoice_created', user_id: user.id, props: { source: 'bot', amount: env.STARS_PRICE } });
+      return ctx.reply(
+        `${until}⭐ Подписка: ${env.STARS_PRICE} Stars за ${PAID_PERIOD_DAYS} дней — проекты, задачи и ИИ-ассистент без ограничений пробного периода.`,
+        Markup.inlineKeyboard([[Markup.button.url(`Оплатить ⭐ ${env.STARS_PRICE}`, link)]])
+      );
+    } catch (e) {
+      if (e instanceof AppError) return ctx.reply(botErrorText(e));
+      throw e;
+    }
+  });
+
+  // Telegram waits at most 10 seconds for the answer before failing the payment
+  bot.on('pre_checkout_query', async (ctx) => {
+    const q = ctx.preCheckoutQuery;
+    const error = await checkPreCheckout({
+      from_tg_id: q.from.id,
+      currency: q.currency,
+      total_amount: q.total_amount,
+      invoice_payload: q.invoice_payload
+    });
+    if (error) log.warn({ tg_id: q.from.id, payload: q.invoice_payload, error }, 'pre_checkout_query rejected');
+    return error ? ctx.answerPreCheckoutQuery(false, error) : ctx.answerPreCheckoutQuery(true);
+  });
+
+  bot.on(message('successful_payment'), async (ctx) => {
+    const p = ctx.message.successful_payment as StarsPayment;
+    try {
+      const { subscription, duplicate } = await applyPayment({
+        from_tg_id: ctx.from.id,
+        currency: p.currency,
+        total_amount: p.total_amount,
+        invoice_payload: p.invoice_payload,
+        telegram_payment_charge_id: p.telegram_payment_charge_id,
+        subscription_expiration_date: p.subscription_expiration_date,
+        is_recurring: p.is_recurring,
+        is_first_recurring: p.is_first_recurring
+      });
+      if (duplicate) return;
+      const until = subscription.paid_until ? ` до ${formatDate(subscription.paid_until)}` : '';
+      const text = p.is_recurring && !p.is_first_recurring
+        ? `🔄 Подписка продлена${until}.`
+        : `🎉 Спасибо! Подписка активна${until}.`;
+      return ctx.reply(text);
+    } catch (e) {
+      // The stars are already charged: keep the charge id in the log to sort it out by hand
+      log.error({ err: e, tg_id: ctx.from.id, charge_id: p.telegram_payment_charge_id }, 'successful_payment not applied');
+      return ctx.reply('⚠️ Оплата получена, но подписку не удалось продлить. Напиши в поддержку — мы разберёмся.');
+    }
+  });
+}
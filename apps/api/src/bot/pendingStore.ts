@@ -0,0 +1,48 @@
+/**
+ * In-memory state of a bot flow that waits for a button press (a file or a
+ * forward before the user picks where it goes). Entries expire after `ttlMs`
+ * and at most `maxSize` are kept, oldest dropped first, so pickers the user
+ * never answers don't pile up in the process.
+ */
+
+export type PendingStore<K, V> = {
+  get(key: K): V | undefined;
+  set(key: K, value: V): void;
+  delete(key: K): void;
+  readonly size: number;
+};
+
+export function pendingStore<K, V>(opts: { ttlMs: number; maxSize: number }): PendingStore<K, V> {
+  // Insertion order is expiry order: set() always re-inserts at the end
+  const entries = new Map<K, { value: V; expires_at: number }>();
+
+  function prune(now: number) {
+    for (const [key, entry] of entries) {
+      if (entry.expires_at > now && entries.size <= opts.maxSize) break;
+      entries.delete(key);
+    }
+  }
+
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      if (entry.expires_at > Date.now()) return entry.value;
+      entries.delete(key);
+      return undefined;
+    },
+    set(key, value) {
+      const now = Date.now();
+      entries.delete(key);
+      entries.set(key, { value, expires_at: now + opts.ttlMs });
+      prune(now);
+    },
+    delete(key) {
+      entries.delete(key);
+    },
+    get size() {
+      prune(Date.now());
+      return entries.size;
+    }
+  };
+}
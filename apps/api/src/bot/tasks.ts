@@ -0,0 +1,53 @@
+import type { FastifyBaseLogger } from 'fastify';
+import { Telegraf } from 'telegraf';
+import { DEFAULT_TIMEZONE, TASK_ACTION_RE, isValidTimezone, taskActionKeyboard } from '@ba/shared';
+import { prisma } from '../lib/db.js';
+import { env } from '../lib/env.js';
+import { logEvent } from '../lib/events.js';
+import { AppError } from '../lib/errors.js';
+import { loadTask } from '../lib/policy.js';
+import { updateTask } from '../lib/tasks.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function keyboard(taskId: string, done = false) {
+  return taskActionKeyboard(taskId, { botUsername: env.TELEGRAM_BOT_USERNAME || undefined, done });
+}
+
+// "Done" / "+1 day" buttons under reminder messages; "Open" is a plain t.me link
+export function registerTaskActionHandlers(bot: Telegraf, log: FastifyBaseLogger) {
+  bot.action(TASK_ACTION_RE, async (ctx) => {
+    const [, action, taskId] = ctx.match;
+    const user = await prisma.user.findUnique({
+      where: { tg_id: BigInt(ctx.from.id) },
+      include: { reminder_settings: true }
+    });
+    if (!user) return ctx.answerCbQuery('Access denied', { show_alert: true });
+
+    try {
+      if (action === 'done') {
+        const { before, task } = await updateTask(user.id, taskId, { status: 'done' }, log);
+        await logEvent({ event_name: 'update_task', user_id: user.id, focus_id: before.focus_id, props: { task_id: task.id, source: 'bot', action } });
+        await ctx.editMessageText(`✅ Задача «${task.title}» выполнена`, { reply_markup: keyboard(task.id, true) });
+        return ctx.answerCbQuery('Готово!');
+      }
+
+      // Snooze moves the deadline a day past whichever is later: the old deadline or now
+      const { task: current } = await loadTask(taskId, user.id);
+      const base = Math.max(current.due_at?.getTime() ?? 0, Date.now());
+      const { before, task } = await updateTask(user.id, taskId, { due_at: new Date(base + DAY_MS).toISOString() }, log);
+      await logEvent({ event_name: 'update_task', user_id: user.id, focus_id: before.focus_id, props: { task_id: task.id, source: 'bot', action } });
+
+      const tz = user.reminder_settings?.timezone;
+      const dueLabel = task.due_at!.toLocaleString('ru-RU', {
+        day: 'numeric', month: 'long', hour: '2-digit', minute: '2-digit',
+        timeZone: tz && isValidTimezone(tz) ? tz : DEFAULT_TIMEZONE
+      });
+      await ctx.editMessageText(`⏰ Задача «${task.title}» перенесена на ${dueLabel}`, { reply_markup: keyboard(task.id) });
+      return ctx.answerCbQuery('Перенесено на день');
+    } catch (e) {
+      if (e instanceof AppError) return ctx.answerCbQuery(e.message, { show_alert: true });
+      throw e;
+    }
+  });
+}
@@ -0,0 +1,391 @@
+import { z } from 'zod';
+import { normalizeDue } from './dateParse.js';
+import { AppError } from './errors.js';
+import { logEvent } from './events.js';
+import { llm, type ChatMsg, type CompletionRequest, type CompletionResult, type ToolCall, type ToolSpec } from './llm/index.js';
+import { recordUsage, type UsageContext } from './usage.js';
+
+export type { ChatMsg };
+
+const zAiTask = z.object({
+  title: z.string().trim().min(1).max(200),
+  description: z.string().nullish(),
+  priority: z.enum(['low', 'medium', 'high', 'urgent']).optional(),
+  due_at: z.string().datetime({ offset: true }).nullish()
+});
+
+export const aiResponseSchema = z.object({
+  reply: z.string().min(1),
+  tasks: z.array(zAiTask).max(20).optional(),
+  followup_questions: z.array(z.string()).optional(),
+  // Knowledge base labels the reply relies on, e.g. ["D1"]
+  sources: z.array(z.string()).max(20).optional()
+});
+
+export type AiTask = z.infer<typeof zAiTask>;
+export type AiResponse = z.infer<typeof aiResponseSchema>;
+
+const NOT_CONFIGURED_REPLY =
+  'Ассистент пока не подключён.\n' +
+  'Добавь OPENAI_API_KEY (или OPENAI_BASE_URL своего сервера) в apps/api/.env и перезапусти API.\n\n' +
+  'Пока можешь описать проблему, а я подскажу, какие данные нужны для анализа: ниша, продукт, текущие цифры и цель.';
+
+const TOOLS_PROMPT =
+  '\nДанные проекта (задачи, участники, метрики) получай через инструменты list_*, не выдумывай их.\n' +
+  'Изменения (create_task, update_task_status, assign_task, update_kpi) применяются только после подтверждения пользователем: ' +
+  'после вызова напиши, что ждёт подтверждения, и не дублируй созданные так задачи в "tasks".';
+
+// Мы просим модель вернуть ТОЛЬКО JSON, чтобы можно было создать задачи.
+// Текущая дата нужна, чтобы «к пятнице» превращалось в конкретный ISO-срок.
+function systemPrompt(timezone: string, now: Date, withTools: boolean): ChatMsg {
+  return {
+    role: 'system',
+    content:
+      'Ты — бизнес‑ассистент. Помогаешь предпринимателю решать бизнес‑задачи: запуск, продажи, маркетинг, процессы, финансы.\n' +
+      'Отвечай на русском.\n' +
+      'Всегда давай конкретный план действий. Если данных мало — задай 3–5 уточняющих вопросов.\n' +
+      'Формат ответа: строго JSON без Markdown.\n' +
+      'JSON схема: {"reply": string, "tasks": [{"title": string, "description"?: string, "priority"?: "low|medium|high|urgent", "due_at"?: ISOString|null}], "followup_questions"?: string[], "sources"?: string[]}.\n' +
+      `Сейчас ${now.toISOString()}, часовой пояс проекта ${timezone}. due_at — дата и время ISO 8601 со смещением, например 2025-03-14T18:00:00+03:00.` +
+      (withTools ? TOOLS_PROMPT : '')
+  };
+}
+
+export type AssistantCallOptions = {
+  model: string;
+  /** Relative deadlines in suggestions are resolved in this timezone */
+  timezone: string;
+  user_id: string;
+  focus_id: string;
+  /** Functions the model may call before answering; see lib/assistantTools.ts */
+  tools?: AssistantTools;
+  signal?: AbortSignal;
+};
+
+export type AssistantTools = {
+  specs: ToolSpec[];
+  /** Returns the JSON the model gets back as the call's result */
+  run(call: ToolCall): Promise<string>;
+};
+
+// Rounds of tool calls per turn; the last request goes out without tools so the model has to answer
+const MAX_TOOL_ROUNDS = 4;
+
+type Validated = { ok: true; data: AiResponse } | { ok: false; issues: string[]; parsed: any; content: string };
+
+// Lowercase priorities and turn "завтра" / "2025-03-14" into full ISO before the schema sees them
+function normalize(parsed: any, timezone: string) {
+  if (!parsed || typeof parsed !== 'object') return parsed;
+  const tasks = Array.isArray(parsed.tasks)
+    ? parsed.tasks.map((t: any) => {
+        if (!t || typeof t !== 'object') return t;
+        const priority = typeof t.priority === 'string' ? t.priority.trim().toLowerCase() : t.priority;
+        let due_at = t.due_at === '' ? null : t.due_at;
+        if (typeof due_at === 'string') due_at = normalizeDue(due_at, timezone)?.toISOString() ?? due_at;
+        return { ...t, priority: priority || undefined, due_at };
+      })
+    : parsed.tasks ?? undefined;
+  return { ...parsed, tasks, followup_questions: parsed.followup_questions ?? undefined, sources: parsed.sources ?? undefined };
+}
+
+function validate(content: string, timezone: string): Validated {
+  const parsed = safeJsonParse(content);
+  if (parsed === null) return { ok: false, issues: ['response is not valid JSON'], parsed, content };
+  const result = aiResponseSchema.safeParse(normalize(parsed, timezone));
+  if (result.success) return { ok: true, data: result.data };
+  const issues = result.error.issues.slice(0, 10).map(i => `${i.path.join('.') || '(root)'}: ${i.message}`);
+  return { ok: false, issues, parsed, content };
+}
+
+// Last resort after a failed repair: keep the reply text and whichever suggestions are valid
+function salvage(v: Extract<Validated, { ok: false }>, timezone: string): AiResponse {
+  const parsed = normalize(v.parsed, timezone);
+  const reply = typeof parsed?.reply === 'string' && parsed.reply ? parsed.reply : v.content;
+  const tasks = Array.isArray(parsed?.tasks)
+    ? parsed.tasks.flatMap((t: unknown) => {
+        const r = zAiTask.safeParse(t);
+        return r.success ? [r.data] : [];
+      })
+    : undefined;
+  const questions = Array.isArray(parsed?.followup_questions)
+    ? parsed.followup_questions.filter((q: unknown) => typeof q === 'string')
+    : undefined;
+  const sources = Array.isArray(parsed?.sources)
+    ? parsed.sources.filter((s: unknown) => typeof s === 'string')
+    : undefined;
+  return { reply: reply || 'Не удалось разобрать ответ ассистента.', tasks, followup_questions: questions, sources };
+}
+
+async function logInvalid(opts: AssistantCallOptions, attempt: number, issues: string[]) {
+  await logEvent({
+    event_name: 'ai_response_invalid',
+    user_id: opts.user_id,
+    focus_id: opts.focus_id,
+    props: { attempt, model: opts.model, issues }
+  });
+}
+
+function request(messages: ChatMsg[], opts: AssistantCallOptions, withTools = false): CompletionRequest {
+  return {
+    model: opts.model,
+    temperature: 0.4,
+    json: true,
+    messages: [systemPrompt(opts.timezone, new Date(), !!opts.tools), ...messages],
+    tools: withTools ? opts.tools?.specs : undefined,
+    signal: opts.signal
+  };
+}
+
+/**
+ * Calls the model, answering its tool calls until it writes the final answer.
+ * Returns that answer and the conversation including the tool exchange.
+ */
+async function converse(
+  messages: ChatMsg[],
+  opts: AssistantCallOptions,
+  send: (req: CompletionRequest) => Promise<CompletionResult>
+) {
+  const convo = [...messages];
+  for (let round = 0; ; round++) {
+    const withTools = !!opts.tools && round < MAX_TOOL_ROUNDS;
+    const req = request(convo, opts, withTools);
+    let res: CompletionResult;
+    try {
+      res = await send(req);
+    } catch (e) {
+      // The prompt is billed even when the user stops the answer
+      if (opts.signal?.aborted) await recordUsage(opts, 'chat', req, null);
+      throw e;
+    }
+    await recordUsage(opts, 'chat', req, res);
+    if (!withTools || !res.tool_calls.length) return { content: res.content, messages: convo };
+
+    convo.push({ role: 'assistant', content: res.content, tool_calls: res.tool_calls });
+    for (const call of res.tool_calls) {
+      convo.push({ role: 'tool', tool_call_id: call.id, content: await opts.tools!.run(call) });
+    }
+  }
+}
+
+/**
+ * Validates the model's answer; on failure asks the model once to fix it, quoting the schema errors.
+ * Every failed attempt is logged as ai_response_invalid.
+ */
+async function finish(content: string, messages: ChatMsg[], opts: AssistantCallOptions): Promise<AiResponse> {
+  const first = validate(content, opts.timezone);
+  if (first.ok) return first.data;
+  await logInvalid(opts, 1, first.issues);
+
+  let second: Validated;
+  try {
+    const req = request([
+      ...messages,
+      { role: 'assistant', content },
+      {
+        role: 'user',
+        content: 'Твой ответ не прошёл проверку схемы:\n' + first.issues.map(i => `- ${i}`).join('\n') +
+          '\nВерни тот же ответ, исправленный строго по JSON схеме, без пояснений.'
+      }
+    ], opts);
+    const repaired = await llm().complete(req);
+    await recordUsage(opts, 'repair', req, repaired);
+    second = validate(repaired.content, opts.timezone);
+  } catch (e) {
+    if (e instanceof AppError && e.code === 'ai_error') return salvage(first, opts.timezone);
+    throw e;
+  }
+  if (second.ok) return second.data;
+  await logInvalid(opts, 2, second.issues);
+  return salvage(second, opts.timezone);
+}
+
+// Upstream failures become a reply the user can read, as before; aborts propagate
+function failureReply(e: unknown): AiResponse {
+  if (e instanceof AppError && e.code === 'ai_error') return { reply: `Не удалось получить ответ ассистента. ${e.message}` };
+  throw e;
+}
+
+export async function callBusinessAssistant(messages: ChatMsg[], opts: AssistantCallOptions): Promise<AiResponse> {
+  const provider = llm();
+  if (!provider.configured) return { reply: NOT_CONFIGURED_REPLY };
+
+  let done: Awaited<ReturnType<typeof converse>>;
+  try {
+    done = await converse(messages, opts, req => provider.complete(req));
+  } catch (e) {
+    return failureReply(e);
+  }
+  return finish(done.content, done.messages, opts);
+}
+
+/**
+ * Same answer as callBusinessAssistant, but the text of "reply" is handed to onDelta
+ * while the model is still writing. Aborting the signal aborts the upstream request.
+ * A repaired answer may differ from what was streamed; the returned one is authoritative.
+ */
+export async function streamBusinessAssistant(
+  messages: ChatMsg[],
+  onDelta: (text: string) => void,
+  opts: AssistantCallOptions
+): Promise<AiResponse> {
+  const provider = llm();
+  if (!provider.configured) {
+    onDelta(NOT_CONFIGURED_REPLY);
+    return { reply: NOT_CONFIGURED_REPLY };
+  }
+
+  let done: Awaited<ReturnType<typeof converse>>;
+  try {
+    done = await converse(messages, opts, (req) => {
+      const extract = replyExtractor();
+      return provider.stream(req, (delta) => {
+        const text = extract(delta);
+        if (text) onDelta(text);
+      });
+    });
+  } catch (e) {
+    const failed = failureReply(e);
+    onDelta(failed.reply);
+    return failed;
+  }
+  return finish(done.content, done.messages, opts);
+}
+
+const TITLE_MAX = 60;
+
+function clip(text: string, max: number) {
+  const line = text.replace(/\s+/g, ' ').trim();
+  return line.length > max ? line.slice(0, max - 1).trimEnd() + '…' : line;
+}
+
+/** A short chat title for the first question; falls back to the question itself if the model is unavailable. */
+export async function suggestThreadTitle(question: string, model: string, usage: UsageContext): Promise<string> {
+  const fallback = clip(question, TITLE_MAX) || 'Новый чат';
+  const provider = llm();
+  if (!provider.configured) return fallback;
+  try {
+    const req: CompletionRequest = {
+      model,
+      temperature: 0.2,
+      messages: [
+        { role: 'system', content: 'Придумай название чата из 2–5 слов по первому сообщению пользователя. Ответь только названием, без кавычек и точки в конце.' },
+        { role: 'user', content: question.slice(0, 1000) }
+      ]
+    };
+    const res = await provider.complete(req);
+    await recordUsage(usage, 'title', req, res);
+    const title = clip(res.content.split('\n')[0].replace(/^["«'\s]+|["»'.\s]+$/g, ''), TITLE_MAX);
+    return title || fallback;
+  } catch (e) {
+    if (e instanceof AppError) return fallback;
+    throw e;
+  }
+}
+
+/**
+ * Folds messages that left the prompt window into a thread's running summary.
+ * Upstream errors are thrown; the caller simply tries again after a later turn.
+ */
+export async function summarizeConversation(
+  previous: string | null,
+  messages: { role: string; content: string }[],
+  opts: { model: string; maxWords: number; usage: UsageContext }
+): Promise<string> {
+  const transcript = messages
+    .map(m => `${m.role === 'user' ? 'Пользователь' : 'Ассистент'}: ${m.content}`)
+    .join('\n\n');
+  const req: CompletionRequest = {
+    model: opts.model,
+    temperature: 0.2,
+    messages: [
+      {
+        role: 'system',
+        content:
+          'Ты ведёшь конспект переписки предпринимателя с бизнес‑ассистентом. Обнови конспект с учётом новых сообщений: ' +
+          'сохрани принятые решения, цифры, договорённости и открытые вопросы, убери то, что потеряло значение. ' +
+          `Пиши по‑русски, коротким списком, не длиннее ${opts.maxWords} слов. Ответь только конспектом.`
+      },
+      { role: 'user', content: `Текущий конспект:\n${previous || '(пусто)'}\n\nНовые сообщения:\n${transcript}` }
+    ]
+  };
+  const res = await llm().complete(req);
+  await recordUsage(opts.usage, 'summary', req, res);
+  return res.content.trim();
+}
+
+const ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' };
+
+/**
+ * Decodes the "reply" string of a JSON answer that is still arriving, chunk by chunk.
+ * A model that ignored the JSON instruction gets its plain text passed through as is.
+ */
+function replyExtractor() {
+  let raw = '';
+  let mode: 'detect' | 'json' | 'plain' = 'detect';
+  let pos = -1; // index just past the opening quote of "reply"
+  let closed = false;
+
+  return (chunk: string): string => {
+    raw += chunk;
+    if (mode === 'detect') {
+      const first = raw.trimStart()[0];
+      if (!first) return '';
+      mode = first === '{' || first === '`' ? 'json' : 'plain';
+      if (mode === 'plain') return raw;
+    }
+    if (mode === 'plain') return chunk;
+    if (closed) return '';
+
+    if (pos < 0) {
+      const m = /"reply"\s*:\s*"/.exec(raw);
+      if (!m) return '';
+      pos = m.index + m[0].length;
+    }
+
+    let out = '';
+    while (pos < raw.length) {
+      const ch = raw[pos];
+      if (ch === '"') {
+        closed = true;
+        break;
+      }
+      if (ch !== '\\') {
+        out += ch;
+        pos++;
+        continue;
+      }
+      // Escapes may be split across chunks: wait until the whole sequence is here
+      const next = raw[pos + 1];
+      if (next === undefined) break;
+      if (next === 'u') {
+        const hex = raw.slice(pos + 2, pos + 6);
+        if (hex.length < 4) break;
+        out += String.fromCharCode(parseInt(hex, 16));
+        pos += 6;
+        continue;
+      }
+      out += ESCAPES[next] ?? next;
+      pos += 2;
+    }
+    return out;
+  };
+}
+
+function safeJsonParse(text: string): any | null {
+  try {
+    return JSON.parse(text);
+  } catch {
+    // Иногда модель оборачивает в ```json ...```
+    const cleaned = text
+      .trim()
+      .replace(/^```json\s*/i, '')
+      .replace(/^```\s*/i, '')
+      .replace(/```$/i, '')
+      .trim();
+    try {
+      return JSON.parse(cleaned);
+    } catch {
+      return null;
+    }
+  }
+}
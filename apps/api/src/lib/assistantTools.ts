@@ -0,0 +1,385 @@
+/**
+ * ===================================================
+ * ASSISTANT TOOLS
+ * ===================================================
+ * Functions the model may call to read and change project data.
+ * Everything runs as the user who wrote to the assistant, through the
+ * same services and policy checks as the REST routes.
+ * Reads are answered immediately; writes are only checked and described,
+ * then wait in AssistantMessage.meta.tool_calls until that user confirms them.
+ */
+
+import type { FastifyBaseLogger } from 'fastify';
+import { z, ZodError } from 'zod';
+import { prisma } from './db.js';
+import { normalizeDue } from './dateParse.js';
+import { AppError, Errors } from './errors.js';
+import { loadKpiForManage, updateKpi } from './kpis.js';
+import type { ToolCall, ToolSpec } from './llm/index.js';
+import { assertCan, can, canEditTask, loadAssignee, loadMember, loadTask } from './policy.js';
+import { createTask, updateTask } from './tasks.js';
+
+export type ToolContext = {
+  userId: string;
+  focusId: string;
+  timezone: string;
+  log: FastifyBaseLogger;
+};
+
+/**
+ * done/error — a read that ran (or failed) during the turn
+ * pending → applying → applied | failed — a write waiting for confirmation, then being applied
+ * pending → rejected
+ */
+export type ToolCallStatus = 'done' | 'error' | 'pending' | 'applying' | 'applied' | 'failed' | 'rejected';
+
+export type ToolCallLog = {
+  id: string;
+  name: string;
+  args: unknown;
+  status: ToolCallStatus;
+  /** Human-readable description of a write, shown on the confirmation card */
+  summary?: string;
+  result?: unknown;
+  error?: string;
+  resolved_at?: string;
+};
+
+type ToolDef<A> = {
+  spec: ToolSpec;
+  args: z.ZodType<A, z.ZodTypeDef, unknown>;
+} & (
+  | { write: false; run(ctx: ToolContext, args: A): Promise<{ data: unknown; result?: unknown }> }
+  | {
+      write: true;
+      /**
+       * Checks permissions and targets without changing anything; returns the
+       * summary and the args to store for apply (e.g. with the due date resolved)
+       */
+      prepare(ctx: ToolContext, args: A): Promise<{ summary: string; args: A }>;
+      /** Runs on confirm, possibly much later: repeats the checks that tie the target to the focus */
+      apply(ctx: ToolContext, args: A): Promise<unknown>;
+    }
+);
+
+function tool<A>(def: ToolDef<A>): ToolDef<any> {
+  return def as ToolDef<any>;
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  todo: 'к выполнению', in_progress: 'в работе', done: 'выполнена', canceled: 'отменена'
+};
+
+const zStatus = z.enum(['todo', 'in_progress', 'done', 'canceled']);
+const zPriority = z.enum(['low', 'medium', 'high', 'urgent']);
+
+function userName(u: { first_name: string | null; username: string | null; id: string }) {
+  return u.first_name || (u.username ? `@${u.username}` : `участник …${u.id.slice(-4)}`);
+}
+
+// The model only knows ids of this focus; an id from elsewhere is treated as missing
+async function loadFocusTask(ctx: ToolContext, taskId: string) {
+  const { task, member } = await loadTask(taskId, ctx.userId);
+  if (task.focus_id !== ctx.focusId) throw Errors.notFound('Task');
+  return { task, member };
+}
+
+async function loadFocusKpi(ctx: ToolContext, kpiId: string) {
+  const kpi = await loadKpiForManage(kpiId, ctx.userId);
+  if (kpi.focus_id !== ctx.focusId) throw Errors.notFound('KPI');
+  return kpi;
+}
+
+function formatDue(due: Date, timezone: string) {
+  return due.toLocaleString('ru-RU', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit', timeZone: timezone });
+}
+
+const TOOLS: Record<string, ToolDef<any>> = {
+  list_tasks: tool({
+    spec: {
+      name: 'list_tasks',
+      description: 'Задачи проекта: id, название, статус, приоритет, срок, исполнитель.',
+      parameters: {
+        type: 'object',
+        properties: {
+          status: { type: 'string', enum: zStatus.options, description: 'Только задачи с этим статусом' },
+          mine: { type: 'boolean', description: 'Только задачи текущего пользователя' },
+          limit: { type: 'integer', minimum: 1, maximum: 50 }
+        }
+      }
+    },
+    args: z.object({ status: zStatus.optional(), mine: z.boolean().optional(), limit: z.number().int().min(1).max(50).default(30) }),
+    write: false,
+    async run(ctx, args) {
+      await loadMember(ctx.focusId, ctx.userId);
+      const where = {
+        focus_id: ctx.focusId,
+        ...(args.status && { status: args.status }),
+        ...(args.mine && { assigned_to_user_id: ctx.userId })
+      };
+      const [tasks, total] = await Promise.all([
+        prisma.task.findMany({
+          where,
+          orderBy: [{ due_at: 'asc' }, { created_at: 'desc' }],
+          take: args.limit,
+          include: { assigned_to: { select: { id: true, first_name: true, username: true } } }
+        }),
+        prisma.task.count({ where })
+      ]);
+      const data = {
+        total,
+        tasks: tasks.map(t => ({
+          id: t.id,
+          title: t.title,
+          status: t.status,
+          priority: t.priority,
+          due_at: t.due_at?.toISOString() ?? null,
+          assignee: t.assigned_to ? { user_id: t.assigned_to.id, name: userName(t.assigned_to) } : null
+        }))
+      };
+      return { data, result: { count: tasks.length, total } };
+    }
+  }),
+
+  list_members: tool({
+    spec: {
+      name: 'list_members',
+      description: 'Участники проекта: user_id, имя, роль.',
+      parameters: { type: 'object', properties: {} }
+    },
+    args: z.object({}),
+    write: false,
+    async run(ctx) {
+      await loadMember(ctx.focusId, ctx.userId);
+      const members = await prisma.focusMember.findMany({
+        where: { focus_id: ctx.focusId },
+        orderBy: { joined_at: 'asc' },
+        include: { user: { select: { id: true, first_name: true, username: true } } }
+      });
+      const data = members.map(m => ({ user_id: m.user_id, name: userName(m.user), role: m.role }));
+      return { data, result: { count: data.length } };
+    }
+  }),
+
+  list_kpis: tool({
+    spec: {
+      name: 'list_kpis',
+      description: 'Метрики (KPI) проекта: id, название, единица, цель, текущее значение.',
+      parameters: { type: 'object', properties: {} }
+    },
+    args: z.object({}),
+    write: false,
+    async run(ctx) {
+      await loadMember(ctx.focusId, ctx.userId);
+      const kpis = await prisma.kPI.findMany({ where: { focus_id: ctx.focusId }, orderBy: { created_at: 'asc' } });
+      const data = kpis.map(k => ({ id: k.id, name: k.name, unit: k.unit, target_value: k.target_value, current_value: k.current_value }));
+      return { data, result: { count: data.length } };
+    }
+  }),
+
+  create_task: tool({
+    spec: {
+      name: 'create_task',
+      description: 'Создать задачу в проекте. Применяется после подтверждения пользователем.',
+      parameters: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          description: { type: 'string' },
+          priority: { type: 'string', enum: zPriority.options },
+          due_at: { type: 'string', description: 'Срок, ISO 8601 со смещением' },
+          assigned_to_user_id: { type: 'string', description: 'user_id из list_members' }
+        },
+        required: ['title']
+      }
+    },
+    args: z.object({
+      title: z.string().trim().min(1).max(200),
+      description: z.string().optional(),
+      priority: zPriority.optional(),
+      due_at: z.string().optional(),
+      assigned_to_user_id: z.string().uuid().optional()
+    }),
+    write: true,
+    async prepare(ctx, args) {
+      const member = await loadMember(ctx.focusId, ctx.userId);
+      assertCan(member, 'task.create');
+      let summary = `Создать задачу «${args.title}»`;
+      let due_at = args.due_at;
+      if (args.due_at) {
+        const due = normalizeDue(args.due_at, ctx.timezone);
+        if (!due) throw Errors.validation(`Unrecognized due_at: ${args.due_at}`);
+        // Stored resolved, so a confirm on another day keeps the date the summary showed
+        due_at = due.toISOString();
+        summary += ` · до ${formatDue(due, ctx.timezone)}`;
+      }
+      if (args.assigned_to_user_id) {
+        assertCan(member, 'task.assign');
+        summary += ` · исполнитель ${userName(await loadAssignee(ctx.focusId, args.assigned_to_user_id))}`;
+      }
+      return { summary, args: { ...args, due_at } };
+    },
+    async apply(ctx, args) {
+      const task = await createTask(ctx.userId, ctx.focusId, args, ctx.log);
+      return { task_id: task.id };
+    }
+  }),
+
+  update_task_status: tool({
+    spec: {
+      name: 'update_task_status',
+      description: 'Сменить статус задачи. Применяется после подтверждения пользователем.',
+      parameters: {
+        type: 'object',
+        properties: {
+          task_id: { type: 'string' },
+          status: { type: 'string', enum: zStatus.options }
+        },
+        required: ['task_id', 'status']
+      }
+    },
+    args: z.object({ task_id: z.string().uuid(), status: zStatus }),
+    write: true,
+    async prepare(ctx, args) {
+      const { task, member } = await loadFocusTask(ctx, args.task_id);
+      if (!canEditTask(member, task, ctx.userId)) {
+        throw can(member.role, 'task.edit_own') ? Errors.notAssignee() : Errors.insufficientRole();
+      }
+      return { summary: `«${task.title}»: статус → ${STATUS_LABELS[args.status]}`, args };
+    },
+    async apply(ctx, args) {
+      await loadFocusTask(ctx, args.task_id);
+      const { task } = await updateTask(ctx.userId, args.task_id, { status: args.status }, ctx.log);
+      return { task_id: task.id };
+    }
+  }),
+
+  assign_task: tool({
+    spec: {
+      name: 'assign_task',
+      description: 'Назначить исполнителя задачи (null — снять). Применяется после подтверждения пользователем.',
+      parameters: {
+        type: 'object',
+        properties: {
+          task_id: { type: 'string' },
+          user_id: { type: ['string', 'null'], description: 'user_id из list_members' }
+        },
+        required: ['task_id', 'user_id']
+      }
+    },
+    args: z.object({ task_id: z.string().uuid(), user_id: z.string().uuid().nullable() }),
+    write: true,
+    async prepare(ctx, args) {
+      const { task, member } = await loadFocusTask(ctx, args.task_id);
+      assertCan(member, 'task.assign');
+      if (!args.user_id) return { summary: `«${task.title}»: снять исполнителя`, args };
+      return { summary: `«${task.title}»: назначить ${userName(await loadAssignee(ctx.focusId, args.user_id))}`, args };
+    },
+    async apply(ctx, args) {
+      await loadFocusTask(ctx, args.task_id);
+      const { task } = await updateTask(ctx.userId, args.task_id, { assigned_to_user_id: args.user_id }, ctx.log);
+      return { task_id: task.id };
+    }
+  }),
+
+  update_kpi: tool({
+    spec: {
+      name: 'update_kpi',
+      description: 'Записать новое текущее значение метрики. Применяется после подтверждения пользователем.',
+      parameters: {
+        type: 'object',
+        properties: {
+          kpi_id: { type: 'string' },
+          current_value: { type: 'number' }
+        },
+        required: ['kpi_id', 'current_value']
+      }
+    },
+    args: z.object({ kpi_id: z.string().uuid(), current_value: z.number().finite() }),
+    write: true,
+    async prepare(ctx, args) {
+      const kpi = await loadFocusKpi(ctx, args.kpi_id);
+      const unit = kpi.unit ? ` ${kpi.unit}` : '';
+      return { summary: `Метрика «${kpi.name}»: ${kpi.current_value ?? '—'} → ${args.current_value}${unit}`, args };
+    },
+    async apply(ctx, args) {
+      await loadFocusKpi(ctx, args.kpi_id);
+      const { kpi } = await updateKpi(ctx.userId, args.kpi_id, { current_value: args.current_value });
+      return { kpi_id: kpi.id };
+    }
+  })
+};
+
+export const TOOL_SPECS: ToolSpec[] = Object.values(TOOLS).map(t => t.spec);
+
+// What the model gets back when a call fails: a short reason it can explain to the user
+function failure(e: unknown): { error: string; message: string } {
+  if (e instanceof ZodError) {
+    return { error: 'invalid_arguments', message: e.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; ') };
+  }
+  if (e instanceof AppError) return { error: e.code, message: e.message };
+  throw e;
+}
+
+/**
+ * Tools for one assistant turn. `run` answers the model's calls and records
+ * each of them in `calls`, which the route stores in the reply's meta.
+ */
+export function assistantToolbox(ctx: ToolContext) {
+  const calls: ToolCallLog[] = [];
+
+  async function run(call: ToolCall): Promise<string> {
+    const def = TOOLS[call.name];
+    let raw: unknown = {};
+    try {
+      raw = call.arguments ? JSON.parse(call.arguments) : {};
+    } catch {
+      raw = call.arguments;
+    }
+    const entry: ToolCallLog = { id: call.id, name: call.name, args: raw, status: 'error' };
+    calls.push(entry);
+
+    if (!def) {
+      entry.error = 'unknown_tool';
+      return JSON.stringify({ error: 'unknown_tool', message: `No tool named ${call.name}` });
+    }
+    try {
+      const args = def.args.parse(raw);
+      entry.args = args;
+      if (!def.write) {
+        const { data, result } = await def.run(ctx, args);
+        entry.status = 'done';
+        entry.result = result;
+        return JSON.stringify(data);
+      }
+      const prepared = await def.prepare(ctx, args);
+      entry.args = prepared.args;
+      entry.summary = prepared.summary;
+      entry.status = 'pending';
+      return JSON.stringify({
+        status: 'pending_confirmation',
+        summary: entry.summary,
+        note: 'Изменение ещё не применено: пользователь увидит кнопку подтверждения.'
+      });
+    } catch (e) {
+      const f = failure(e);
+      entry.error = f.message;
+      return JSON.stringify(f);
+    }
+  }
+
+  return { specs: TOOL_SPECS, calls, run };
+}
+
+/** Runs a confirmed write. The result is a resolved copy of the entry: applied, or failed with the reason. */
+export async function applyToolCall(ctx: ToolContext, entry: ToolCallLog): Promise<ToolCallLog> {
+  const def = TOOLS[entry.name];
+  const resolved_at = new Date().toISOString();
+  if (!def?.write) return { ...entry, status: 'failed', error: 'unknown_tool', resolved_at };
+  try {
+    const result = await def.apply(ctx, def.args.parse(entry.args));
+    return { ...entry, status: 'applied', result, resolved_at };
+  } catch (e) {
+    return { ...entry, status: 'failed', error: failure(e).message, resolved_at };
+  }
+}
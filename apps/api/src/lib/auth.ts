@@ -32,7 +32,7 @@ export async function authenticate(req: FastifyRequest): Promise<AuthContext | n
   return { user };
 }
 
-async function upsertUser(tgId: bigint, profile: { username?: string | null; first_name?: string | null; last_name?: string | null }) {
+export async function upsertUser(tgId: bigint, profile: { username?: string | null; first_name?: string | null; last_name?: string | null }) {
   const u = await prisma.user.upsert({
     where: { tg_id: tgId },
     create: {
@@ -0,0 +1,182 @@
+/**
+ * ===================================================
+ * RUSSIAN DUE DATE PARSER
+ * ===================================================
+ * Pulls a deadline out of free text typed in chat ("позвонить Ивану завтра в 15:00")
+ * and returns the rest as the task title. Understands:
+ *   сегодня / завтра / послезавтра, weekdays (пт, в пятницу),
+ *   через (N) часов / дней / недель, 25.12 or 25.12.2026, and a time (15:00, в 15ч).
+ * Dates are interpreted in the user's timezone. A date without a year must look like
+ * one (25.12, 01.03) or follow a preposition (до 1.10), so "версия 1.10" stays text.
+ */
+
+import { localDateKey } from '@ba/shared';
+
+export const DEFAULT_DUE_HOUR = 18; // a date without a time means "by the end of the working day"
+
+const L = '(?<![\\p{L}\\d])'; // word boundaries that work for Cyrillic
+const R = '(?![\\p{L}\\d])';
+
+const WEEKDAYS: [RegExp, number][] = [
+  [/^(пн|понедельник)/, 1],
+  [/^(вт|вторник)/, 2],
+  [/^(ср|сред)/, 3],
+  [/^(чт|четверг)/, 4],
+  [/^(пт|пятниц)/, 5],
+  [/^(сб|суббот)/, 6],
+  [/^(вс|воскресень)/, 0]
+];
+
+const RELATIVE_DAYS: Record<string, number> = { 'сегодня': 0, 'завтра': 1, 'послезавтра': 2 };
+
+const RE = {
+  relativeDay: new RegExp(`${L}(сегодня|завтра|послезавтра)${R}`, 'iu'),
+  weekday: new RegExp(`${L}(?:во?\\s+)?(пн|вт|ср|чт|пт|сб|вс|понедельник|вторник|сред[уа]|четверг|пятниц[уа]|суббот[уа]|воскресенье)${R}`, 'iu'),
+  // "1.10.5" is a version, not the 1st of October
+  date: new RegExp(`${L}(?:(до|к|ко|на|по|с|со|от)\\s+)?(\\d{1,2})\\.(\\d{1,2})(?:\\.(\\d{2}|\\d{4}))?(?![\\p{L}\\d]|\\.\\d)`, 'giu'),
+  inHours: new RegExp(`${L}через\\s+(?:(\\d{1,3})\\s+)?(?:час|часа|часов)${R}`, 'iu'),
+  inDays: new RegExp(`${L}через\\s+(?:(\\d{1,3})\\s+)?(день|дня|дней|неделю|недели|недель)${R}`, 'iu'),
+  time: new RegExp(`${L}(?:в\\s+)?(\\d{1,2}):(\\d{2})${R}`, 'iu'),
+  hour: new RegExp(`${L}в\\s+(\\d{1,2})\\s*(?:ч|час(?:а|ов)?)${R}`, 'iu')
+};
+
+type LocalDate = { y: number; m: number; d: number };
+
+// Offset of the timezone from UTC at the given instant, in ms
+function tzOffset(at: number, timezone: string) {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone, hourCycle: 'h23',
+      year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric'
+    }).formatToParts(new Date(at)).map(p => [p.type, Number(p.value)])
+  );
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+  return asUtc - Math.floor(at / 60_000) * 60_000;
+}
+
+// Local wall-clock time in the timezone → instant. Second pass settles DST transitions.
+function zonedTime({ y, m, d }: LocalDate, hour: number, minute: number, timezone: string) {
+  const wall = Date.UTC(y, m - 1, d, hour, minute);
+  let at = wall - tzOffset(wall, timezone);
+  at = wall - tzOffset(at, timezone);
+  return new Date(at);
+}
+
+function addDays({ y, m, d }: LocalDate, days: number): LocalDate {
+  const t = new Date(Date.UTC(y, m - 1, d + days));
+  return { y: t.getUTCFullYear(), m: t.getUTCMonth() + 1, d: t.getUTCDate() };
+}
+
+// 31.02 must not roll over into March
+function isRealDate(date: LocalDate) {
+  const { y, m, d } = addDays(date, 0);
+  return y === date.y && m === date.m && d === date.d;
+}
+
+// A "25.12" token → the day it means, or null when it is not a date
+function dateToken(match: RegExpMatchArray, today: LocalDate, timezone: string, now: Date): LocalDate | null {
+  const [, preposition, dd, mm, year] = match;
+  if (!year && !preposition && (dd.length < 2 || mm.length < 2)) return null;
+  const day = { y: year ? Number(year.length === 2 ? `20${year}` : year) : today.y, m: Number(mm), d: Number(dd) };
+  if (!isRealDate(day)) return null;
+  // 31.12 typed in January without a year means the coming one
+  if (!year && zonedTime(day, 23, 59, timezone) < now) {
+    const next = { ...day, y: day.y + 1 };
+    return isRealDate(next) ? next : null;
+  }
+  return day;
+}
+
+function weekday({ y, m, d }: LocalDate) {
+  return new Date(Date.UTC(y, m - 1, d)).getUTCDay();
+}
+
+/**
+ * Returns the title with date words removed and the deadline, or due_at = null
+ * when the text has no recognisable date.
+ */
+export function parseTaskText(text: string, timezone: string, now = new Date()): { title: string; due_at: Date | null } {
+  let rest = ` ${text} `;
+  const take = (re: RegExp) => {
+    const m = rest.match(re);
+    if (m) rest = rest.replace(m[0], ' ');
+    return m;
+  };
+
+  const [y, m, d] = localDateKey(now, timezone).split('-').map(Number);
+  const today: LocalDate = { y, m, d };
+
+  // "через 3 часа" is a point in time, not a day
+  const inHours = take(RE.inHours);
+  if (inHours) return { title: cleanTitle(rest), due_at: new Date(now.getTime() + Number(inHours[1] ?? 1) * 3_600_000) };
+
+  let time: { h: number; min: number } | null = null;
+  const t = take(RE.time) ?? take(RE.hour);
+  if (t && Number(t[1]) <= 23 && Number(t[2] ?? 0) <= 59) time = { h: Number(t[1]), min: Number(t[2] ?? 0) };
+  else if (t) rest = ` ${text} `; // not a time after all ("в 25ч"), keep the text as typed
+
+  let day: LocalDate | null = null;
+  let rolling = false; // a weekday / bare time already in the past moves forward a week / day
+  const rel = take(RE.relativeDay);
+  const wd = !rel && take(RE.weekday);
+  const inDays = !rel && !wd && take(RE.inDays);
+  let date: LocalDate | null = null;
+  for (const match of !rel && !wd && !inDays ? rest.matchAll(RE.date) : []) {
+    date = dateToken(match, today, timezone, now);
+    if (date) {
+      rest = rest.replace(match[0], ' ');
+      break;
+    }
+  }
+
+  if (rel) {
+    day = addDays(today, RELATIVE_DAYS[rel[1].toLowerCase()]);
+  } else if (wd) {
+    const word = wd[1].toLowerCase();
+    const target = WEEKDAYS.find(([re]) => re.test(word))![1];
+    day = addDays(today, (target - weekday(today) + 7) % 7);
+    rolling = true;
+  } else if (inDays) {
+    const weeks = /нед/i.test(inDays[2]);
+    day = addDays(today, Number(inDays[1] ?? 1) * (weeks ? 7 : 1));
+  } else if (date) {
+    day = date;
+  }
+
+  if (!day && !time) return { title: cleanTitle(text), due_at: null };
+  if (!day) {
+    day = today;
+    rolling = true;
+  }
+
+  const { h, min } = time ?? { h: DEFAULT_DUE_HOUR, min: 0 };
+  let due = zonedTime(day, h, min, timezone);
+  if (rolling && due <= now) due = zonedTime(addDays(day, time && !wd ? 1 : 7), h, min, timezone);
+  return { title: cleanTitle(rest), due_at: due };
+}
+
+function cleanTitle(s: string) {
+  return s.replace(/\s+/g, ' ').replace(/^[\s,.;:–—-]+|[\s,;:–—-]+$/g, '').trim();
+}
+
+const ISO_WITH_OFFSET = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/i;
+const LOCAL_ISO = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::\d{2}(?:\.\d+)?)?)?$/;
+
+/**
+ * A deadline written by a model or a person → instant. Accepts full ISO, ISO without
+ * an offset (read as local time in the timezone), a bare date and the Russian phrases above.
+ */
+export function normalizeDue(value: string, timezone: string, now = new Date()): Date | null {
+  const v = value.trim();
+  if (ISO_WITH_OFFSET.test(v)) {
+    const d = new Date(v);
+    return Number.isNaN(d.getTime()) ? null : d;
+  }
+  const local = v.match(LOCAL_ISO);
+  if (local) {
+    const [, y, m, d, h, min] = local.map(Number);
+    if (!isRealDate({ y, m, d }) || h > 23 || min > 59) return null;
+    return zonedTime({ y, m, d }, h || (local[4] ? 0 : DEFAULT_DUE_HOUR), min || 0, timezone);
+  }
+  return parseTaskText(v, timezone, now).due_at;
+}
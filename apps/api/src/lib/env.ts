@@ -8,7 +8,34 @@ export const env = {
   REDIS_URL: process.env.REDIS_URL ?? 'redis://localhost:6379',
   TELEGRAM_BOT_TOKEN: process.env.TELEGRAM_BOT_TOKEN ?? '',
   TELEGRAM_WEBHOOK_SECRET: process.env.TELEGRAM_WEBHOOK_SECRET ?? '',
+  // Without the leading @; used to build t.me deep links
+  TELEGRAM_BOT_USERNAME: (process.env.TELEGRAM_BOT_USERNAME ?? '').replace(/^@/, ''),
+  // Override to point the bot at a local Bot API server or mock
+  TELEGRAM_API_ROOT: process.env.TELEGRAM_API_ROOT ?? 'https://api.telegram.org',
   ADMIN_TG_IDS: (process.env.ADMIN_TG_IDS ?? '').split(',').map(s => s.trim()).filter(Boolean),
+  // openai | fake (deterministic offline answers, see lib/llm/fake.ts)
+  LLM_PROVIDER: process.env.LLM_PROVIDER ?? 'openai',
   OPENAI_API_KEY: process.env.OPENAI_API_KEY ?? '',
-  OPENAI_MODEL: process.env.OPENAI_MODEL ?? 'gpt-4o-mini'
+  // Point at any OpenAI-compatible server (vLLM, Ollama…) to use a self-hosted model
+  OPENAI_BASE_URL: process.env.OPENAI_BASE_URL ?? 'https://api.openai.com/v1',
+  OPENAI_MODEL: process.env.OPENAI_MODEL ?? 'gpt-4o-mini',
+  // Extra models a focus owner may switch to, comma-separated
+  LLM_MODELS: (process.env.LLM_MODELS ?? '').split(',').map(s => s.trim()).filter(Boolean),
+  // Knowledge base vectors: none (full-text search only) | openai (any OpenAI-compatible /embeddings,
+  // including a local server) | hash (offline deterministic vectors, see lib/llm/embeddings.ts)
+  EMBEDDINGS_PROVIDER: process.env.EMBEDDINGS_PROVIDER ?? 'none',
+  // Defaults to OPENAI_BASE_URL
+  EMBEDDINGS_BASE_URL: process.env.EMBEDDINGS_BASE_URL ?? '',
+  EMBEDDINGS_MODEL: process.env.EMBEDDINGS_MODEL ?? 'text-embedding-3-small',
+  // USD per 1M tokens, "model=input/output" comma-separated; overrides the built-in table in lib/usage.ts
+  LLM_PRICES: process.env.LLM_PRICES ?? '',
+  // AI tokens (prompt + completion) per user per UTC day / calendar month; 0 = unlimited
+  AI_QUOTA_TRIAL_DAILY: Number(process.env.AI_QUOTA_TRIAL_DAILY ?? 50_000),
+  AI_QUOTA_TRIAL_MONTHLY: Number(process.env.AI_QUOTA_TRIAL_MONTHLY ?? 300_000),
+  AI_QUOTA_PAID_DAILY: Number(process.env.AI_QUOTA_PAID_DAILY ?? 200_000),
+  AI_QUOTA_PAID_MONTHLY: Number(process.env.AI_QUOTA_PAID_MONTHLY ?? 3_000_000),
+  // Price of 30 days of access in Telegram Stars
+  STARS_PRICE: Number(process.env.STARS_PRICE ?? 250),
+  // true = the invoice starts a Stars subscription that Telegram renews every 30 days
+  STARS_RECURRING: (process.env.STARS_RECURRING ?? 'true') === 'true'
 };
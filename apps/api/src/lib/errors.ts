@@ -15,7 +15,9 @@ export type ErrorCode =
   | 'conflict'
   | 'gone'
   | 'trial_expired'
+  | 'quota_exceeded'
   | 'owner_only'
+  | 'insufficient_role'
   | 'not_assignee'
   | 'internal_error'
   | 'ai_error';
@@ -44,6 +46,9 @@ export const Errors = {
   ownerOnly: () =>
     new AppError('owner_only', 403, 'Only the project owner can do this'),
 
+  insufficientRole: () =>
+    new AppError('insufficient_role', 403, 'Your role in this project does not allow this'),
+
   notAssignee: () =>
     new AppError('not_assignee', 403, 'Only the task assignee can do this'),
 
@@ -59,6 +64,9 @@ export const Errors = {
   trialExpired: () =>
     new AppError('trial_expired', 402, 'Trial period has expired. Please upgrade.'),
 
+  quotaExceeded: (details: { period: 'day' | 'month'; limit: number; used: number; resets_at: string }) =>
+    new AppError('quota_exceeded', 429, `AI ${details.period === 'day' ? 'daily' : 'monthly'} token limit reached`, details),
+
   validation: (msg: string, details?: unknown) =>
     new AppError('validation_error', 422, msg, details),
 
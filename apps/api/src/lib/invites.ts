@@ -0,0 +1,54 @@
+import type { FocusInvite } from '@prisma/client';
+import { env } from './env.js';
+import { prisma } from './db.js';
+import { logEvent } from './events.js';
+import { Errors } from './errors.js';
+
+// Mini App deep link; Telegram passes the code to the web app as start_param
+export function inviteLink(code: string): string | null {
+  if (!env.TELEGRAM_BOT_USERNAME) return null;
+  return `https://t.me/${env.TELEGRAM_BOT_USERNAME}?startapp=${code}`;
+}
+
+// Chat deep link; the bot receives the code as /start <code>
+export function botInviteLink(code: string): string | null {
+  if (!env.TELEGRAM_BOT_USERNAME) return null;
+  return `https://t.me/${env.TELEGRAM_BOT_USERNAME}?start=${code}`;
+}
+
+export function withLink(invite: FocusInvite) {
+  return { ...invite, link: inviteLink(invite.code), bot_link: botInviteLink(invite.code) };
+}
+
+export function isInviteUsable(invite: FocusInvite) {
+  if (invite.revoked_at) return false;
+  if (invite.expires_at && invite.expires_at.getTime() < Date.now()) return false;
+  if (invite.max_uses && invite.uses_count >= invite.max_uses) return false;
+  return true;
+}
+
+/**
+ * Join a focus by invite code. Re-joining as an existing member is a no-op
+ * and does not consume a use.
+ */
+export async function joinByInvite(code: string, userId: string) {
+  const invite = await prisma.focusInvite.findUnique({ where: { code } });
+  if (!invite) throw Errors.notFound('Invite');
+
+  const existing = await prisma.focusMember.findUnique({
+    where: { focus_id_user_id: { focus_id: invite.focus_id, user_id: userId } }
+  });
+  if (existing) return { focus_id: invite.focus_id, joined: false };
+
+  if (invite.revoked_at) throw Errors.gone('Invite has been revoked');
+  if (invite.expires_at && invite.expires_at.getTime() < Date.now()) throw Errors.gone('Invite has expired');
+  if (invite.max_uses && invite.uses_count >= invite.max_uses) throw Errors.conflict('Invite has reached its usage limit');
+
+  await prisma.$transaction([
+    prisma.focusMember.create({ data: { focus_id: invite.focus_id, user_id: userId, role: invite.role } }),
+    prisma.focusInvite.update({ where: { id: invite.id }, data: { uses_count: { increment: 1 } } })
+  ]);
+  await logEvent({ event_name: 'join_focus', user_id: userId, focus_id: invite.focus_id, props: { invite_id: invite.id, role: invite.role } });
+
+  return { focus_id: invite.focus_id, joined: true };
+}
@@ -0,0 +1,226 @@
+/**
+ * ===================================================
+ * KNOWLEDGE BASE
+ * ===================================================
+ * Documents of a focus are split into overlapping chunks. Retrieval always
+ * uses Postgres full-text search (KnowledgeChunk.tsv); when an embeddings
+ * backend is configured, a vector ranking is fused in with reciprocal rank
+ * fusion. The best chunks go into the assistant's prompt as [D1], [D2]…
+ * so the reply can cite them. Embedding calls are metered like chat ones,
+ * against the user who added the document or asked the question.
+ */
+
+import type { FastifyBaseLogger } from 'fastify';
+import { prisma } from './db.js';
+import { cosine, embedder, estimateTokens, type Embedder } from './llm/index.js';
+import { assertAiQuota, recordEmbeddingUsage, type UsageContext } from './usage.js';
+
+export const DOC_MAX_LENGTH = 200_000;
+const CHUNK_SIZE = 1000;
+const CHUNK_OVERLAP = 150;
+const SEARCH_LIMIT = 6;
+const KNOWLEDGE_TOKEN_BUDGET = 1500;
+// Vector scan is in-process; cap it so a huge base does not stall a reply
+const VECTOR_SCAN_LIMIT = 2000;
+const RRF_K = 60;
+
+const TEXT_MIMES = ['application/json', 'application/xml', 'application/x-yaml', 'application/csv'];
+const TEXT_EXTENSIONS = /\.(txt|md|markdown|csv|tsv|json|ya?ml|xml|html?|log)$/i;
+
+/** Only plain-text formats are indexed; binary documents would need a converter. */
+export function isTextFile(mime: string | null | undefined, fileName: string | null | undefined) {
+  const type = (mime ?? '').split(';')[0].trim().toLowerCase();
+  return type.startsWith('text/') || TEXT_MIMES.includes(type) || TEXT_EXTENSIONS.test(fileName ?? '');
+}
+
+/** Splits on paragraph or sentence boundaries where possible, with some overlap. */
+export function chunkText(text: string) {
+  const clean = text.replace(/\r\n?/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+  const chunks: string[] = [];
+  let start = 0;
+  while (start < clean.length) {
+    let end = Math.min(start + CHUNK_SIZE, clean.length);
+    if (end < clean.length) {
+      const window = clean.slice(start, end);
+      const cut = Math.max(window.lastIndexOf('\n\n'), window.lastIndexOf('. '), window.lastIndexOf('\n'));
+      if (cut > CHUNK_SIZE / 2) end = start + cut + 1;
+    }
+    const chunk = clean.slice(start, end).trim();
+    if (chunk) chunks.push(chunk);
+    if (end >= clean.length) break;
+    start = Math.max(end - CHUNK_OVERLAP, start + 1);
+  }
+  return chunks;
+}
+
+/**
+ * Checked before indexing or searching on a user's behalf: with an embeddings
+ * backend both spend tokens, so a user over the AI quota is refused like in the chat.
+ */
+export async function assertEmbeddingQuota(userId: string, focusId: string) {
+  if (embedder()) await assertAiQuota(userId, focusId);
+}
+
+async function embedMetered(emb: Embedder, texts: string[], usage: UsageContext) {
+  const { vectors, prompt_tokens } = await emb.embed(texts);
+  await recordEmbeddingUsage(usage, emb.model, texts, prompt_tokens);
+  return vectors;
+}
+
+/**
+ * Rebuilds the chunks of a document. Embedding failures are logged and the
+ * document stays searchable by full text.
+ */
+export async function indexDocument(
+  doc: { id: string; focus_id: string; title: string; content: string },
+  userId: string,
+  log?: FastifyBaseLogger
+) {
+  // The title is part of the first chunk so a document can be found by its name
+  const chunks = chunkText(`${doc.title}\n\n${doc.content}`);
+  let vectors: number[][] | null = null;
+  const emb = embedder();
+  if (emb && chunks.length) {
+    try {
+      vectors = await embedMetered(emb, chunks, { user_id: userId, focus_id: doc.focus_id });
+    } catch (err) {
+      log?.warn({ err, doc_id: doc.id }, 'knowledge embeddings failed, document is indexed for full-text search only');
+    }
+  }
+  await prisma.$transaction([
+    prisma.knowledgeChunk.deleteMany({ where: { doc_id: doc.id } }),
+    prisma.knowledgeChunk.createMany({
+      data: chunks.map((content, position) => ({
+        doc_id: doc.id,
+        focus_id: doc.focus_id,
+        position,
+        content,
+        embedding: vectors?.[position] ?? [],
+        embedding_model: vectors ? emb!.model : null
+      }))
+    })
+  ]);
+  return chunks.length;
+}
+
+export type KnowledgeHit = {
+  chunk_id: string;
+  doc_id: string;
+  title: string;
+  content: string;
+  score: number;
+};
+
+/** Words of the query OR'ed together: a question rarely shares every word with the answer. */
+function tsQuery(query: string) {
+  const words = query.toLowerCase().match(/[\p{L}\p{N}]{2,}/gu) ?? [];
+  return [...new Set(words)].slice(0, 32).join(' | ');
+}
+
+async function fullTextRanking(focusId: string, query: string, limit: number) {
+  const q = tsQuery(query);
+  if (!q) return [];
+  const rows = await prisma.$queryRaw<{ id: string }[]>`
+    SELECT "id" FROM "KnowledgeChunk"
+    WHERE "focus_id" = ${focusId} AND "tsv" @@ to_tsquery('russian', ${q})
+    ORDER BY ts_rank_cd("tsv", to_tsquery('russian', ${q})) DESC
+    LIMIT ${limit}`;
+  return rows.map(r => r.id);
+}
+
+async function vectorRanking(focusId: string, query: string, limit: number, opts: SearchOptions) {
+  const emb = embedder();
+  if (!emb) return [];
+  try {
+    // Past the cap the most recently edited documents are the ones compared; full-text search still sees all
+    const chunks = await prisma.knowledgeChunk.findMany({
+      where: { focus_id: focusId, embedding_model: emb.model },
+      select: { id: true, embedding: true },
+      orderBy: [{ doc: { updated_at: 'desc' } }, { doc_id: 'asc' }, { position: 'asc' }],
+      take: VECTOR_SCAN_LIMIT
+    });
+    if (chunks.length === VECTOR_SCAN_LIMIT) {
+      opts.log?.warn({ focus_id: focusId, limit: VECTOR_SCAN_LIMIT }, 'knowledge vector scan truncated, older documents are searched by full text only');
+    }
+    // Nothing to compare with: don't pay for embedding the query
+    if (!chunks.length) return [];
+    const [vector] = await embedMetered(emb, [query], { user_id: opts.user_id ?? null, focus_id: focusId });
+    return chunks
+      .map(c => ({ id: c.id, score: cosine(vector, c.embedding) }))
+      .filter(c => c.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(c => c.id);
+  } catch (err) {
+    opts.log?.warn({ err }, 'knowledge vector search failed, using full-text results only');
+    return [];
+  }
+}
+
+type SearchOptions = {
+  limit?: number;
+  /** Who the query embedding is billed to */
+  user_id?: string | null;
+  log?: FastifyBaseLogger;
+};
+
+export async function searchKnowledge(focusId: string, query: string, opts: SearchOptions = {}): Promise<KnowledgeHit[]> {
+  const limit = opts.limit ?? SEARCH_LIMIT;
+  const rankings = await Promise.all([
+    fullTextRanking(focusId, query, limit * 2),
+    vectorRanking(focusId, query, limit * 2, opts)
+  ]);
+
+  const scores = new Map<string, number>();
+  for (const ranking of rankings) {
+    ranking.forEach((id, rank) => scores.set(id, (scores.get(id) ?? 0) + 1 / (RRF_K + rank + 1)));
+  }
+  const ids = [...scores.entries()].sort((a, b) => b[1] - a[1]).slice(0, limit).map(([id]) => id);
+  if (!ids.length) return [];
+
+  const chunks = await prisma.knowledgeChunk.findMany({
+    where: { id: { in: ids } },
+    select: { id: true, doc_id: true, content: true, doc: { select: { title: true } } }
+  });
+  const byId = new Map(chunks.map(c => [c.id, c]));
+  return ids.flatMap((id) => {
+    const c = byId.get(id);
+    return c ? [{ chunk_id: c.id, doc_id: c.doc_id, title: c.doc.title, content: c.content, score: scores.get(id)! }] : [];
+  });
+}
+
+export type KnowledgeSourceRef = { label: string; doc_id: string; title: string };
+
+/**
+ * Found chunks as prompt text. Chunks of one document share a label, so the
+ * model cites documents rather than fragments.
+ */
+export function knowledgePreamble(hits: KnowledgeHit[]) {
+  const sources: KnowledgeSourceRef[] = [];
+  const blocks: string[] = [];
+  let used = 0;
+  for (const hit of hits) {
+    const block = hit.content;
+    const tokens = estimateTokens(block);
+    if (used + tokens > KNOWLEDGE_TOKEN_BUDGET) break;
+    used += tokens;
+    let source = sources.find(s => s.doc_id === hit.doc_id);
+    if (!source) {
+      source = { label: `D${sources.length + 1}`, doc_id: hit.doc_id, title: hit.title };
+      sources.push(source);
+    }
+    blocks.push(`[${source.label}] «${source.title}»\n${block}`);
+  }
+  if (!blocks.length) return { text: '', sources };
+  const text = 'Фрагменты из базы знаний проекта. Если используешь их в ответе, '
+    + 'укажи метку документа в тексте (например, [D1]) и перечисли метки в поле sources.\n\n'
+    + blocks.join('\n\n');
+  return { text, sources };
+}
+
+/** Sources the reply actually used: listed in `sources` or cited inline as [D1]. */
+export function citedSources(available: KnowledgeSourceRef[], reply: string, listed: string[] = []) {
+  const labels = new Set(listed.map(l => l.replace(/[[\]\s]/g, '').toUpperCase()));
+  for (const m of reply.matchAll(/\[(D\d+)\]/g)) labels.add(m[1]);
+  return available.filter(s => labels.has(s.label));
+}
@@ -0,0 +1,55 @@
+/**
+ * ===================================================
+ * KPI SERVICE
+ * ===================================================
+ * KPI update rules shared by the REST routes and the assistant's tools:
+ * a changed current_value is also appended to the history.
+ */
+
+import { z } from 'zod';
+import { prisma } from './db.js';
+import { isActive } from './subscription.js';
+import { Errors } from './errors.js';
+import { assertCan, loadMember } from './policy.js';
+
+export const createKpiSchema = z.object({
+  name: z.string().min(1),
+  unit: z.string().optional().nullable(),
+  target_value: z.number().optional().nullable(),
+  current_value: z.number().optional().nullable()
+});
+
+export const patchKpiSchema = createKpiSchema.partial();
+
+export type PatchKpiInput = z.infer<typeof patchKpiSchema>;
+
+export const HISTORY_PREVIEW = 30;
+
+export async function loadKpiForManage(kpiId: string, userId: string) {
+  if (!(await isActive(userId))) throw Errors.trialExpired();
+  const kpi = await prisma.kPI.findUnique({ where: { id: kpiId } });
+  if (!kpi) throw Errors.notFound('KPI');
+  const member = await loadMember(kpi.focus_id, userId);
+  assertCan(member, 'kpi.manage');
+  return kpi;
+}
+
+/** Same rules as PATCH /kpis/:id. Returns the KPI before and after, history newest first. */
+export async function updateKpi(userId: string, kpiId: string, body: PatchKpiInput) {
+  const before = await loadKpiForManage(kpiId, userId);
+  const valueChanged = body.current_value != null && body.current_value !== before.current_value;
+  const kpi = await prisma.kPI.update({
+    where: { id: before.id },
+    data: {
+      ...(body.name !== undefined && { name: body.name }),
+      ...(body.unit !== undefined && { unit: body.unit }),
+      ...(body.target_value !== undefined && { target_value: body.target_value }),
+      ...(body.current_value !== undefined && { current_value: body.current_value }),
+      ...(valueChanged && {
+        history: { create: { value: body.current_value!, recorded_by_user_id: userId } }
+      })
+    },
+    include: { history: { orderBy: { recorded_at: 'desc' }, take: HISTORY_PREVIEW } }
+  });
+  return { before, kpi, valueChanged };
+}
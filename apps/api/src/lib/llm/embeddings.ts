@@ -0,0 +1,107 @@
+import { env } from '../env.js';
+import { Errors } from '../errors.js';
+
+/**
+ * Optional vector backend for knowledge-base retrieval, picked by EMBEDDINGS_PROVIDER:
+ *   none   — no vectors, retrieval uses full-text search only
+ *   openai — /embeddings of OpenAI or any compatible server (Ollama, LM Studio, TEI…)
+ *   hash   — hashed bag-of-words vectors: no network, deterministic, for tests and local runs
+ */
+export interface Embedder {
+  /** Stored with every vector; vectors of different models are never compared */
+  readonly model: string;
+  /** Vectors in the order of `texts`; prompt_tokens is null when the backend reports no usage */
+  embed(texts: string[]): Promise<{ vectors: number[][]; prompt_tokens: number | null }>;
+}
+
+const HASH_DIMS = 256;
+const BATCH = 64;
+
+function normalize(v: number[]) {
+  const norm = Math.sqrt(v.reduce((n, x) => n + x * x, 0));
+  return norm ? v.map(x => x / norm) : v;
+}
+
+// FNV-1a, good enough to spread words over the buckets
+function hash(word: string) {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < word.length; i++) {
+    h ^= word.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+function hashEmbedder(): Embedder {
+  return {
+    model: `hash-${HASH_DIMS}`,
+    async embed(texts) {
+      const vectors = texts.map((text) => {
+        const v = new Array<number>(HASH_DIMS).fill(0);
+        for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+          // A 5-letter prefix stands in for stemming, so "цены" and "цена" meet
+          const h = hash(word.slice(0, 5));
+          v[h % HASH_DIMS] += h & 0x80000000 ? -1 : 1;
+        }
+        return normalize(v);
+      });
+      return { vectors, prompt_tokens: null };
+    }
+  };
+}
+
+function openAiEmbedder(opts: { apiKey: string; baseUrl: string; model: string }): Embedder {
+  const baseUrl = opts.baseUrl.replace(/\/+$/, '');
+  return {
+    model: opts.model,
+    async embed(texts) {
+      const out: number[][] = [];
+      let promptTokens: number | null = 0;
+      for (let i = 0; i < texts.length; i += BATCH) {
+        const res = await fetch(`${baseUrl}/embeddings`, {
+          method: 'POST',
+          headers: {
+            ...(opts.apiKey && { Authorization: `Bearer ${opts.apiKey}` }),
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({ model: opts.model, input: texts.slice(i, i + BATCH) })
+        });
+        const data: any = await res.json().catch(() => ({}));
+        if (!res.ok || !Array.isArray(data?.data)) {
+          throw Errors.aiError(data?.error?.message ?? `Ошибка эмбеддингов: HTTP ${res.status}`);
+        }
+        const sorted = [...data.data].sort((a: any, b: any) => a.index - b.index);
+        out.push(...sorted.map((d: any) => d.embedding as number[]));
+        // Local servers often leave usage out; then the whole call is estimated
+        const tokens = data.usage?.prompt_tokens;
+        promptTokens = typeof tokens === 'number' && promptTokens !== null ? promptTokens + tokens : null;
+      }
+      return { vectors: out, prompt_tokens: promptTokens };
+    }
+  };
+}
+
+let instance: Embedder | null | undefined;
+
+export function embedder(): Embedder | null {
+  if (instance !== undefined) return instance;
+  if (env.EMBEDDINGS_PROVIDER === 'hash') instance = hashEmbedder();
+  else if (env.EMBEDDINGS_PROVIDER === 'openai') {
+    instance = openAiEmbedder({
+      apiKey: env.OPENAI_API_KEY,
+      baseUrl: env.EMBEDDINGS_BASE_URL || env.OPENAI_BASE_URL,
+      model: env.EMBEDDINGS_MODEL
+    });
+  } else instance = null;
+  return instance;
+}
+
+export function cosine(a: number[], b: number[]) {
+  let dot = 0, na = 0, nb = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    na += a[i] * a[i];
+    nb += b[i] * b[i];
+  }
+  return na && nb ? dot / Math.sqrt(na * nb) : 0;
+}
@@ -0,0 +1,74 @@
+import { estimateTokens } from './tokens.js';
+import type { CompletionRequest, CompletionResult, LlmProvider, ToolCall } from './types.js';
+
+/**
+ * Deterministic offline backend (LLM_PROVIDER=fake) for local runs and integration tests.
+ * Answers in the assistant's JSON format, echoing the last user message, unless a test
+ * has queued exact responses with queueFakeResponse: a string is returned as content,
+ * `{ tool_calls }` makes the model call tools (arguments as objects).
+ */
+
+const CHUNK = 8; // characters per streamed delta
+
+export type FakeResponse = string | { tool_calls: { name: string; arguments: Record<string, unknown> }[] };
+
+const scripted: FakeResponse[] = [];
+let callSeq = 0;
+
+export function queueFakeResponse(...responses: FakeResponse[]) {
+  scripted.push(...responses);
+}
+
+// Between tests, so a test that failed early can't leave answers for the next one
+export function clearFakeResponses() {
+  scripted.length = 0;
+}
+
+function answer(req: CompletionRequest): CompletionResult {
+  const lastUser = [...req.messages].reverse().find(m => m.role === 'user')?.content.trim() ?? '';
+  const reply = `Тестовый ответ на: «${lastUser}»`;
+  const prompt = req.messages.reduce((n, m) => n + estimateTokens(m.content), 0);
+  const next = scripted.shift();
+  if (typeof next === 'object') {
+    const tool_calls: ToolCall[] = next.tool_calls.map(c => ({
+      id: `call_${++callSeq}`, name: c.name, arguments: JSON.stringify(c.arguments)
+    }));
+    const completion = tool_calls.reduce((n, c) => n + estimateTokens(c.arguments), 0);
+    return { content: '', tool_calls, model: req.model, usage: { prompt_tokens: prompt, completion_tokens: completion } };
+  }
+  const content = next ?? (req.json
+    ? JSON.stringify({
+        reply,
+        tasks: lastUser ? [{ title: `Разобрать: ${lastUser.slice(0, 60)}`, priority: 'medium', due_at: null }] : [],
+        followup_questions: []
+      })
+    : reply);
+  return { content, tool_calls: [], model: req.model, usage: { prompt_tokens: prompt, completion_tokens: estimateTokens(content) } };
+}
+
+function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) throw new DOMException('The operation was aborted', 'AbortError');
+}
+
+export function fakeProvider(): LlmProvider {
+  return {
+    name: 'fake',
+    configured: true,
+
+    async complete(req) {
+      throwIfAborted(req.signal);
+      return answer(req);
+    },
+
+    async stream(req, onDelta) {
+      const result = answer(req);
+      for (let i = 0; i < result.content.length; i += CHUNK) {
+        // Yield between chunks so aborts and SSE writes interleave like with a real backend
+        await new Promise(resolve => setImmediate(resolve));
+        throwIfAborted(req.signal);
+        onDelta(result.content.slice(i, i + CHUNK));
+      }
+      return result;
+    }
+  };
+}
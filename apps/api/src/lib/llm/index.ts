@@ -0,0 +1,38 @@
+/**
+ * ===================================================
+ * LLM PROVIDERS
+ * ===================================================
+ * One chat completion interface (plain, JSON mode, streaming) over
+ * interchangeable backends, picked by LLM_PROVIDER:
+ *   openai — api.openai.com, or an OpenAI-compatible server via OPENAI_BASE_URL
+ *   fake   — deterministic offline answers for local runs and tests
+ */
+
+import { env } from '../env.js';
+import { fakeProvider } from './fake.js';
+import { openAiProvider } from './openai.js';
+import type { LlmProvider } from './types.js';
+
+export type { ChatMsg, CompletionRequest, CompletionResult, LlmProvider, TokenUsage, ToolCall, ToolSpec } from './types.js';
+export { clearFakeResponses, queueFakeResponse, type FakeResponse } from './fake.js';
+export { estimateTokens } from './tokens.js';
+export { cosine, embedder, type Embedder } from './embeddings.js';
+
+let provider: LlmProvider | null = null;
+
+export function llm(): LlmProvider {
+  provider ??= env.LLM_PROVIDER === 'fake'
+    ? fakeProvider()
+    : openAiProvider({ apiKey: env.OPENAI_API_KEY, baseUrl: env.OPENAI_BASE_URL });
+  return provider;
+}
+
+/** Models a focus may pick; the first one (OPENAI_MODEL) is the default. */
+export function availableModels(): string[] {
+  return [...new Set([env.OPENAI_MODEL, ...env.LLM_MODELS])];
+}
+
+// A focus keeps its model only while it is still on the allowed list
+export function resolveModel(focusModel: string | null | undefined): string {
+  return focusModel && availableModels().includes(focusModel) ? focusModel : env.OPENAI_MODEL;
+}
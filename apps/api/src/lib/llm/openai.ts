@@ -0,0 +1,117 @@
+import { Errors } from '../errors.js';
+import type { ChatMsg, CompletionRequest, CompletionResult, LlmProvider, TokenUsage, ToolCall } from './types.js';
+
+/**
+ * OpenAI Chat Completions, or any server that speaks the same API
+ * (vLLM, Ollama, LM Studio…) when baseUrl points at it.
+ */
+export function openAiProvider(opts: { apiKey: string; baseUrl: string }): LlmProvider {
+  const baseUrl = opts.baseUrl.replace(/\/+$/, '');
+  const custom = baseUrl !== 'https://api.openai.com/v1';
+
+  // Our flat tool calls ↔ the nested "function" objects of the wire format
+  function wireMessage(m: ChatMsg) {
+    if (m.role !== 'assistant' || !m.tool_calls?.length) return m;
+    return {
+      role: m.role,
+      content: m.content || null,
+      tool_calls: m.tool_calls.map(c => ({ id: c.id, type: 'function', function: { name: c.name, arguments: c.arguments } }))
+    };
+  }
+
+  function toolCalls(raw: any): ToolCall[] {
+    if (!Array.isArray(raw)) return [];
+    return raw.map((c: any) => ({ id: c.id ?? '', name: c.function?.name ?? '', arguments: c.function?.arguments ?? '' }));
+  }
+
+  function request(req: CompletionRequest, stream: boolean) {
+    return fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        ...(opts.apiKey && { Authorization: `Bearer ${opts.apiKey}` }),
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        model: req.model,
+        temperature: req.temperature ?? 0.4,
+        messages: req.messages.map(wireMessage),
+        ...(req.json && { response_format: { type: 'json_object' } }),
+        ...(req.tools?.length && {
+          tools: req.tools.map(t => ({ type: 'function', function: t }))
+        }),
+        ...(stream && { stream: true, stream_options: { include_usage: true } })
+      }),
+      signal: req.signal
+    });
+  }
+
+  async function failed(res: Response) {
+    const data: any = await res.json().catch(() => ({}));
+    return Errors.aiError(data?.error?.message ?? `Ошибка OpenAI: HTTP ${res.status}`);
+  }
+
+  function usage(raw: any): TokenUsage | null {
+    if (!raw) return null;
+    return { prompt_tokens: raw.prompt_tokens ?? 0, completion_tokens: raw.completion_tokens ?? 0 };
+  }
+
+  return {
+    name: custom ? 'openai-compatible' : 'openai',
+    // Self-hosted servers usually run without a key
+    configured: !!opts.apiKey || custom,
+
+    async complete(req) {
+      const res = await request(req, false);
+      if (!res.ok) throw await failed(res);
+      const data: any = await res.json().catch(() => ({}));
+      const message = data?.choices?.[0]?.message;
+      return {
+        content: message?.content ?? '',
+        tool_calls: toolCalls(message?.tool_calls),
+        model: data?.model ?? req.model,
+        usage: usage(data?.usage)
+      };
+    },
+
+    async stream(req, onDelta) {
+      const res = await request(req, true);
+      if (!res.ok || !res.body) throw await failed(res);
+
+      const result: CompletionResult = { content: '', tool_calls: [], model: req.model, usage: null };
+      // Tool calls arrive in pieces keyed by index: id and name first, then argument fragments
+      const calls: any[] = [];
+      const decoder = new TextDecoder();
+      let buffer = '';
+      for await (const chunk of res.body as unknown as AsyncIterable<Uint8Array>) {
+        buffer += decoder.decode(chunk, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        for (const line of lines) {
+          if (!line.startsWith('data:')) continue;
+          const payload = line.slice(5).trim();
+          if (!payload || payload === '[DONE]') continue;
+          let data: any;
+          try {
+            data = JSON.parse(payload);
+          } catch {
+            continue;
+          }
+          if (data.model) result.model = data.model;
+          if (data.usage) result.usage = usage(data.usage);
+          for (const part of data.choices?.[0]?.delta?.tool_calls ?? []) {
+            const call = (calls[part.index ?? 0] ??= { id: '', function: { name: '', arguments: '' } });
+            if (part.id) call.id = part.id;
+            if (part.function?.name) call.function.name += part.function.name;
+            if (part.function?.arguments) call.function.arguments += part.function.arguments;
+          }
+          const delta: string = data.choices?.[0]?.delta?.content ?? '';
+          if (!delta) continue;
+          result.content += delta;
+          onDelta(delta);
+        }
+      }
+      result.tool_calls = toolCalls(calls.filter(Boolean));
+      return result;
+    }
+  };
+}
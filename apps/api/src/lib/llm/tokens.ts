@@ -0,0 +1,7 @@
+/**
+ * Rough token count for budgeting prompts without a tokenizer:
+ * about 4 characters per token. Cyrillic text usually takes more, so keep budgets conservative.
+ */
+export function estimateTokens(text: string) {
+  return Math.ceil(text.length / 4);
+}
@@ -0,0 +1,43 @@
+/** A function call requested by the model; arguments is the raw JSON string */
+export type ToolCall = { id: string; name: string; arguments: string };
+
+export type ChatMsg =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string; tool_calls?: ToolCall[] }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+/** A function the model may call; parameters is a JSON Schema object */
+export type ToolSpec = { name: string; description: string; parameters: Record<string, unknown> };
+
+export type CompletionRequest = {
+  model: string;
+  messages: ChatMsg[];
+  temperature?: number;
+  /** Ask the backend for a single JSON object (OpenAI `response_format: json_object`) */
+  json?: boolean;
+  tools?: ToolSpec[];
+  signal?: AbortSignal;
+};
+
+export type TokenUsage = { prompt_tokens: number; completion_tokens: number };
+
+export type CompletionResult = {
+  content: string;
+  /** Non-empty when the model wants tool results before answering */
+  tool_calls: ToolCall[];
+  model: string;
+  usage: TokenUsage | null;
+};
+
+/**
+ * A chat completion backend. Implementations throw AppError('ai_error') on
+ * upstream failures and let AbortError through untouched.
+ */
+export interface LlmProvider {
+  readonly name: string;
+  /** false = no credentials; callers answer with a "not connected" hint instead of calling */
+  readonly configured: boolean;
+  complete(req: CompletionRequest): Promise<CompletionResult>;
+  /** Same as complete, with content deltas handed to onDelta as they arrive */
+  stream(req: CompletionRequest, onDelta: (text: string) => void): Promise<CompletionResult>;
+}
@@ -0,0 +1,134 @@
+/**
+ * ===================================================
+ * PAYMENTS (TELEGRAM STARS)
+ * ===================================================
+ * The Mini App (POST /me/subscription/invoice) and the bot (/subscribe)
+ * hand out the same invoice link. Telegram then sends the bot a
+ * pre_checkout_query, answered by checkPreCheckout, and a message with
+ * successful_payment, applied by applyPayment: the subscription becomes
+ * `paid` until the end of the period. With STARS_RECURRING Telegram
+ * charges again every 30 days and each renewal arrives the same way.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from './db.js';
+import { env } from './env.js';
+import { Errors } from './errors.js';
+import { logEvent } from './events.js';
+import { createStarsInvoiceLink } from './telegram.js';
+
+// Telegram Stars subscriptions only support this period
+export const PAID_PERIOD_DAYS = 30;
+const PERIOD_SECONDS = PAID_PERIOD_DAYS * 24 * 60 * 60;
+const PAYLOAD_PREFIX = 'sub';
+
+export function subscriptionInvoicePayload(userId: string) {
+  return `${PAYLOAD_PREFIX}:${userId}`;
+}
+
+function payloadUserId(payload: string) {
+  const [prefix, userId] = payload.split(':');
+  return prefix === PAYLOAD_PREFIX && userId ? userId : null;
+}
+
+export async function createSubscriptionInvoice(userId: string) {
+  if (!env.TELEGRAM_BOT_TOKEN) throw Errors.internal('Payments are not configured');
+  return createStarsInvoiceLink({
+    title: 'miniMaks Pro',
+    description: `Доступ к проектам и ИИ-ассистенту на ${PAID_PERIOD_DAYS} дней`,
+    payload: subscriptionInvoicePayload(userId),
+    amount: env.STARS_PRICE,
+    ...(env.STARS_RECURRING && { subscription_period: PERIOD_SECONDS })
+  });
+}
+
+export type PreCheckout = { from_tg_id: number; currency: string; total_amount: number; invoice_payload: string };
+
+/** null when the payment may go ahead, otherwise the reason Telegram shows the user. */
+export async function checkPreCheckout(q: PreCheckout): Promise<string | null> {
+  const userId = payloadUserId(q.invoice_payload);
+  const user = userId ? await prisma.user.findUnique({ where: { id: userId } }) : null;
+  if (!user || user.tg_id !== BigInt(q.from_tg_id)) return 'Этот счёт выставлен другому пользователю.';
+  if (q.currency !== 'XTR' || q.total_amount !== env.STARS_PRICE) return 'Цена изменилась — открой оплату заново.';
+  return null;
+}
+
+export type SuccessfulPayment = {
+  from_tg_id: number;
+  currency: string;
+  total_amount: number;
+  invoice_payload: string;
+  telegram_payment_charge_id: string;
+  /** Unix time; set for Stars subscriptions, first charge and renewals alike */
+  subscription_expiration_date?: number;
+  is_recurring?: boolean;
+  is_first_recurring?: boolean;
+};
+
+/**
+ * Extends the subscription by the paid period. A payment that was already
+ * applied (Telegram redelivers updates, possibly twice at once) changes nothing.
+ */
+export async function applyPayment(p: SuccessfulPayment) {
+  const userId = payloadUserId(p.invoice_payload);
+  const user = userId ? await prisma.user.findUnique({ where: { id: userId } }) : null;
+  if (!user || user.tg_id !== BigInt(p.from_tg_id)) throw Errors.notFound('User');
+
+  const result = await applyToSubscription(user.id, p).catch(async (e) => {
+    if (!(e instanceof Prisma.PrismaClientKnownRequestError) || e.code !== 'P2002') throw e;
+    // Another delivery of the same charge committed first
+    const payment = await prisma.payment.findUnique({ where: { telegram_payment_charge_id: p.telegram_payment_charge_id } });
+    if (!payment) throw e;
+    const subscription = await prisma.subscription.findUniqueOrThrow({ where: { user_id: user.id } });
+    return { subscription, payment, duplicate: true };
+  });
+
+  if (!result.duplicate) {
+    await logEvent({
+      event_name: p.is_recurring && !p.is_first_recurring ? 'subscription_renewed' : 'payment_succeeded',
+      user_id: user.id,
+      props: { amount: p.total_amount, currency: p.currency, paid_until: result.subscription.paid_until, recurring: !!p.is_recurring }
+    });
+  }
+  return result;
+}
+
+async function applyToSubscription(userId: string, p: SuccessfulPayment) {
+  return prisma.$transaction(async (tx) => {
+    const now = new Date();
+    // Two different payments at once must both extend the period, not overwrite each other.
+    // The row to lock has to exist first: a user who never started a trial has none, and two
+    // first payments would both try to create it. ON CONFLICT DO NOTHING waits for the other one.
+    await tx.subscription.createMany({
+      data: [{ user_id: userId, trial_started_at: now, trial_expires_at: now, status: 'trial_expired' }],
+      skipDuplicates: true
+    });
+    await tx.$queryRaw`SELECT user_id FROM "Subscription" WHERE user_id = ${userId} FOR UPDATE`;
+    const existing = await tx.payment.findUnique({ where: { telegram_payment_charge_id: p.telegram_payment_charge_id } });
+    const current = await tx.subscription.findUniqueOrThrow({ where: { user_id: userId } });
+    if (existing) return { subscription: current, payment: existing, duplicate: true };
+
+    // Paying before the end of the period adds to it rather than replacing it
+    const start = current.status === 'paid' && current.paid_until && current.paid_until > now ? current.paid_until : now;
+    // Telegram's date for a subscription counts from today and would drop the days left
+    const telegramEnd = p.subscription_expiration_date ? p.subscription_expiration_date * 1000 : 0;
+    const end = new Date(Math.max(telegramEnd, start.getTime() + PERIOD_SECONDS * 1000));
+    const paid = { status: 'paid' as const, paid_until: end, auto_renew: !!p.subscription_expiration_date };
+
+    const subscription = await tx.subscription.update({ where: { user_id: userId }, data: paid });
+    const payment = await tx.payment.create({
+      data: {
+        user_id: userId,
+        currency: p.currency,
+        amount: p.total_amount,
+        payload: p.invoice_payload,
+        telegram_payment_charge_id: p.telegram_payment_charge_id,
+        is_recurring: !!p.is_recurring,
+        // Always one period long, ending where the subscription now ends
+        period_start: new Date(end.getTime() - PERIOD_SECONDS * 1000),
+        period_end: end
+      }
+    });
+    return { subscription, payment, duplicate: false };
+  });
+}
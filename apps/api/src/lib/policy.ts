@@ -0,0 +1,106 @@
+/**
+ * ===================================================
+ * ACCESS POLICY
+ * ===================================================
+ * Single source of truth for what each FocusRole may do.
+ * Routes ask `assertCan(member, action)` instead of comparing roles.
+ */
+
+import type { FocusMember, FocusRole } from '@prisma/client';
+import { prisma } from './db.js';
+import { isActive } from './subscription.js';
+import { Errors } from './errors.js';
+
+export type Action =
+  | 'focus.update'
+  | 'focus.delete'
+  | 'focus.transfer'
+  | 'member.invite'
+  | 'member.remove'
+  | 'member.set_role'
+  | 'task.create'
+  | 'task.assign'
+  | 'task.edit_any'
+  | 'task.edit_own'
+  | 'task.delete'
+  | 'task.comment'
+  | 'kpi.manage'
+  | 'assistant.chat'
+  | 'assistant.manage'
+  | 'knowledge.manage';
+
+const ADMIN: Action[] = [
+  'focus.update', 'member.invite', 'member.remove', 'member.set_role',
+  'task.create', 'task.assign', 'task.edit_any', 'task.edit_own', 'task.delete', 'task.comment',
+  'kpi.manage', 'assistant.chat', 'assistant.manage', 'knowledge.manage'
+];
+
+const POLICY: Record<FocusRole, ReadonlySet<Action>> = {
+  owner: new Set<Action>([...ADMIN, 'focus.delete', 'focus.transfer']),
+  admin: new Set<Action>(ADMIN),
+  editor: new Set<Action>(['task.create', 'task.assign', 'task.edit_any', 'task.edit_own', 'task.comment', 'assistant.chat', 'knowledge.manage']),
+  member: new Set<Action>(['task.edit_own', 'task.comment', 'assistant.chat']),
+  viewer: new Set<Action>()
+};
+
+// Roles that can be handed out through invites or role changes (ownership moves via transfer only)
+export const ASSIGNABLE_ROLES = ['admin', 'editor', 'member', 'viewer'] as const;
+
+export function can(role: FocusRole, action: Action): boolean {
+  return POLICY[role].has(action);
+}
+
+export function permissionsFor(role: FocusRole): Action[] {
+  return [...POLICY[role]];
+}
+
+export function rolesWith(action: Action): FocusRole[] {
+  return (Object.keys(POLICY) as FocusRole[]).filter(r => can(r, action));
+}
+
+export function assertCan(member: Pick<FocusMember, 'role'>, action: Action) {
+  if (can(member.role, action)) return;
+  if (rolesWith(action).every(r => r === 'owner')) throw Errors.ownerOnly();
+  throw Errors.insufficientRole();
+}
+
+export async function loadMember(focusId: string, userId: string) {
+  const member = await prisma.focusMember.findUnique({
+    where: { focus_id_user_id: { focus_id: focusId, user_id: userId } }
+  });
+  if (!member) throw Errors.forbidden();
+  return member;
+}
+
+// Tasks can only be assigned to members of their focus
+export async function loadAssignee(focusId: string, userId: string) {
+  const member = await prisma.focusMember.findUnique({
+    where: { focus_id_user_id: { focus_id: focusId, user_id: userId } },
+    include: { user: { select: { id: true, first_name: true, username: true } } }
+  });
+  if (!member) throw Errors.validation('Assignee is not a member of this project');
+  return member.user;
+}
+
+export async function loadTask(taskId: string, userId: string) {
+  const task = await prisma.task.findUnique({ where: { id: taskId } });
+  if (!task) throw Errors.notFound('Task');
+  const member = await loadMember(task.focus_id, userId);
+  return { task, member };
+}
+
+// Same rules as PATCH /tasks/:id: editors and up edit any task, members only their own
+export async function loadTaskForEdit(taskId: string, userId: string) {
+  if (!(await isActive(userId))) throw Errors.trialExpired();
+  const { task, member } = await loadTask(taskId, userId);
+  if (!canEditTask(member, task, userId)) {
+    if (can(member.role, 'task.edit_own')) throw Errors.notAssignee();
+    throw Errors.insufficientRole();
+  }
+  return { task, member };
+}
+
+export function canEditTask(member: Pick<FocusMember, 'role'>, task: { assigned_to_user_id: string | null }, userId: string) {
+  if (can(member.role, 'task.edit_any')) return true;
+  return can(member.role, 'task.edit_own') && task.assigned_to_user_id === userId;
+}
@@ -1,22 +1,48 @@
 import { Queue } from 'bullmq';
-import { env } from './env.js';
+import {
+  NOTIFICATION_QUEUE,
+  type EventDigestJob,
+  type NotificationType,
+  type NotifyDedupe,
+  type NotifyJob
+} from '@ba/shared';
+import { prisma } from './db.js';
 import { redis } from './redis.js';
 
-export const notificationQueue = new Queue('notifications', {
+export const notificationQueue = new Queue<NotifyJob | EventDigestJob>(NOTIFICATION_QUEUE, {
   connection: redis,
   defaultJobOptions: { attempts: 5, backoff: { type: 'exponential', delay: 2000 } }
 });
 
-export type NotifyJob = {
-  userTgId: string;
-  type: string;
+export type NotifyInput = {
+  user: { id: string; tg_id: bigint };
+  type: NotificationType;
   text: string;
-  payload?: unknown;
+  parse_mode?: NotifyJob['parse_mode'];
+  payload?: Record<string, unknown>;
+  dedupe?: NotifyDedupe;
+  task_actions?: NotifyJob['task_actions'];
 };
 
-export async function enqueueNotify(job: NotifyJob, opts?: { delayMs?: number; priority?: number }) {
-  await notificationQueue.add('send', job, {
+// Creates the NotificationLog row first so the worker can update exactly this entry
+export async function enqueueNotify(input: NotifyInput, opts?: { delayMs?: number; priority?: number }) {
+  const log = await prisma.notificationLog.create({
+    data: { user_id: input.user.id, type: input.type, payload: (input.payload ?? {}) as any, status: 'queued' }
+  });
+  const job: NotifyJob = {
+    log_id: log.id,
+    user_id: input.user.id,
+    tg_id: input.user.tg_id.toString(),
+    type: input.type,
+    text: input.text,
+    parse_mode: input.parse_mode,
+    dedupe: input.dedupe,
+    task_actions: input.task_actions
+  };
+  await notificationQueue.add(input.type, job, {
+    jobId: log.id,
     delay: opts?.delayMs,
     priority: opts?.priority
   });
+  return log;
 }
@@ -0,0 +1,148 @@
+/**
+ * ===================================================
+ * DEADLINE REMINDERS
+ * ===================================================
+ * Each reminder is a delayed job in the notification queue with its own NotificationLog row.
+ * Offsets come from Task.remind_policy, falling back to the assignee's default_due_offsets.
+ * Any change to a task cancels its pending reminders and schedules them again,
+ * and so does a change to the assignee's timezone or default offsets.
+ */
+
+import type { FastifyBaseLogger } from 'fastify';
+import {
+  DEFAULT_DUE_OFFSETS,
+  DEFAULT_TIMEZONE,
+  isValidTimezone,
+  zDueOffsets,
+  zRemindPolicy
+} from '@ba/shared';
+import { prisma } from './db.js';
+import { enqueueNotify, notificationQueue } from './queue.js';
+
+function offsetLabel(minutes: number) {
+  if (minutes === 0) return 'сейчас';
+  if (minutes % 1440 === 0) return `через ${minutes / 1440} дн.`;
+  if (minutes % 60 === 0) return `через ${minutes / 60} ч.`;
+  return `через ${minutes} мин.`;
+}
+
+export function resolveOffsets(remindPolicy: unknown, defaultOffsets: unknown): number[] {
+  const policy = zRemindPolicy.safeParse(remindPolicy);
+  if (policy.success) return policy.data.offsets;
+  const defaults = zDueOffsets.safeParse(defaultOffsets);
+  return defaults.success ? defaults.data : DEFAULT_DUE_OFFSETS;
+}
+
+/** Cancels reminders that have not been delivered yet. Returns how many were canceled. */
+export async function cancelTaskReminders(taskId: string) {
+  const pending = await prisma.notificationLog.findMany({
+    where: {
+      type: 'deadline_reminder',
+      status: { in: ['queued', 'skipped_quiet_hours'] },
+      payload: { path: ['task_id'], equals: taskId }
+    },
+    select: { id: true }
+  });
+  if (!pending.length) return 0;
+
+  // A job that is already running can't be removed; the worker re-checks the log status before sending
+  await Promise.all(pending.map(p => notificationQueue.remove(p.id).catch(() => 0)));
+  await prisma.notificationLog.updateMany({
+    where: { id: { in: pending.map(p => p.id) } },
+    data: { status: 'canceled' }
+  });
+  return pending.length;
+}
+
+/**
+ * Replaces the task's pending reminders with ones matching its current state.
+ * A deleted or closed task just loses its reminders. Returns how many were scheduled.
+ */
+export async function rescheduleTaskReminders(taskId: string) {
+  await cancelTaskReminders(taskId);
+
+  const task = await prisma.task.findUnique({
+    where: { id: taskId },
+    include: {
+      focus: { select: { title: true } },
+      assigned_to: { include: { reminder_settings: true } }
+    }
+  });
+  if (!task || !task.due_at || !task.assigned_to) return 0;
+  if (task.status === 'done' || task.status === 'canceled') return 0;
+
+  const user = task.assigned_to;
+  const settings = user.reminder_settings;
+  const timezone = settings?.timezone && isValidTimezone(settings.timezone) ? settings.timezone : DEFAULT_TIMEZONE;
+  const dueLabel = task.due_at.toLocaleString('ru-RU', {
+    day: 'numeric', month: 'long', hour: '2-digit', minute: '2-digit', timeZone: timezone
+  });
+
+  const now = Date.now();
+  let scheduled = 0;
+  for (const offset of resolveOffsets(task.remind_policy, settings?.default_due_offsets)) {
+    const fireAt = task.due_at.getTime() - offset * 60_000;
+    if (fireAt <= now) continue;
+    const text = `⏰ *Напоминание о дедлайне* (${offsetLabel(offset)})\n\nЗадача: *${task.title}*\nПроект: ${task.focus.title}\nДедлайн: ${dueLabel}`;
+    await enqueueNotify(
+      {
+        user,
+        type: 'deadline_reminder',
+        text,
+        parse_mode: 'Markdown',
+        payload: { task_id: task.id, due_at: task.due_at.toISOString(), offset_minutes: offset },
+        dedupe: { task_id: task.id, due_version: task.due_version, slot: offset },
+        task_actions: { task_id: task.id }
+      },
+      { delayMs: fireAt - now }
+    );
+    scheduled++;
+  }
+  return scheduled;
+}
+
+// Routes call this after the task is saved: a Redis hiccup must not fail the request itself
+export async function syncTaskReminders(log: FastifyBaseLogger, taskId: string) {
+  try {
+    await rescheduleTaskReminders(taskId);
+  } catch (err) {
+    log.error({ err, task_id: taskId }, 'Failed to schedule task reminders');
+  }
+}
+
+// After PUT /me/reminder-settings: pending reminders still carry the old offsets and timezone
+export async function syncUserReminders(log: FastifyBaseLogger, userId: string) {
+  const tasks = await prisma.task.findMany({
+    where: { assigned_to_user_id: userId, due_at: { gt: new Date() }, status: { notIn: ['done', 'canceled'] } },
+    select: { id: true }
+  });
+  for (const task of tasks) await syncTaskReminders(log, task.id);
+  return tasks.length;
+}
+
+/**
+ * One-off for tasks created while deadline reminders were still sent by the
+ * worker's cron: schedules reminders for every open assigned task with a
+ * deadline ahead that has none queued. Safe to run again.
+ */
+export async function backfillTaskReminders() {
+  const tasks = await prisma.task.findMany({
+    where: { assigned_to_user_id: { not: null }, due_at: { gt: new Date() }, status: { notIn: ['done', 'canceled'] } },
+    select: { id: true }
+  });
+  const queued = await prisma.notificationLog.findMany({
+    where: { type: 'deadline_reminder', status: { in: ['queued', 'skipped_quiet_hours'] } },
+    select: { payload: true }
+  });
+  const covered = new Set(queued.map(l => (l.payload as { task_id?: string }).task_id));
+
+  let tasksScheduled = 0;
+  let reminders = 0;
+  for (const task of tasks) {
+    if (covered.has(task.id)) continue;
+    const n = await rescheduleTaskReminders(task.id);
+    if (n) tasksScheduled++;
+    reminders += n;
+  }
+  return { tasks: tasksScheduled, reminders };
+}
@@ -1,5 +1,9 @@
+import type { Subscription } from '@prisma/client';
 import { prisma } from './db.js';
 
+// A renewing Stars subscription is charged at the end of the period; give the update time to arrive
+const RENEWAL_GRACE_MS = 6 * 60 * 60 * 1000;
+
 export async function getSubscription(userId: string) {
   return prisma.subscription.findUnique({ where: { user_id: userId } });
 }
@@ -19,10 +23,19 @@ export async function ensureTrialStarted(userId: string) {
   });
 }
 
+function paidThrough(sub: Subscription) {
+  if (!sub.paid_until) return Infinity;
+  return sub.paid_until.getTime() + (sub.auto_renew ? RENEWAL_GRACE_MS : 0);
+}
+
 export async function isActive(userId: string): Promise<boolean> {
   const sub = await prisma.subscription.findUnique({ where: { user_id: userId } });
   if (!sub) return true; // allow until trial starts
-  if (sub.status === 'paid') return true;
+  if (sub.status === 'paid') {
+    if (paidThrough(sub) > Date.now()) return true;
+    await prisma.subscription.update({ where: { user_id: userId }, data: { status: 'paid_expired', auto_renew: false } });
+    return false;
+  }
   if (sub.status === 'trial_active') {
     if (sub.trial_expires_at.getTime() > Date.now()) return true;
     await prisma.subscription.update({ where: { user_id: userId }, data: { status: 'trial_expired' } });
@@ -0,0 +1,37 @@
+/**
+ * ===================================================
+ * AI TASK SUGGESTIONS
+ * ===================================================
+ * Tasks the assistant suggests live in AssistantMessage.meta.suggested_tasks.
+ * Accepting them (POST /focuses/:id/assistant/plan_to_tasks with message_id)
+ * creates the tasks with Task.source_message_id and records which suggestion
+ * became which task in meta.accepted_suggestions. The history sent to the
+ * model carries that state, so it does not suggest the same tasks again.
+ */
+
+import type { AssistantMessage } from '@prisma/client';
+import type { AiTask } from './assistant.js';
+
+export type AcceptedSuggestion = { index: number; task_id: string; accepted_by_user_id: string; accepted_at: string };
+
+export type SuggestionMeta = {
+  suggested_tasks?: AiTask[];
+  accepted_suggestions?: AcceptedSuggestion[];
+};
+
+export function acceptedIndexes(meta: unknown) {
+  const accepted = (meta as SuggestionMeta | null)?.accepted_suggestions ?? [];
+  return new Set(accepted.map(a => a.index));
+}
+
+/**
+ * Message text as the model sees it in the history: assistant replies get a
+ * line listing their suggestions and which of them are tasks now.
+ */
+export function historyContent(message: Pick<AssistantMessage, 'role' | 'content' | 'meta'>) {
+  const suggested = (message.meta as SuggestionMeta | null)?.suggested_tasks ?? [];
+  if (message.role !== 'assistant' || !suggested.length) return message.content;
+  const accepted = acceptedIndexes(message.meta);
+  const lines = suggested.map((t, i) => `${i + 1}) ${t.title} — ${accepted.has(i) ? 'добавлена в задачи' : 'не добавлена'}`);
+  return `${message.content}\n\n[Предложенные задачи: ${lines.join('; ')}]`;
+}
@@ -0,0 +1,88 @@
+/**
+ * ===================================================
+ * TASK EVENT NOTIFICATIONS
+ * ===================================================
+ * "Assigned to you", "new comment", "your task is done".
+ * Each event becomes a queued NotificationLog row; one digest job per user and
+ * EVENT_DIGEST_WINDOW_MS collects them, so a burst arrives as a single message.
+ */
+
+import type { FastifyBaseLogger } from 'fastify';
+import {
+  EVENT_DIGEST_JOB,
+  EVENT_DIGEST_WINDOW_MS,
+  eventDigestJobId,
+  parseEnabledTypes,
+  type TaskEventPayload,
+  type TaskEventType
+} from '@ba/shared';
+import { prisma } from './db.js';
+import { notificationQueue } from './queue.js';
+
+export type TaskEvent = {
+  type: TaskEventType;
+  recipient_id: string;
+  task: { id: string; title: string; focus_id: string };
+  actor_id: string;
+  comment?: string;
+};
+
+// Names are looked up once per emitTaskEvents call
+type Lookup = { focusTitles: Map<string, string>; actorNames: Map<string, string> };
+
+async function cached(map: Map<string, string>, key: string, load: () => Promise<string>) {
+  if (!map.has(key)) map.set(key, await load());
+  return map.get(key)!;
+}
+
+async function queueEvent(event: TaskEvent, lookup: Lookup) {
+  // Nobody needs to hear about their own actions
+  if (event.recipient_id === event.actor_id) return;
+
+  const recipient = await prisma.user.findUnique({
+    where: { id: event.recipient_id },
+    include: { reminder_settings: true }
+  });
+  if (!recipient) return;
+  if (!parseEnabledTypes(recipient.reminder_settings?.enabled_types).includes(event.type)) return;
+
+  const payload: TaskEventPayload = {
+    task_id: event.task.id,
+    task_title: event.task.title,
+    focus_title: await cached(lookup.focusTitles, event.task.focus_id, async () => {
+      const focus = await prisma.focus.findUnique({ where: { id: event.task.focus_id }, select: { title: true } });
+      return focus?.title ?? '';
+    }),
+    actor_name: await cached(lookup.actorNames, event.actor_id, async () => {
+      const actor = await prisma.user.findUnique({ where: { id: event.actor_id } });
+      return actor?.first_name || (actor?.username ? `@${actor.username}` : 'Участник');
+    }),
+    ...(event.comment && { comment: event.comment.slice(0, 200) })
+  };
+  await prisma.notificationLog.create({
+    data: { user_id: recipient.id, type: event.type, payload, status: 'queued' }
+  });
+
+  const now = Date.now();
+  await notificationQueue.add(
+    EVENT_DIGEST_JOB,
+    { user_id: recipient.id, tg_id: recipient.tg_id.toString() },
+    {
+      jobId: eventDigestJobId(recipient.id, now),
+      delay: EVENT_DIGEST_WINDOW_MS - (now % EVENT_DIGEST_WINDOW_MS),
+      removeOnComplete: true
+    }
+  );
+}
+
+// Called after the change is saved: a failed notification must not fail the request
+export async function emitTaskEvents(log: FastifyBaseLogger, events: TaskEvent[]) {
+  const lookup: Lookup = { focusTitles: new Map(), actorNames: new Map() };
+  for (const event of events) {
+    try {
+      await queueEvent(event, lookup);
+    } catch (err) {
+      log.error({ err, type: event.type, task_id: event.task.id }, 'Failed to queue task event');
+    }
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * ===================================================
+ * TASK SERVICE
+ * ===================================================
+ * Create / update rules shared by the REST routes and the bot,
+ * so both paths run the same subscription, membership and role checks.
+ */
+
+import type { FastifyBaseLogger } from 'fastify';
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { zRemindPolicy } from '@ba/shared';
+import { prisma } from './db.js';
+import { isActive } from './subscription.js';
+import { Errors } from './errors.js';
+import { assertCan, can, canEditTask, loadAssignee, loadMember, loadTask } from './policy.js';
+import { syncTaskReminders } from './reminders.js';
+import { emitTaskEvents, type TaskEvent } from './taskEvents.js';
+
+export const createTaskSchema = z.object({
+  title: z.string().min(1),
+  description: z.string().optional().nullable(),
+  priority: z.enum(['low','medium','high','urgent']).optional(),
+  status: z.enum(['todo','in_progress','done','canceled']).optional(),
+  due_at: z.string().datetime().optional().nullable(),
+  assigned_to_user_id: z.string().uuid().optional().nullable(),
+  remind_policy: zRemindPolicy.optional().nullable()
+});
+
+export const patchTaskSchema = createTaskSchema.partial();
+
+export type CreateTaskInput = z.infer<typeof createTaskSchema>;
+export type PatchTaskInput = z.infer<typeof patchTaskSchema>;
+
+// Fields that change when or to whom deadline reminders are sent
+const REMINDER_FIELDS = ['title', 'status', 'due_at', 'assigned_to_user_id', 'remind_policy'] as const;
+
+const taskInclude = { subtasks: { orderBy: { position: 'asc' } } } satisfies Prisma.TaskInclude;
+
+export async function createTask(userId: string, focusId: string, body: CreateTaskInput, log: FastifyBaseLogger) {
+  if (!(await isActive(userId))) throw Errors.trialExpired();
+  const member = await loadMember(focusId, userId);
+  assertCan(member, 'task.create');
+  if (body.assigned_to_user_id) {
+    assertCan(member, 'task.assign');
+    await loadAssignee(focusId, body.assigned_to_user_id);
+  }
+  const task = await prisma.task.create({
+    data: {
+      focus_id: focusId,
+      created_by_user_id: userId,
+      title: body.title,
+      description: body.description ?? null,
+      priority: body.priority ?? 'medium',
+      status: body.status ?? 'todo',
+      due_at: body.due_at ? new Date(body.due_at) : null,
+      assigned_to_user_id: body.assigned_to_user_id ?? null,
+      remind_policy: body.remind_policy ?? undefined
+    },
+    include: taskInclude
+  });
+  await syncTaskReminders(log, task.id);
+  if (task.assigned_to_user_id) {
+    await emitTaskEvents(log, [{ type: 'task_assigned', recipient_id: task.assigned_to_user_id, task, actor_id: userId }]);
+  }
+  return task;
+}
+
+/** Same rules as PATCH /tasks/:id. Returns the task before and after the update. */
+export async function updateTask(userId: string, taskId: string, body: PatchTaskInput, log: FastifyBaseLogger) {
+  if (!(await isActive(userId))) throw Errors.trialExpired();
+  const { task, member } = await loadTask(taskId, userId);
+  if (!canEditTask(member, task, userId)) {
+    throw can(member.role, 'task.edit_own') ? Errors.notAssignee() : Errors.insufficientRole();
+  }
+
+  const remindPolicy = body.remind_policy === null ? Prisma.DbNull : body.remind_policy;
+  const dueAt = body.due_at ? new Date(body.due_at) : null;
+  const dueChanged = body.due_at !== undefined && dueAt?.getTime() !== task.due_at?.getTime();
+
+  // Without task.edit_any only limited fields can be updated on your own tasks
+  const fullEdit = can(member.role, 'task.edit_any');
+  if (fullEdit && body.assigned_to_user_id !== undefined) {
+    assertCan(member, 'task.assign');
+    if (body.assigned_to_user_id) await loadAssignee(task.focus_id, body.assigned_to_user_id);
+  }
+
+  const updated = await prisma.task.update({
+    where: { id: taskId },
+    data: {
+      ...(fullEdit && body.title !== undefined && { title: body.title }),
+      ...(fullEdit && body.priority !== undefined && { priority: body.priority }),
+      ...(fullEdit && body.assigned_to_user_id !== undefined && { assigned_to_user_id: body.assigned_to_user_id }),
+      ...(body.description !== undefined && { description: body.description }),
+      ...(body.status !== undefined && { status: body.status, completed_at: body.status === 'done' ? new Date() : null }),
+      ...(dueChanged && { due_at: dueAt, due_version: { increment: 1 } }),
+      ...(remindPolicy !== undefined && { remind_policy: remindPolicy })
+    },
+    include: taskInclude
+  });
+
+  if (REMINDER_FIELDS.some(f => body[f] !== undefined)) await syncTaskReminders(log, taskId);
+
+  const events: TaskEvent[] = [];
+  if (updated.assigned_to_user_id && updated.assigned_to_user_id !== task.assigned_to_user_id) {
+    events.push({ type: 'task_assigned', recipient_id: updated.assigned_to_user_id, task: updated, actor_id: userId });
+  }
+  if (updated.status === 'done' && task.status !== 'done') {
+    events.push({ type: 'task_completed', recipient_id: task.created_by_user_id, task: updated, actor_id: userId });
+  }
+  await emitTaskEvents(log, events);
+
+  return { before: task, task: updated };
+}
@@ -0,0 +1,56 @@
+import { env } from './env.js';
+import { Errors } from './errors.js';
+
+export type TelegramFile = {
+  body: Buffer;
+  contentType: string | null;
+};
+
+/**
+ * Resolve a Telegram file_id through the Bot API (getFile) and download it.
+ * The Bot API only serves files up to 20 MB, so buffering is fine here.
+ */
+export async function downloadTelegramFile(fileId: string): Promise<TelegramFile> {
+  const base = env.TELEGRAM_API_ROOT;
+  const res = await fetch(`${base}/bot${env.TELEGRAM_BOT_TOKEN}/getFile?file_id=${encodeURIComponent(fileId)}`);
+  const data: any = await res.json().catch(() => ({}));
+  const filePath = data?.result?.file_path;
+  if (!res.ok || !data?.ok || !filePath) throw Errors.gone('File is no longer available in Telegram');
+
+  const file = await fetch(`${base}/file/bot${env.TELEGRAM_BOT_TOKEN}/${filePath}`);
+  if (!file.ok) throw Errors.gone('File is no longer available in Telegram');
+  return {
+    body: Buffer.from(await file.arrayBuffer()),
+    contentType: file.headers.get('content-type')
+  };
+}
+
+export type StarsInvoice = {
+  title: string;
+  description: string;
+  payload: string;
+  amount: number;
+  /** Seconds; Telegram only accepts 2592000 (30 days) and then renews the charge itself */
+  subscription_period?: number;
+};
+
+/** A t.me/$… link for a Telegram Stars invoice, opened with WebApp.openInvoice or as a plain link. */
+export async function createStarsInvoiceLink(invoice: StarsInvoice): Promise<string> {
+  const res = await fetch(`${env.TELEGRAM_API_ROOT}/bot${env.TELEGRAM_BOT_TOKEN}/createInvoiceLink`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      title: invoice.title,
+      description: invoice.description,
+      payload: invoice.payload,
+      currency: 'XTR',
+      prices: [{ label: invoice.title, amount: invoice.amount }],
+      ...(invoice.subscription_period && { subscription_period: invoice.subscription_period })
+    })
+  });
+  const data: any = await res.json().catch(() => ({}));
+  if (!res.ok || !data?.ok || typeof data.result !== 'string') {
+    throw Errors.internal(`createInvoiceLink failed: ${data?.description ?? `HTTP ${res.status}`}`);
+  }
+  return data.result;
+}
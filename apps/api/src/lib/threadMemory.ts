@@ -0,0 +1,112 @@
+/**
+ * ===================================================
+ * ASSISTANT MEMORY
+ * ===================================================
+ * Only the recent messages of a thread go into the prompt verbatim.
+ * Older ones are folded into AssistantThread.summary in the background,
+ * and the focus's pinned AssistantFacts are always included.
+ * Facts and summary share MEMORY_TOKEN_BUDGET; facts come first.
+ */
+
+import type { FastifyBaseLogger } from 'fastify';
+import type { AssistantThread } from '@prisma/client';
+import { prisma } from './db.js';
+import { summarizeConversation } from './assistant.js';
+import { estimateTokens, llm } from './llm/index.js';
+import { historyContent } from './suggestions.js';
+
+export const HISTORY_WINDOW = 16;
+// Summarize once this many messages have left the window, not on every turn
+const SUMMARY_BATCH = 6;
+const SUMMARY_WORDS = 250;
+const MEMORY_TOKEN_BUDGET = 2000;
+
+export const MAX_FACTS = 20;
+export const FACT_MAX_LENGTH = 300;
+
+/**
+ * Messages the prompt shows verbatim: everything the summary does not cover yet,
+ * at least the last HISTORY_WINDOW. Oldest first.
+ */
+export async function loadHistory(thread: AssistantThread) {
+  const rows = await prisma.assistantMessage.findMany({
+    where: { thread_id: thread.id, ...(thread.summary_until && { created_at: { gt: thread.summary_until } }) },
+    orderBy: { created_at: 'desc' },
+    take: HISTORY_WINDOW + SUMMARY_BATCH
+  });
+  return rows.reverse();
+}
+
+function clipToTokens(text: string, tokens: number) {
+  if (tokens <= 0) return '';
+  const max = tokens * 4;
+  return text.length > max ? text.slice(0, max - 1).trimEnd() + '…' : text;
+}
+
+/** Pinned facts and the thread summary as prompt text; empty when there is neither. */
+export async function memoryPreamble(thread: AssistantThread) {
+  const facts = await prisma.assistantFact.findMany({ where: { focus_id: thread.focus_id }, orderBy: { created_at: 'asc' } });
+  const parts: string[] = [];
+  let used = 0;
+  if (facts.length) {
+    const block = 'Закреплённые факты (учитывай всегда):\n' + facts.map(f => `- ${f.text}`).join('\n');
+    parts.push(block);
+    used += estimateTokens(block);
+  }
+  if (thread.summary) {
+    const summary = clipToTokens(thread.summary, MEMORY_TOKEN_BUDGET - used);
+    if (summary) parts.push(`Краткое содержание более ранней переписки:\n${summary}`);
+  }
+  return parts.join('\n\n');
+}
+
+const refreshing = new Set<string>();
+
+/**
+ * Updates the thread summary after a turn without holding up the response.
+ * The tokens count towards the user whose turn triggered it.
+ */
+export function scheduleSummaryRefresh(threadId: string, model: string, userId: string, log: FastifyBaseLogger) {
+  if (refreshing.has(threadId)) return;
+  refreshing.add(threadId);
+  refreshSummary(threadId, model, userId)
+    .catch(err => log.warn({ err, threadId }, 'Thread summary refresh failed'))
+    .finally(() => refreshing.delete(threadId));
+}
+
+async function refreshSummary(threadId: string, model: string, userId: string) {
+  if (!llm().configured) return;
+  const thread = await prisma.assistantThread.findUnique({ where: { id: threadId } });
+  if (!thread) return;
+
+  const window = await prisma.assistantMessage.findMany({
+    where: { thread_id: threadId },
+    orderBy: { created_at: 'desc' },
+    take: HISTORY_WINDOW,
+    select: { created_at: true }
+  });
+  if (window.length < HISTORY_WINDOW) return;
+  const windowStart = window[window.length - 1].created_at;
+
+  const pending = await prisma.assistantMessage.findMany({
+    where: {
+      thread_id: threadId,
+      created_at: { lt: windowStart, ...(thread.summary_until && { gt: thread.summary_until }) }
+    },
+    orderBy: { created_at: 'asc' }
+  });
+  if (pending.length < SUMMARY_BATCH) return;
+
+  const messages = pending.map(m => ({ role: m.role, content: historyContent(m) }));
+  const summary = await summarizeConversation(thread.summary, messages, {
+    model,
+    maxWords: SUMMARY_WORDS,
+    usage: { user_id: userId, focus_id: thread.focus_id }
+  });
+  if (!summary) return;
+  // Skip the write if another instance got there first
+  await prisma.assistantThread.updateMany({
+    where: { id: threadId, summary_until: thread.summary_until },
+    data: { summary, summary_until: pending[pending.length - 1].created_at }
+  });
+}
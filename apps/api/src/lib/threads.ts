@@ -0,0 +1,43 @@
+/**
+ * ===================================================
+ * ASSISTANT THREADS
+ * ===================================================
+ * A focus has shared threads that every member sees and private ones
+ * that only their creator sees. Messages go to the chosen thread or to
+ * the default one: the most recently active shared thread that is not archived.
+ */
+
+import type { AssistantThread, FocusMember, Prisma } from '@prisma/client';
+import { prisma } from './db.js';
+import { Errors } from './errors.js';
+import { can, loadMember } from './policy.js';
+
+export function visibleThreadsWhere(focusId: string, userId: string): Prisma.AssistantThreadWhereInput {
+  return { focus_id: focusId, OR: [{ is_private: false }, { created_by_user_id: userId }] };
+}
+
+export async function loadThread(threadId: string, userId: string) {
+  const thread = await prisma.assistantThread.findUnique({ where: { id: threadId } });
+  if (!thread) throw Errors.notFound('Thread');
+  const member = await loadMember(thread.focus_id, userId);
+  // Someone else's private thread does not exist for this user
+  if (thread.is_private && thread.created_by_user_id !== userId) throw Errors.notFound('Thread');
+  return { thread, member };
+}
+
+// Creators manage their own threads; admins also manage every shared one
+export function canManageThread(member: Pick<FocusMember, 'role'>, thread: AssistantThread, userId: string) {
+  if (thread.created_by_user_id === userId) return true;
+  return !thread.is_private && can(member.role, 'assistant.manage');
+}
+
+export function findDefaultThread(focusId: string) {
+  return prisma.assistantThread.findFirst({
+    where: { focus_id: focusId, is_private: false, archived_at: null },
+    orderBy: { last_message_at: 'desc' }
+  });
+}
+
+export function touchThread(threadId: string) {
+  return prisma.assistantThread.update({ where: { id: threadId }, data: { last_message_at: new Date() } });
+}
@@ -0,0 +1,144 @@
+/**
+ * ===================================================
+ * AI USAGE METERING
+ * ===================================================
+ * Every model request, embeddings included, is written to AiUsage with the
+ * token counts the backend reported, attributed to the user who caused it
+ * and the focus.
+ * Quotas are per user over all focuses, in tokens (prompt + completion),
+ * per UTC day and calendar month, and depend on the subscription status.
+ */
+
+import { prisma } from './db.js';
+import { env } from './env.js';
+import { Errors } from './errors.js';
+import { logEvent } from './events.js';
+import { getSubscription } from './subscription.js';
+import { estimateTokens, type CompletionRequest, type CompletionResult } from './llm/index.js';
+
+export type UsageKind = 'chat' | 'repair' | 'title' | 'summary' | 'embedding';
+export type UsageContext = { user_id: string | null; focus_id: string | null };
+
+// USD per 1M tokens: [input, output]. Model names match by prefix, so dated snapshots are covered
+const DEFAULT_PRICES: Record<string, [number, number]> = {
+  'gpt-4o-mini': [0.15, 0.6],
+  'gpt-4o': [2.5, 10],
+  'gpt-4.1-nano': [0.1, 0.4],
+  'gpt-4.1-mini': [0.4, 1.6],
+  'gpt-4.1': [2, 8],
+  'text-embedding-3-small': [0.02, 0],
+  'text-embedding-3-large': [0.13, 0],
+  'text-embedding-ada-002': [0.1, 0]
+};
+
+function parsePrices(raw: string) {
+  const prices: Record<string, [number, number]> = {};
+  for (const entry of raw.split(',').map(s => s.trim()).filter(Boolean)) {
+    const m = /^(.+)=([\d.]+)\/([\d.]+)$/.exec(entry);
+    if (m) prices[m[1].trim()] = [Number(m[2]), Number(m[3])];
+  }
+  return prices;
+}
+
+const PRICES = { ...DEFAULT_PRICES, ...parsePrices(env.LLM_PRICES) };
+
+/** Unknown models (self-hosted ones) cost nothing. */
+export function costUsd(model: string, promptTokens: number, completionTokens: number) {
+  const key = Object.keys(PRICES)
+    .filter(k => model === k || model.startsWith(`${k}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!key) return 0;
+  const [input, output] = PRICES[key];
+  return (promptTokens * input + completionTokens * output) / 1_000_000;
+}
+
+/**
+ * Writes one request. Without reported usage (the stream was aborted before
+ * the final chunk) the prompt and whatever came back are estimated.
+ */
+export async function recordUsage(ctx: UsageContext, kind: UsageKind, req: CompletionRequest, res: CompletionResult | null) {
+  const estimated = !res?.usage;
+  const prompt_tokens = res?.usage?.prompt_tokens
+    ?? estimateTokens(req.messages.map(m => m.content).join('\n'));
+  const completion_tokens = res?.usage?.completion_tokens ?? (res ? estimateTokens(res.content) : 0);
+  await prisma.aiUsage.create({
+    data: {
+      user_id: ctx.user_id,
+      focus_id: ctx.focus_id,
+      kind,
+      model: req.model,
+      prompt_tokens,
+      completion_tokens,
+      cost_usd: costUsd(req.model, prompt_tokens, completion_tokens),
+      estimated
+    }
+  });
+}
+
+/** Embeddings have input tokens only; without reported usage the texts are estimated. */
+export async function recordEmbeddingUsage(ctx: UsageContext, model: string, texts: string[], promptTokens: number | null) {
+  const prompt_tokens = promptTokens ?? estimateTokens(texts.join('\n'));
+  await prisma.aiUsage.create({
+    data: {
+      user_id: ctx.user_id,
+      focus_id: ctx.focus_id,
+      kind: 'embedding',
+      model,
+      prompt_tokens,
+      completion_tokens: 0,
+      cost_usd: costUsd(model, prompt_tokens, 0),
+      estimated: promptTokens === null
+    }
+  });
+}
+
+export function quotaFor(status: string | null | undefined) {
+  return status === 'paid'
+    ? { daily: env.AI_QUOTA_PAID_DAILY, monthly: env.AI_QUOTA_PAID_MONTHLY }
+    : { daily: env.AI_QUOTA_TRIAL_DAILY, monthly: env.AI_QUOTA_TRIAL_MONTHLY };
+}
+
+function periodStarts(now = new Date()) {
+  const day = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const month = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  return {
+    day,
+    month,
+    nextDay: new Date(day.getTime() + 24 * 60 * 60 * 1000),
+    nextMonth: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1))
+  };
+}
+
+async function tokensSince(userId: string, since: Date) {
+  const agg = await prisma.aiUsage.aggregate({
+    where: { user_id: userId, created_at: { gte: since } },
+    _sum: { prompt_tokens: true, completion_tokens: true }
+  });
+  return (agg._sum.prompt_tokens ?? 0) + (agg._sum.completion_tokens ?? 0);
+}
+
+/** Tokens used today and this month against the user's limits (0 = unlimited). */
+export async function usageFor(userId: string) {
+  const p = periodStarts();
+  const [sub, day, month] = await Promise.all([getSubscription(userId), tokensSince(userId, p.day), tokensSince(userId, p.month)]);
+  const limits = quotaFor(sub?.status);
+  return {
+    day: { used: day, limit: limits.daily, resets_at: p.nextDay.toISOString() },
+    month: { used: month, limit: limits.monthly, resets_at: p.nextMonth.toISOString() }
+  };
+}
+
+/**
+ * Checked before a new assistant turn. The request that crosses the limit is
+ * still answered; the next one is refused.
+ */
+export async function assertAiQuota(userId: string, focusId: string | null) {
+  const usage = await usageFor(userId);
+  for (const period of ['day', 'month'] as const) {
+    const { used, limit, resets_at } = usage[period];
+    if (limit > 0 && used >= limit) {
+      await logEvent({ event_name: 'ai_quota_exceeded', user_id: userId, focus_id: focusId, props: { period, used, limit } });
+      throw Errors.quotaExceeded({ period, limit, used, resets_at });
+    }
+  }
+}
@@ -1,103 +1,348 @@
-import { FastifyInstance } from 'fastify';
+import { FastifyInstance, FastifyReply } from 'fastify';
+import type { OutgoingHttpHeaders } from 'node:http';
+import type { AssistantMessage, AssistantThread, Prisma } from '@prisma/client';
 import { z } from 'zod';
+import { DEFAULT_TIMEZONE, isValidTimezone } from '@ba/shared';
 import { prisma } from '../lib/db.js';
 import { isActive } from '../lib/subscription.js';
 import { logEvent } from '../lib/events.js';
-import { callBusinessAssistant } from '../lib/openai.js';
+import { callBusinessAssistant, streamBusinessAssistant, suggestThreadTitle, type AiResponse, type ChatMsg } from '../lib/assistant.js';
+import { applyToolCall, assistantToolbox, type ToolCallLog } from '../lib/assistantTools.js';
+import { Errors } from '../lib/errors.js';
+import { availableModels, resolveModel } from '../lib/llm/index.js';
+import { assertCan, loadAssignee, loadMember } from '../lib/policy.js';
+import { loadHistory, memoryPreamble, scheduleSummaryRefresh } from '../lib/threadMemory.js';
+import { citedSources, knowledgePreamble, searchKnowledge, type KnowledgeSourceRef } from '../lib/knowledge.js';
+import { assertAiQuota } from '../lib/usage.js';
+import { acceptedIndexes, historyContent, type AcceptedSuggestion } from '../lib/suggestions.js';
+import { findDefaultThread, loadThread, touchThread } from '../lib/threads.js';
+import { syncTaskReminders } from '../lib/reminders.js';
+import { emitTaskEvents } from '../lib/taskEvents.js';
 
 const sendMessageSchema = z.object({
-  content: z.string().min(1)
+  content: z.string().min(1),
+  // Without it the message goes to the default shared thread
+  thread_id: z.string().uuid().optional()
 });
 
 const planToTasksSchema = z.object({
+  // Assistant message the tasks were suggested in; each task then names its suggestion_index
+  message_id: z.string().uuid().optional(),
   tasks: z.array(z.object({
+    suggestion_index: z.number().int().nonnegative().optional(),
     title: z.string().min(1),
     description: z.string().optional().nullable(),
     priority: z.enum(['low','medium','high','urgent']).optional(),
     status: z.enum(['todo','in_progress','done','canceled']).optional(),
-    due_at: z.string().datetime().optional().nullable(),
+    due_at: z.string().datetime({ offset: true }).optional().nullable(),
     assigned_to_user_id: z.string().uuid().optional().nullable(),
     subtasks: z.array(z.object({ title: z.string().min(1) })).optional()
   }))
 });
 
+type Turn = {
+  focusId: string;
+  thread: AssistantThread;
+  model: string;
+  timezone: string;
+  userMessage: AssistantMessage;
+  messages: ChatMsg[];
+  tools: ReturnType<typeof assistantToolbox>;
+  // Knowledge base documents shown to the model as [D1], [D2]…
+  sources: KnowledgeSourceRef[];
+};
+
+// Checks, saves the user's message and builds the model context; replies with an error and returns null if not allowed
+async function startTurn(req: any, reply: FastifyReply): Promise<Turn | null> {
+  const active = await isActive(req.auth.user.id);
+  if (!active) throw Errors.trialExpired();
+
+  const focusId = String(req.params.id);
+  const member = await prisma.focusMember.findUnique({ where: { focus_id_user_id: { focus_id: focusId, user_id: req.auth.user.id } } });
+  if (!member) {
+    reply.code(403).send({ ok: false, error: 'forbidden' });
+    return null;
+  }
+  assertCan(member, 'assistant.chat');
+  await assertAiQuota(req.auth.user.id, focusId);
+
+  const body = sendMessageSchema.parse(req.body);
+  let thread = body.thread_id ? (await loadThread(body.thread_id, req.auth.user.id)).thread : await findDefaultThread(focusId);
+  if (thread && thread.focus_id !== focusId) throw Errors.notFound('Thread');
+  if (thread?.archived_at) throw Errors.conflict('Thread is archived');
+  thread ??= await prisma.assistantThread.create({ data: { focus_id: focusId, created_by_user_id: req.auth.user.id } });
+
+  const userMessage = await prisma.assistantMessage.create({ data: { thread_id: thread.id, role: 'user', content: body.content } });
+  await touchThread(thread.id);
+  await logEvent({ event_name: 'ai_message_sent', user_id: req.auth.user.id, focus_id: focusId });
+
+  // Собираем контекст: проект + закреплённые факты и конспект + база знаний + последние сообщения
+  const focus = await prisma.focus.findUnique({ where: { id: focusId } });
+  const history = (await loadHistory(thread)).map((m) => ({ role: m.role as any, content: historyContent(m) }));
+  const memory = await memoryPreamble(thread);
+  const knowledge = knowledgePreamble(await searchKnowledge(focusId, body.content, { user_id: req.auth.user.id, log: req.log }));
+
+  const contextPreamble = `Контекст проекта (используй только это, не придумывай):\n` +
+    `Название: ${focus?.title ?? ''}\n` +
+    `Описание: ${focus?.description ?? ''}\n` +
+    `Стадия: ${focus?.stage ?? ''}\n` +
+    `Дедлайн проекта: ${focus?.deadline_at ? new Date(focus.deadline_at).toISOString().slice(0, 10) : 'не указан'}\n` +
+    `Роль пользователя: ${member.role}` +
+    (memory ? `\n\n${memory}` : '') +
+    (knowledge.text ? `\n\n${knowledge.text}` : '');
+
+  const timezone = await focusTimezone(focus);
+  return {
+    focusId,
+    thread,
+    model: resolveModel(focus?.ai_model),
+    timezone,
+    userMessage,
+    messages: [{ role: 'user', content: contextPreamble }, ...history],
+    // Tools act as the user who asked
+    tools: assistantToolbox({ userId: req.auth.user.id, focusId, timezone, log: req.log }),
+    sources: knowledge.sources
+  };
+}
+
+// The focus's own timezone, else the owner's reminder timezone
+async function focusTimezone(focus: { timezone: string | null; owner_user_id: string } | null) {
+  if (focus?.timezone && isValidTimezone(focus.timezone)) return focus.timezone;
+  if (!focus) return DEFAULT_TIMEZONE;
+  const settings = await prisma.reminderSettings.findUnique({ where: { user_id: focus.owner_user_id }, select: { timezone: true } });
+  return settings?.timezone && isValidTimezone(settings.timezone) ? settings.timezone : DEFAULT_TIMEZONE;
+}
+
+function callOptions(req: any, turn: Turn, signal?: AbortSignal) {
+  return { model: turn.model, timezone: turn.timezone, user_id: req.auth.user.id, focus_id: turn.focusId, tools: turn.tools, signal };
+}
+
+async function saveReply(req: any, turn: Turn, ai: AiResponse, extraMeta: Record<string, unknown> = {}) {
+  const citations = citedSources(turn.sources, ai.reply, ai.sources);
+  const meta: any = {
+    kind: 'ai_response',
+    suggested_tasks: ai.tasks ?? [],
+    followup_questions: ai.followup_questions ?? [],
+    ...(turn.tools.calls.length > 0 && { tool_calls: turn.tools.calls, acting_user_id: req.auth.user.id }),
+    ...(citations.length > 0 && { citations }),
+    ...extraMeta
+  };
+
+  const msg = await prisma.assistantMessage.create({
+    data: { thread_id: turn.thread.id, role: 'assistant', content: ai.reply, meta }
+  });
+  await touchThread(turn.thread.id);
+  scheduleSummaryRefresh(turn.thread.id, turn.model, req.auth.user.id, req.log);
+
+  await logEvent({
+    event_name: 'ai_message_received',
+    user_id: req.auth.user.id,
+    focus_id: turn.focusId,
+    props: { has_tasks: (ai.tasks?.length ?? 0) > 0, tool_calls: turn.tools.calls.length, citations: citations.length }
+  });
+  return msg;
+}
+
+// Untitled threads are named after their first question; a title set by hand in the meantime wins
+async function nameThread(req: any, turn: Turn) {
+  if (turn.thread.title) return null;
+  const title = await suggestThreadTitle(turn.userMessage.content, turn.model, { user_id: req.auth.user.id, focus_id: turn.focusId });
+  const { count } = await prisma.assistantThread.updateMany({ where: { id: turn.thread.id, title: null }, data: { title } });
+  return count ? prisma.assistantThread.findUnique({ where: { id: turn.thread.id } }) : null;
+}
+
+type ActionMeta = { tool_calls?: ToolCallLog[]; acting_user_id?: string };
+
+// Holds the message row until the transaction ends, so read-modify-write of its meta
+// (confirming actions, accepting suggestions) never works from a stale copy
+async function lockMessage(tx: Prisma.TransactionClient, id: string) {
+  await tx.$queryRaw`SELECT id FROM "AssistantMessage" WHERE id = ${id} FOR UPDATE`;
+  return tx.assistantMessage.findUnique({ where: { id }, include: { thread: { select: { focus_id: true } } } });
+}
+
+function withToolCall(meta: unknown, call: ToolCallLog) {
+  const current = (meta ?? {}) as ActionMeta;
+  return { ...current, tool_calls: current.tool_calls?.map(c => c.id === call.id ? call : c) } as any;
+}
+
+/**
+ * A write the assistant proposed; only the user it acted for may resolve it, and only once.
+ * Moves the pending call to next(call) under the row lock: of two requests racing for
+ * the same call one gets it, the other a conflict.
+ */
+async function claimAction(req: any, next: (call: ToolCallLog) => ToolCallLog) {
+  return prisma.$transaction(async (tx) => {
+    const message = await lockMessage(tx, String(req.params.id));
+    if (!message) throw Errors.notFound('Message');
+    await loadMember(message.thread.focus_id, req.auth.user.id);
+    const meta = (message.meta ?? {}) as ActionMeta;
+    const pending = meta.tool_calls?.find(c => c.id === String(req.params.callId));
+    if (!pending || !pending.summary) throw Errors.notFound('Action');
+    if (meta.acting_user_id !== req.auth.user.id) throw Errors.forbidden('Only the user who asked the assistant can confirm this');
+    if (pending.status !== 'pending') throw Errors.conflict('Action is already resolved');
+
+    const call = next(pending);
+    const updated = await tx.assistantMessage.update({ where: { id: message.id }, data: { meta: withToolCall(message.meta, call) } });
+    return { message: updated, call, focusId: message.thread.focus_id };
+  });
+}
+
+// Writes the outcome of an `applying` call into the message as it is now, not as it was claimed
+async function resolveAction(req: any, focusId: string, resolved: ToolCallLog) {
+  const message = await prisma.$transaction(async (tx) => {
+    const current = await lockMessage(tx, String(req.params.id));
+    return tx.assistantMessage.update({ where: { id: current!.id }, data: { meta: withToolCall(current!.meta, resolved) } });
+  });
+  await logResolved(req, focusId, resolved);
+  return message;
+}
+
+async function logResolved(req: any, focusId: string, resolved: ToolCallLog) {
+  await logEvent({
+    event_name: resolved.status === 'rejected' ? 'ai_tool_rejected' : 'ai_tool_confirmed',
+    user_id: req.auth.user.id,
+    focus_id: focusId,
+    props: { tool: resolved.name, call_id: resolved.id, status: resolved.status, error: resolved.error }
+  });
+}
+
 export async function assistantRoutes(app: FastifyInstance) {
+  // Choices for Focus.ai_model
+  app.get('/assistant/models', async () => {
+    const models = availableModels();
+    return { ok: true, models, default: models[0] };
+  });
+
+  // The default shared thread; other threads are read through GET /assistant/threads/:id
   app.get('/focuses/:id/assistant/thread', async (req: any, reply) => {
     const focusId = String(req.params.id);
     const member = await prisma.focusMember.findUnique({ where: { focus_id_user_id: { focus_id: focusId, user_id: req.auth.user.id } } });
     if (!member) return reply.code(403).send({ ok: false, error: 'forbidden' });
-    const thread = await prisma.assistantThread.findFirst({ where: { focus_id: focusId }, orderBy: { created_at: 'asc' } });
+    const thread = await findDefaultThread(focusId);
     if (!thread) return { ok: true, thread: null, messages: [] };
     const messages = await prisma.assistantMessage.findMany({ where: { thread_id: thread.id }, orderBy: { created_at: 'asc' } });
     return { ok: true, thread, messages };
   });
 
   app.post('/focuses/:id/assistant/message', async (req: any, reply) => {
-    const active = await isActive(req.auth.user.id);
-    if (!active) return reply.code(402).send({ ok: false, error: 'trial_expired' });
-
-    const focusId = String(req.params.id);
-    const member = await prisma.focusMember.findUnique({ where: { focus_id_user_id: { focus_id: focusId, user_id: req.auth.user.id } } });
-    if (!member) return reply.code(403).send({ ok: false, error: 'forbidden' });
-
-    const body = sendMessageSchema.parse(req.body);
-    const thread = await prisma.assistantThread.findFirst({ where: { focus_id: focusId }, orderBy: { created_at: 'asc' } });
-    if (!thread) return reply.code(500).send({ ok: false, error: 'missing_thread' });
+    const turn = await startTurn(req, reply);
+    if (!turn) return;
+    const ai = await callBusinessAssistant(turn.messages, callOptions(req, turn));
+    const msg = await saveReply(req, turn, ai);
+    const thread = (await nameThread(req, turn)) ?? turn.thread;
+    return { ok: true, message: msg, thread };
+  });
 
-    await prisma.assistantMessage.create({ data: { thread_id: thread.id, role: 'user', content: body.content } });
-    await logEvent({ event_name: 'ai_message_sent', user_id: req.auth.user.id, focus_id: focusId });
+  // Same as /message, but the reply text arrives as server-sent events:
+  //   start {user_message, thread} → delta {text}… → done {message} [→ thread {thread}] | error {error, message}
+  // The trailing "thread" event carries the title generated for a new thread
+  app.post('/focuses/:id/assistant/message/stream', async (req: any, reply) => {
+    const turn = await startTurn(req, reply);
+    if (!turn) return;
 
-    // Собираем контекст: проект + последние сообщения
-    const focus = await prisma.focus.findUnique({ where: { id: focusId } });
-    const last = await prisma.assistantMessage.findMany({
-      where: { thread_id: thread.id },
-      orderBy: { created_at: 'desc' },
-      take: 16
+    // From here on Fastify no longer owns the response; CORS headers set by hooks are copied over
+    reply.hijack();
+    const res = reply.raw;
+    res.writeHead(200, {
+      ...(reply.getHeaders() as OutgoingHttpHeaders),
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no'
     });
-
-    const history = last
-      .reverse()
-      .map((m) => ({ role: m.role as any, content: m.content }));
-
-    const contextPreamble = `Контекст проекта (используй только это, не придумывай):\n` +
-      `Название: ${focus?.title ?? ''}\n` +
-      `Описание: ${focus?.description ?? ''}\n` +
-      `Стадия: ${focus?.stage ?? ''}\n` +
-      `Дедлайн проекта: ${focus?.deadline_at ? new Date(focus.deadline_at).toISOString().slice(0, 10) : 'не указан'}\n` +
-      `Роль пользователя: ${member.role}`;
-
-    const ai = await callBusinessAssistant([
-      { role: 'user', content: contextPreamble },
-      ...history
-    ]);
-
-    const meta: any = {
-      kind: 'ai_response',
-      suggested_tasks: ai.tasks ?? [],
-      followup_questions: ai.followup_questions ?? []
+    const send = (event: string, data: unknown) => {
+      if (!res.writableEnded) res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
     };
 
-    const msg = await prisma.assistantMessage.create({
-      data: { thread_id: thread.id, role: 'assistant', content: ai.reply, meta }
-    });
+    // Closing the connection (the client pressed "stop") aborts the model request
+    const abort = new AbortController();
+    res.on('close', () => { if (!res.writableFinished) abort.abort(); });
+    const ping = setInterval(() => { if (!res.writableEnded) res.write(': ping\n\n'); }, 15_000);
+
+    send('start', { user_message: turn.userMessage, thread: turn.thread });
+    let partial = '';
+    try {
+      const ai = await streamBusinessAssistant(turn.messages, (text) => {
+        partial += text;
+        send('delta', { text });
+      }, callOptions(req, turn, abort.signal));
+      const msg = await saveReply(req, turn, ai);
+      send('done', { message: msg });
+      const thread = await nameThread(req, turn);
+      if (thread) send('thread', { thread });
+    } catch (e: any) {
+      if (abort.signal.aborted) {
+        // Keep what the user already saw so the thread reads the same after a reload
+        if (partial) await saveReply(req, turn, { reply: partial }, { canceled: true });
+        await logEvent({ event_name: 'ai_message_canceled', user_id: req.auth.user.id, focus_id: turn.focusId, props: { chars: partial.length } });
+      } else {
+        req.log.error({ err: e }, 'Assistant stream failed');
+        send('error', { error: 'ai_error', message: 'Не удалось получить ответ ассистента.' });
+      }
+    } finally {
+      clearInterval(ping);
+      res.end();
+    }
+  });
 
-    await logEvent({ event_name: 'ai_message_received', user_id: req.auth.user.id, focus_id: focusId, props: { has_tasks: (ai.tasks?.length ?? 0) > 0 } });
+  // Apply a change the assistant proposed; a failure (e.g. the role changed since) is stored on the action
+  app.post('/assistant/messages/:id/actions/:callId/confirm', async (req: any) => {
+    const { call, focusId } = await claimAction(req, (c) => ({ ...c, status: 'applying' }));
+    let resolved: ToolCallLog;
+    try {
+      const timezone = await focusTimezone(await prisma.focus.findUnique({ where: { id: focusId } }));
+      resolved = await applyToolCall({ userId: req.auth.user.id, focusId, timezone, log: req.log }, call);
+    } catch (e) {
+      // Don't leave the call stuck in `applying` after an unexpected error
+      await resolveAction(req, focusId, { ...call, status: 'failed', error: 'internal_error', resolved_at: new Date().toISOString() });
+      throw e;
+    }
+    const message = await resolveAction(req, focusId, resolved);
+    return { ok: true, message, action: resolved };
+  });
 
-    return { ok: true, message: msg };
+  app.post('/assistant/messages/:id/actions/:callId/reject', async (req: any) => {
+    const { message, call, focusId } = await claimAction(req, (c) => ({ ...c, status: 'rejected', resolved_at: new Date().toISOString() }));
+    await logResolved(req, focusId, call);
+    return { ok: true, message, action: call };
   });
 
   app.post('/focuses/:id/assistant/plan_to_tasks', async (req: any, reply) => {
     const active = await isActive(req.auth.user.id);
-    if (!active) return reply.code(402).send({ ok: false, error: 'trial_expired' });
+    if (!active) throw Errors.trialExpired();
 
     const focusId = String(req.params.id);
     const member = await prisma.focusMember.findUnique({ where: { focus_id_user_id: { focus_id: focusId, user_id: req.auth.user.id } } });
     if (!member) return reply.code(403).send({ ok: false, error: 'forbidden' });
-    if (member.role !== 'owner') return reply.code(403).send({ ok: false, error: 'owner_only' });
+    assertCan(member, 'task.create');
 
     const body = planToTasksSchema.parse(req.body);
+    const assignees = new Set(body.tasks.map(t => t.assigned_to_user_id).filter((id): id is string => !!id));
+    if (assignees.size) assertCan(member, 'task.assign');
+    for (const userId of assignees) await loadAssignee(focusId, userId);
+
+    let source: AssistantMessage | null = null;
+    if (body.message_id) {
+      source = await prisma.assistantMessage.findUnique({ where: { id: body.message_id } });
+      if (!source || source.role !== 'assistant') throw Errors.notFound('Message');
+      const { thread } = await loadThread(source.thread_id, req.auth.user.id);
+      if (thread.focus_id !== focusId) throw Errors.notFound('Message');
+      const suggested = ((source.meta ?? {}) as any).suggested_tasks ?? [];
+      const indexes = body.tasks.map(t => t.suggestion_index);
+      if (indexes.some(i => i === undefined || i >= suggested.length)) throw Errors.validation('Every task needs a suggestion_index of the message');
+      if (new Set(indexes).size !== indexes.length) throw Errors.validation('Duplicate suggestion_index');
+    }
+
+    const { created, message } = await prisma.$transaction(async (tx) => {
+      // Lock and re-read: of two people accepting the same suggestion at once, the second waits
+      // here and then sees it accepted
+      const current = source && await lockMessage(tx, source.id);
+      if (source && !current) throw Errors.notFound('Message');
+      const accepted = acceptedIndexes(current?.meta);
+      if (body.tasks.some(t => t.suggestion_index !== undefined && accepted.has(t.suggestion_index))) {
+        throw Errors.conflict('Suggestion is already accepted');
+      }
 
-    const created = await prisma.$transaction(async (tx) => {
       const tasks = [] as any[];
       for (const t of body.tasks) {
         const task = await tx.task.create({
@@ -109,20 +354,46 @@ export async function assistantRoutes(app: FastifyInstance) {
             priority: t.priority ?? 'medium',
             status: t.status ?? 'todo',
             due_at: t.due_at ? new Date(t.due_at) : null,
-            assigned_to_user_id: t.assigned_to_user_id ?? null
+            assigned_to_user_id: t.assigned_to_user_id ?? null,
+            source_message_id: source?.id ?? null
           }
         });
         if (t.subtasks?.length) {
           await tx.subTask.createMany({
-            data: t.subtasks.map(st => ({ task_id: task.id, title: st.title }))
+            data: t.subtasks.map((st, position) => ({ task_id: task.id, title: st.title, position }))
           });
         }
         tasks.push(task);
       }
-      return tasks;
+
+      if (!current) return { created: tasks, message: null };
+      const now = new Date().toISOString();
+      const meta = (current.meta ?? {}) as { accepted_suggestions?: AcceptedSuggestion[] };
+      const acceptedNow: AcceptedSuggestion[] = body.tasks.map((t, i) => ({
+        index: t.suggestion_index!, task_id: tasks[i].id, accepted_by_user_id: req.auth.user.id, accepted_at: now
+      }));
+      const message = await tx.assistantMessage.update({
+        where: { id: current.id },
+        data: { meta: { ...meta, accepted_suggestions: [...(meta.accepted_suggestions ?? []), ...acceptedNow] } as any }
+      });
+      return { created: tasks, message };
     });
 
-    await logEvent({ event_name: 'bulk_tasks_created', user_id: req.auth.user.id, focus_id: focusId, props: { count: created.length } });
-    return { ok: true, tasks: created };
+    for (const task of created) {
+      if (!task.due_at || !task.assigned_to_user_id) continue;
+      await syncTaskReminders(req.log, task.id);
+    }
+    // One digest per assignee thanks to the event window
+    await emitTaskEvents(req.log, created
+      .filter(t => t.assigned_to_user_id)
+      .map(t => ({ type: 'task_assigned' as const, recipient_id: t.assigned_to_user_id, task: t, actor_id: req.auth.user.id })));
+
+    await logEvent({
+      event_name: 'bulk_tasks_created',
+      user_id: req.auth.user.id,
+      focus_id: focusId,
+      props: { count: created.length, ...(message && { message_id: message.id }) }
+    });
+    return { ok: true, tasks: created, ...(message && { message }) };
   });
 }
@@ -0,0 +1,83 @@
+import { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { prisma } from '../lib/db.js';
+import { logEvent } from '../lib/events.js';
+import { Errors } from '../lib/errors.js';
+import { loadTask, loadTaskForEdit } from '../lib/policy.js';
+import { downloadTelegramFile } from '../lib/telegram.js';
+
+const createAttachmentSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('link'),
+    url: z.string().url(),
+    file_name: z.string().min(1).optional().nullable()
+  }),
+  z.object({
+    type: z.literal('file'),
+    tg_file_id: z.string().min(1),
+    file_name: z.string().min(1).optional().nullable(),
+    mime: z.string().optional().nullable(),
+    size: z.number().int().nonnegative().optional().nullable()
+  })
+]);
+
+async function loadAttachment(taskId: string, attachmentId: string) {
+  const attachment = await prisma.taskAttachment.findUnique({ where: { id: attachmentId } });
+  if (!attachment || attachment.task_id !== taskId) throw Errors.notFound('Attachment');
+  return attachment;
+}
+
+export async function attachmentRoutes(app: FastifyInstance) {
+  // GET /tasks/:id/attachments
+  app.get('/tasks/:id/attachments', async (req: any) => {
+    const { task } = await loadTask(String(req.params.id), req.auth.user.id);
+    const attachments = await prisma.taskAttachment.findMany({
+      where: { task_id: task.id },
+      orderBy: { created_at: 'asc' }
+    });
+    return { ok: true, attachments };
+  });
+
+  // POST /tasks/:id/attachments
+  app.post('/tasks/:id/attachments', async (req: any, reply) => {
+    const { task } = await loadTaskForEdit(String(req.params.id), req.auth.user.id);
+    const body = createAttachmentSchema.parse(req.body);
+    const attachment = await prisma.taskAttachment.create({
+      data: body.type === 'link'
+        ? { task_id: task.id, type: 'link', url: body.url, file_name: body.file_name ?? null }
+        : {
+            task_id: task.id,
+            type: 'file',
+            tg_file_id: body.tg_file_id,
+            file_name: body.file_name ?? null,
+            mime: body.mime ?? null,
+            size: body.size ?? null
+          }
+    });
+    await logEvent({ event_name: 'create_attachment', user_id: req.auth.user.id, focus_id: task.focus_id, props: { task_id: task.id, type: attachment.type } });
+    return reply.code(201).send({ ok: true, attachment });
+  });
+
+  // DELETE /tasks/:id/attachments/:attachmentId
+  app.delete('/tasks/:id/attachments/:attachmentId', async (req: any) => {
+    const { task } = await loadTaskForEdit(String(req.params.id), req.auth.user.id);
+    const attachment = await loadAttachment(task.id, String(req.params.attachmentId));
+    await prisma.taskAttachment.delete({ where: { id: attachment.id } });
+    await logEvent({ event_name: 'delete_attachment', user_id: req.auth.user.id, focus_id: task.focus_id, props: { task_id: task.id, type: attachment.type } });
+    return { ok: true };
+  });
+
+  // GET /tasks/:id/attachments/:attachmentId/download — proxies the file from the Bot API
+  app.get('/tasks/:id/attachments/:attachmentId/download', async (req: any, reply) => {
+    const { task } = await loadTask(String(req.params.id), req.auth.user.id);
+    const attachment = await loadAttachment(task.id, String(req.params.attachmentId));
+    if (attachment.type !== 'file' || !attachment.tg_file_id) throw Errors.validation('Attachment is not a file');
+
+    const file = await downloadTelegramFile(attachment.tg_file_id);
+    const fileName = attachment.file_name ?? 'file';
+    return reply
+      .header('content-type', attachment.mime ?? file.contentType ?? 'application/octet-stream')
+      .header('content-disposition', `attachment; filename*=UTF-8''${encodeURIComponent(fileName)}`)
+      .send(file.body);
+  });
+}
@@ -1,9 +1,12 @@
 import { FastifyInstance } from 'fastify';
+import { isValidTimezone } from '@ba/shared';
 import { z } from 'zod';
 import { prisma } from '../lib/db.js';
 import { ensureTrialStarted, isActive } from '../lib/subscription.js';
 import { logEvent } from '../lib/events.js';
 import { Errors } from '../lib/errors.js';
+import { availableModels } from '../lib/llm/index.js';
+import { assertCan, loadMember, permissionsFor } from '../lib/policy.js';
 
 const createFocusSchema = z.object({
   title: z.string().min(1),
@@ -16,7 +19,10 @@ const createFocusSchema = z.object({
 });
 
 const patchFocusSchema = createFocusSchema.partial().extend({
-  status: z.enum(['active', 'paused', 'archived']).optional()
+  status: z.enum(['active', 'paused', 'archived']).optional(),
+  // null = back to the default model
+  ai_model: z.string().refine(m => availableModels().includes(m), 'Model is not available').optional().nullable(),
+  timezone: z.string().refine(isValidTimezone, 'Unknown timezone').optional().nullable()
 });
 
 export async function focusRoutes(app: FastifyInstance) {
@@ -29,7 +35,7 @@ export async function focusRoutes(app: FastifyInstance) {
       },
       orderBy: { focus: { updated_at: 'desc' } }
     });
-    return { ok: true, focuses: memberships.map(m => ({ ...m.focus, role: m.role })) };
+    return { ok: true, focuses: memberships.map(m => ({ ...m.focus, role: m.role, permissions: permissionsFor(m.role) })) };
   });
 
   app.post('/focuses', async (req: any, reply) => {
@@ -53,15 +59,12 @@ export async function focusRoutes(app: FastifyInstance) {
       include: { _count: { select: { tasks: true, members: true } } }
     });
     await logEvent({ event_name: 'create_focus', user_id: req.auth.user.id, focus_id: focus.id });
-    return reply.code(201).send({ ok: true, focus });
+    return reply.code(201).send({ ok: true, focus: { ...focus, role: 'owner', permissions: permissionsFor('owner') } });
   });
 
   app.get('/focuses/:id', async (req: any) => {
     const focusId = String(req.params.id);
-    const member = await prisma.focusMember.findUnique({
-      where: { focus_id_user_id: { focus_id: focusId, user_id: req.auth.user.id } }
-    });
-    if (!member) throw Errors.forbidden();
+    const member = await loadMember(focusId, req.auth.user.id);
     const focus = await prisma.focus.findUnique({
       where: { id: focusId },
       include: {
@@ -71,18 +74,15 @@ export async function focusRoutes(app: FastifyInstance) {
       }
     });
     if (!focus) throw Errors.notFound('Focus');
-    return { ok: true, focus, role: member.role };
+    return { ok: true, focus, role: member.role, permissions: permissionsFor(member.role) };
   });
 
   app.patch('/focuses/:id', async (req: any) => {
     const active = await isActive(req.auth.user.id);
     if (!active) throw Errors.trialExpired();
     const focusId = String(req.params.id);
-    const member = await prisma.focusMember.findUnique({
-      where: { focus_id_user_id: { focus_id: focusId, user_id: req.auth.user.id } }
-    });
-    if (!member) throw Errors.forbidden();
-    if (member.role !== 'owner') throw Errors.ownerOnly();
+    const member = await loadMember(focusId, req.auth.user.id);
+    assertCan(member, 'focus.update');
     const body = patchFocusSchema.parse(req.body);
     const focus = await prisma.focus.update({
       where: { id: focusId },
@@ -94,7 +94,9 @@ export async function focusRoutes(app: FastifyInstance) {
         ...(body.success_metric !== undefined && { success_metric: body.success_metric }),
         ...(body.budget !== undefined && { budget: body.budget }),
         ...(body.niche !== undefined && { niche: body.niche }),
-        ...(body.status !== undefined && { status: body.status })
+        ...(body.status !== undefined && { status: body.status }),
+        ...(body.ai_model !== undefined && { ai_model: body.ai_model }),
+        ...(body.timezone !== undefined && { timezone: body.timezone })
       }
     });
     await logEvent({ event_name: 'update_focus', user_id: req.auth.user.id, focus_id: focus.id });
@@ -103,11 +105,8 @@ export async function focusRoutes(app: FastifyInstance) {
 
   app.delete('/focuses/:id', async (req: any) => {
     const focusId = String(req.params.id);
-    const member = await prisma.focusMember.findUnique({
-      where: { focus_id_user_id: { focus_id: focusId, user_id: req.auth.user.id } }
-    });
-    if (!member) throw Errors.forbidden();
-    if (member.role !== 'owner') throw Errors.ownerOnly();
+    const member = await loadMember(focusId, req.auth.user.id);
+    assertCan(member, 'focus.delete');
     await prisma.focus.delete({ where: { id: focusId } });
     await logEvent({ event_name: 'delete_focus', user_id: req.auth.user.id, focus_id: focusId });
     return { ok: true };
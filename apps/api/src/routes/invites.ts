@@ -3,24 +3,66 @@ import { z } from 'zod';
 import { prisma } from '../lib/db.js';
 import crypto from 'node:crypto';
 import { isActive } from '../lib/subscription.js';
+import { logEvent } from '../lib/events.js';
+import { Errors } from '../lib/errors.js';
+import { ASSIGNABLE_ROLES, assertCan, loadMember } from '../lib/policy.js';
+import { isInviteUsable, joinByInvite, withLink } from '../lib/invites.js';
+import { syncTaskReminders } from '../lib/reminders.js';
 
 const createInviteSchema = z.object({
   expires_at: z.string().datetime().optional().nullable(),
-  max_uses: z.number().int().positive().optional().nullable()
+  max_uses: z.number().int().positive().optional().nullable(),
+  role: z.enum(ASSIGNABLE_ROLES).optional()
+});
+
+const setRoleSchema = z.object({
+  role: z.enum(ASSIGNABLE_ROLES)
+});
+
+const removeMemberSchema = z.object({
+  reassign_to_user_id: z.string().uuid().optional().nullable()
+});
+
+const transferOwnershipSchema = z.object({
+  user_id: z.string().uuid()
 });
 
 function makeCode() {
   return crypto.randomBytes(4).toString('hex');
 }
 
+/**
+ * Drop a member and hand their open tasks in this focus to someone else
+ * (the owner unless another member is given). Returns the reassigned task ids.
+ */
+async function removeMember(focusId: string, userId: string, reassignTo: string) {
+  return prisma.$transaction(async (tx) => {
+    const open = await tx.task.findMany({
+      where: { focus_id: focusId, assigned_to_user_id: userId, status: { notIn: ['done', 'canceled'] } },
+      select: { id: true }
+    });
+    const ids = open.map(t => t.id);
+    await tx.task.updateMany({ where: { id: { in: ids } }, data: { assigned_to_user_id: reassignTo } });
+    await tx.focusMember.delete({ where: { focus_id_user_id: { focus_id: focusId, user_id: userId } } });
+    return ids;
+  });
+}
+
+async function resolveReassignee(focusId: string, ownerId: string, requested?: string | null) {
+  if (!requested) return ownerId;
+  const target = await prisma.focusMember.findUnique({ where: { focus_id_user_id: { focus_id: focusId, user_id: requested } } });
+  if (!target) throw Errors.validation('reassign_to_user_id is not a member of this focus');
+  return requested;
+}
+
 export async function inviteRoutes(app: FastifyInstance) {
   app.post('/focuses/:id/invites', async (req: any, reply) => {
     const active = await isActive(req.auth.user.id);
-    if (!active) return reply.code(402).send({ ok: false, error: 'trial_expired' });
+    if (!active) throw Errors.trialExpired();
 
     const focusId = String(req.params.id);
-    const member = await prisma.focusMember.findUnique({ where: { focus_id_user_id: { focus_id: focusId, user_id: req.auth.user.id } } });
-    if (!member || member.role !== 'owner') return reply.code(403).send({ ok: false, error: 'owner_only' });
+    const member = await loadMember(focusId, req.auth.user.id);
+    assertCan(member, 'member.invite');
 
     const body = createInviteSchema.parse(req.body ?? {});
     const invite = await prisma.focusInvite.create({
@@ -29,29 +71,43 @@ export async function inviteRoutes(app: FastifyInstance) {
         code: makeCode(),
         created_by_user_id: req.auth.user.id,
         expires_at: body.expires_at ? new Date(body.expires_at) : null,
-        max_uses: body.max_uses ?? null
+        max_uses: body.max_uses ?? null,
+        role: body.role ?? 'member'
       }
     });
-    return { ok: true, invite };
+    await logEvent({ event_name: 'create_invite', user_id: req.auth.user.id, focus_id: focusId, props: { invite_id: invite.id, role: invite.role } });
+    return { ok: true, invite: withLink(invite) };
   });
 
-  app.post('/invites/:code/join', async (req: any, reply) => {
-    const code = String(req.params.code);
-    const invite = await prisma.focusInvite.findUnique({ where: { code } });
-    if (!invite) return reply.code(404).send({ ok: false, error: 'not_found' });
-    if (invite.expires_at && invite.expires_at.getTime() < Date.now()) return reply.code(410).send({ ok: false, error: 'expired' });
-    if (invite.max_uses && invite.uses_count >= invite.max_uses) return reply.code(409).send({ ok: false, error: 'max_uses' });
-
-    await prisma.$transaction(async (tx) => {
-      await tx.focusMember.upsert({
-        where: { focus_id_user_id: { focus_id: invite.focus_id, user_id: req.auth.user.id } },
-        create: { focus_id: invite.focus_id, user_id: req.auth.user.id, role: 'member' },
-        update: {}
-      });
-      await tx.focusInvite.update({ where: { id: invite.id }, data: { uses_count: { increment: 1 } } });
+  // GET /focuses/:id/invites — usable invites only (not revoked, expired or used up)
+  app.get('/focuses/:id/invites', async (req: any) => {
+    const focusId = String(req.params.id);
+    const member = await loadMember(focusId, req.auth.user.id);
+    assertCan(member, 'member.invite');
+    const invites = await prisma.focusInvite.findMany({
+      where: { focus_id: focusId, revoked_at: null },
+      orderBy: { created_at: 'desc' }
     });
+    return { ok: true, invites: invites.filter(isInviteUsable).map(withLink) };
+  });
 
-    return { ok: true, focus_id: invite.focus_id };
+  // DELETE /focuses/:id/invites/:inviteId — revoke; the row is kept for uses_count history
+  app.delete('/focuses/:id/invites/:inviteId', async (req: any) => {
+    const focusId = String(req.params.id);
+    const member = await loadMember(focusId, req.auth.user.id);
+    assertCan(member, 'member.invite');
+    const invite = await prisma.focusInvite.findUnique({ where: { id: String(req.params.inviteId) } });
+    if (!invite || invite.focus_id !== focusId) throw Errors.notFound('Invite');
+    if (!invite.revoked_at) {
+      await prisma.focusInvite.update({ where: { id: invite.id }, data: { revoked_at: new Date() } });
+      await logEvent({ event_name: 'revoke_invite', user_id: req.auth.user.id, focus_id: focusId, props: { invite_id: invite.id } });
+    }
+    return { ok: true };
+  });
+
+  app.post('/invites/:code/join', async (req: any) => {
+    const result = await joinByInvite(String(req.params.code), req.auth.user.id);
+    return { ok: true, ...result };
   });
 
   app.get('/focuses/:id/members', async (req: any, reply) => {
@@ -71,4 +127,84 @@ export async function inviteRoutes(app: FastifyInstance) {
       }))
     };
   });
+
+  // PATCH /focuses/:id/members/:userId — change a member's role
+  app.patch('/focuses/:id/members/:userId', async (req: any) => {
+    const focusId = String(req.params.id);
+    const targetId = String(req.params.userId);
+    const member = await loadMember(focusId, req.auth.user.id);
+    assertCan(member, 'member.set_role');
+    const target = await prisma.focusMember.findUnique({ where: { focus_id_user_id: { focus_id: focusId, user_id: targetId } } });
+    if (!target) throw Errors.notFound('Member');
+    if (target.role === 'owner') throw Errors.conflict('Owner role changes only through ownership transfer');
+
+    const body = setRoleSchema.parse(req.body);
+    const updated = await prisma.focusMember.update({
+      where: { focus_id_user_id: { focus_id: focusId, user_id: targetId } },
+      data: { role: body.role }
+    });
+
+    await logEvent({ event_name: 'member_role_changed', user_id: req.auth.user.id, focus_id: focusId, props: { member_user_id: targetId, from: target.role, to: body.role } });
+    return { ok: true, member: { user_id: updated.user_id, role: updated.role } };
+  });
+
+  // DELETE /focuses/:id/members/:userId — owner or admin removes a member
+  app.delete('/focuses/:id/members/:userId', async (req: any) => {
+    const focusId = String(req.params.id);
+    const targetId = String(req.params.userId);
+    const member = await loadMember(focusId, req.auth.user.id);
+    assertCan(member, 'member.remove');
+    if (targetId === req.auth.user.id) throw Errors.conflict('Use /leave to leave the focus');
+    const target = await prisma.focusMember.findUnique({ where: { focus_id_user_id: { focus_id: focusId, user_id: targetId } } });
+    if (!target) throw Errors.notFound('Member');
+    if (target.role === 'owner') throw Errors.conflict('The owner cannot be removed');
+    const focus = await prisma.focus.findUnique({ where: { id: focusId } });
+    if (!focus) throw Errors.notFound('Focus');
+
+    const body = removeMemberSchema.parse(req.body ?? {});
+    const reassignTo = await resolveReassignee(focusId, focus.owner_user_id, body.reassign_to_user_id);
+    if (reassignTo === targetId) throw Errors.validation('Cannot reassign tasks to the member being removed');
+    const reassigned = await removeMember(focusId, targetId, reassignTo);
+    for (const taskId of reassigned) await syncTaskReminders(req.log, taskId);
+
+    await logEvent({ event_name: 'member_removed', user_id: req.auth.user.id, focus_id: focusId, props: { member_user_id: targetId, reassigned_to: reassignTo, reassigned_tasks: reassigned.length } });
+    return { ok: true, reassigned_tasks: reassigned.length };
+  });
+
+  // POST /focuses/:id/leave — a member leaves; their open tasks go back to the owner
+  app.post('/focuses/:id/leave', async (req: any) => {
+    const focusId = String(req.params.id);
+    const member = await loadMember(focusId, req.auth.user.id);
+    if (member.role === 'owner') throw Errors.conflict('Owner cannot leave; transfer ownership first');
+    const focus = await prisma.focus.findUnique({ where: { id: focusId } });
+    if (!focus) throw Errors.notFound('Focus');
+
+    const reassigned = await removeMember(focusId, req.auth.user.id, focus.owner_user_id);
+    for (const taskId of reassigned) await syncTaskReminders(req.log, taskId);
+
+    await logEvent({ event_name: 'member_left', user_id: req.auth.user.id, focus_id: focusId, props: { reassigned_to: focus.owner_user_id, reassigned_tasks: reassigned.length } });
+    return { ok: true, reassigned_tasks: reassigned.length };
+  });
+
+  // POST /focuses/:id/transfer_ownership — owner hands the focus to another member and stays on as admin
+  app.post('/focuses/:id/transfer_ownership', async (req: any) => {
+    const active = await isActive(req.auth.user.id);
+    if (!active) throw Errors.trialExpired();
+    const focusId = String(req.params.id);
+    const member = await loadMember(focusId, req.auth.user.id);
+    assertCan(member, 'focus.transfer');
+    const body = transferOwnershipSchema.parse(req.body);
+    if (body.user_id === req.auth.user.id) throw Errors.validation('You already own this focus');
+    const target = await prisma.focusMember.findUnique({ where: { focus_id_user_id: { focus_id: focusId, user_id: body.user_id } } });
+    if (!target) throw Errors.notFound('Member');
+
+    await prisma.$transaction([
+      prisma.focus.update({ where: { id: focusId }, data: { owner_user_id: body.user_id } }),
+      prisma.focusMember.update({ where: { focus_id_user_id: { focus_id: focusId, user_id: body.user_id } }, data: { role: 'owner' } }),
+      prisma.focusMember.update({ where: { focus_id_user_id: { focus_id: focusId, user_id: req.auth.user.id } }, data: { role: 'admin' } })
+    ]);
+
+    await logEvent({ event_name: 'ownership_transferred', user_id: req.auth.user.id, focus_id: focusId, props: { from_user_id: req.auth.user.id, to_user_id: body.user_id } });
+    return { ok: true };
+  });
 }
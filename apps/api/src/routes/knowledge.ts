@@ -0,0 +1,162 @@
+import { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { prisma } from '../lib/db.js';
+import { logEvent } from '../lib/events.js';
+import { Errors } from '../lib/errors.js';
+import { assertCan, loadMember } from '../lib/policy.js';
+import { isActive } from '../lib/subscription.js';
+import { downloadTelegramFile } from '../lib/telegram.js';
+import { DOC_MAX_LENGTH, assertEmbeddingQuota, indexDocument, isTextFile, searchKnowledge } from '../lib/knowledge.js';
+
+const createDocSchema = z.object({
+  title: z.string().trim().min(1).max(200),
+  content: z.string().trim().min(1).max(DOC_MAX_LENGTH),
+  // note = written in the app, text = pasted, file = read from a local file by the client
+  source: z.enum(['note', 'text', 'file']).default('note'),
+  file_name: z.string().min(1).max(255).optional().nullable(),
+  mime: z.string().max(100).optional().nullable()
+});
+
+const patchDocSchema = z.object({
+  title: z.string().trim().min(1).max(200).optional(),
+  content: z.string().trim().min(1).max(DOC_MAX_LENGTH).optional()
+});
+
+const importSchema = z.object({
+  attachment_id: z.string().uuid(),
+  title: z.string().trim().min(1).max(200).optional()
+});
+
+const docListSelect = {
+  id: true, focus_id: true, title: true, source: true, file_name: true, mime: true,
+  attachment_id: true, created_by_user_id: true, created_at: true, updated_at: true,
+  _count: { select: { chunks: true } }
+} as const;
+
+async function loadDoc(docId: string, userId: string) {
+  const doc = await prisma.knowledgeDoc.findUnique({ where: { id: docId } });
+  if (!doc) throw Errors.notFound('Document');
+  const member = await loadMember(doc.focus_id, userId);
+  return { doc, member };
+}
+
+export async function knowledgeRoutes(app: FastifyInstance) {
+  // GET /focuses/:id/knowledge — without content, newest first
+  app.get('/focuses/:id/knowledge', async (req: any) => {
+    const focusId = String(req.params.id);
+    await loadMember(focusId, req.auth.user.id);
+    const docs = await prisma.knowledgeDoc.findMany({
+      where: { focus_id: focusId },
+      orderBy: { created_at: 'desc' },
+      select: docListSelect
+    });
+    return { ok: true, docs: docs.map(({ _count, ...d }) => ({ ...d, chunks_count: _count.chunks })) };
+  });
+
+  // POST /focuses/:id/knowledge — note, pasted text or a text file read by the client
+  app.post('/focuses/:id/knowledge', async (req: any, reply) => {
+    const active = await isActive(req.auth.user.id);
+    if (!active) throw Errors.trialExpired();
+    const focusId = String(req.params.id);
+    const member = await loadMember(focusId, req.auth.user.id);
+    assertCan(member, 'knowledge.manage');
+    await assertEmbeddingQuota(req.auth.user.id, focusId);
+    const body = createDocSchema.parse(req.body);
+    if (body.source === 'file' && !isTextFile(body.mime, body.file_name)) {
+      throw Errors.validation('Only text files can be added to the knowledge base');
+    }
+
+    const doc = await prisma.knowledgeDoc.create({
+      data: {
+        focus_id: focusId,
+        title: body.title,
+        content: body.content,
+        source: body.source,
+        file_name: body.file_name ?? null,
+        mime: body.mime ?? null,
+        created_by_user_id: req.auth.user.id
+      }
+    });
+    const chunks = await indexDocument(doc, req.auth.user.id, req.log);
+    await logEvent({ event_name: 'create_knowledge_doc', user_id: req.auth.user.id, focus_id: focusId, props: { doc_id: doc.id, source: doc.source, chunks } });
+    return reply.code(201).send({ ok: true, doc: { ...doc, chunks_count: chunks } });
+  });
+
+  // POST /focuses/:id/knowledge/import — a text file attached to one of the focus's tasks
+  app.post('/focuses/:id/knowledge/import', async (req: any, reply) => {
+    const active = await isActive(req.auth.user.id);
+    if (!active) throw Errors.trialExpired();
+    const focusId = String(req.params.id);
+    const member = await loadMember(focusId, req.auth.user.id);
+    assertCan(member, 'knowledge.manage');
+    await assertEmbeddingQuota(req.auth.user.id, focusId);
+    const body = importSchema.parse(req.body);
+
+    const attachment = await prisma.taskAttachment.findUnique({ where: { id: body.attachment_id }, include: { task: true } });
+    if (!attachment || attachment.task.focus_id !== focusId) throw Errors.notFound('Attachment');
+    if (attachment.type !== 'file' || !attachment.tg_file_id) throw Errors.validation('Attachment is not a file');
+    if (!isTextFile(attachment.mime, attachment.file_name)) {
+      throw Errors.validation('Only text files can be added to the knowledge base');
+    }
+
+    const file = await downloadTelegramFile(attachment.tg_file_id);
+    const content = file.body.toString('utf8').replace(/\u0000/g, '').trim();
+    if (!content) throw Errors.validation('File is empty');
+    if (content.length > DOC_MAX_LENGTH) throw Errors.validation(`File is longer than ${DOC_MAX_LENGTH} characters`);
+
+    const doc = await prisma.knowledgeDoc.create({
+      data: {
+        focus_id: focusId,
+        title: body.title ?? attachment.file_name ?? 'Файл',
+        content,
+        source: 'attachment',
+        file_name: attachment.file_name,
+        mime: attachment.mime ?? file.contentType,
+        attachment_id: attachment.id,
+        created_by_user_id: req.auth.user.id
+      }
+    });
+    const chunks = await indexDocument(doc, req.auth.user.id, req.log);
+    await logEvent({ event_name: 'create_knowledge_doc', user_id: req.auth.user.id, focus_id: focusId, props: { doc_id: doc.id, source: doc.source, chunks } });
+    return reply.code(201).send({ ok: true, doc: { ...doc, chunks_count: chunks } });
+  });
+
+  // GET /focuses/:id/knowledge/search?q= — what the assistant would see for this question
+  app.get('/focuses/:id/knowledge/search', async (req: any) => {
+    const focusId = String(req.params.id);
+    await loadMember(focusId, req.auth.user.id);
+    await assertEmbeddingQuota(req.auth.user.id, focusId);
+    const q = z.object({ q: z.string().trim().min(1).max(500) }).parse(req.query ?? {});
+    const hits = await searchKnowledge(focusId, q.q, { user_id: req.auth.user.id, log: req.log });
+    return { ok: true, hits };
+  });
+
+  // GET /knowledge/:id
+  app.get('/knowledge/:id', async (req: any) => {
+    const { doc } = await loadDoc(String(req.params.id), req.auth.user.id);
+    return { ok: true, doc };
+  });
+
+  // PATCH /knowledge/:id — reindexed on every change
+  app.patch('/knowledge/:id', async (req: any) => {
+    const active = await isActive(req.auth.user.id);
+    if (!active) throw Errors.trialExpired();
+    const { doc: current, member } = await loadDoc(String(req.params.id), req.auth.user.id);
+    assertCan(member, 'knowledge.manage');
+    await assertEmbeddingQuota(req.auth.user.id, current.focus_id);
+    const body = patchDocSchema.parse(req.body);
+    const doc = await prisma.knowledgeDoc.update({ where: { id: current.id }, data: body });
+    const chunks = await indexDocument(doc, req.auth.user.id, req.log);
+    await logEvent({ event_name: 'update_knowledge_doc', user_id: req.auth.user.id, focus_id: doc.focus_id, props: { doc_id: doc.id, fields: Object.keys(body), chunks } });
+    return { ok: true, doc: { ...doc, chunks_count: chunks } };
+  });
+
+  // DELETE /knowledge/:id
+  app.delete('/knowledge/:id', async (req: any) => {
+    const { doc, member } = await loadDoc(String(req.params.id), req.auth.user.id);
+    assertCan(member, 'knowledge.manage');
+    await prisma.knowledgeDoc.delete({ where: { id: doc.id } });
+    await logEvent({ event_name: 'delete_knowledge_doc', user_id: req.auth.user.id, focus_id: doc.focus_id, props: { doc_id: doc.id } });
+    return { ok: true };
+  });
+}
@@ -0,0 +1,89 @@
+import { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { prisma } from '../lib/db.js';
+import { isActive } from '../lib/subscription.js';
+import { logEvent } from '../lib/events.js';
+import { Errors } from '../lib/errors.js';
+import { HISTORY_PREVIEW, createKpiSchema, loadKpiForManage, patchKpiSchema, updateKpi } from '../lib/kpis.js';
+import { assertCan, loadMember } from '../lib/policy.js';
+
+export async function kpiRoutes(app: FastifyInstance) {
+  // GET /focuses/:id/kpis — with the latest history points for sparklines
+  app.get('/focuses/:id/kpis', async (req: any) => {
+    const focusId = String(req.params.id);
+    await loadMember(focusId, req.auth.user.id);
+    const kpis = await prisma.kPI.findMany({
+      where: { focus_id: focusId },
+      orderBy: { created_at: 'asc' },
+      include: { history: { orderBy: { recorded_at: 'desc' }, take: HISTORY_PREVIEW } }
+    });
+    return { ok: true, kpis: kpis.map(k => ({ ...k, history: k.history.reverse() })) };
+  });
+
+  // POST /focuses/:id/kpis
+  app.post('/focuses/:id/kpis', async (req: any, reply) => {
+    const active = await isActive(req.auth.user.id);
+    if (!active) throw Errors.trialExpired();
+    const focusId = String(req.params.id);
+    const member = await loadMember(focusId, req.auth.user.id);
+    assertCan(member, 'kpi.manage');
+    const body = createKpiSchema.parse(req.body);
+    const kpi = await prisma.kPI.create({
+      data: {
+        focus_id: focusId,
+        name: body.name,
+        unit: body.unit ?? null,
+        target_value: body.target_value ?? null,
+        current_value: body.current_value ?? null,
+        ...(body.current_value != null && {
+          history: { create: { value: body.current_value, recorded_by_user_id: req.auth.user.id } }
+        })
+      },
+      include: { history: true }
+    });
+    await logEvent({ event_name: 'create_kpi', user_id: req.auth.user.id, focus_id: focusId, props: { kpi_id: kpi.id } });
+    return reply.code(201).send({ ok: true, kpi });
+  });
+
+  // PATCH /kpis/:id — a new current_value is also appended to the history
+  app.patch('/kpis/:id', async (req: any) => {
+    const body = patchKpiSchema.parse(req.body);
+    const { before: current, kpi, valueChanged } = await updateKpi(req.auth.user.id, String(req.params.id), body);
+    await logEvent({
+      event_name: valueChanged ? 'update_kpi_value' : 'update_kpi',
+      user_id: req.auth.user.id,
+      focus_id: kpi.focus_id,
+      props: { kpi_id: kpi.id, ...(valueChanged && { from: current.current_value, to: body.current_value }) }
+    });
+    return { ok: true, kpi: { ...kpi, history: kpi.history.reverse() } };
+  });
+
+  // GET /kpis/:id/history?from=&to=
+  app.get('/kpis/:id/history', async (req: any) => {
+    const kpi = await prisma.kPI.findUnique({ where: { id: String(req.params.id) } });
+    if (!kpi) throw Errors.notFound('KPI');
+    await loadMember(kpi.focus_id, req.auth.user.id);
+    const q = z.object({
+      from: z.string().datetime().optional(),
+      to: z.string().datetime().optional()
+    }).parse(req.query ?? {});
+    const history = await prisma.kPIValue.findMany({
+      where: {
+        kpi_id: kpi.id,
+        ...((q.from || q.to) && {
+          recorded_at: { ...(q.from && { gte: new Date(q.from) }), ...(q.to && { lte: new Date(q.to) }) }
+        })
+      },
+      orderBy: { recorded_at: 'asc' }
+    });
+    return { ok: true, kpi, history };
+  });
+
+  // DELETE /kpis/:id
+  app.delete('/kpis/:id', async (req: any) => {
+    const kpi = await loadKpiForManage(String(req.params.id), req.auth.user.id);
+    await prisma.kPI.delete({ where: { id: kpi.id } });
+    await logEvent({ event_name: 'delete_kpi', user_id: req.auth.user.id, focus_id: kpi.focus_id, props: { kpi_id: kpi.id } });
+    return { ok: true };
+  });
+}
@@ -1,5 +1,48 @@
 import { FastifyInstance } from 'fastify';
-import { getSubscription } from '../lib/subscription.js';
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import {
+  DEFAULT_DUE_OFFSETS,
+  DEFAULT_TIMEZONE,
+  NOTIFICATION_TYPES,
+  isValidTimezone,
+  parseEnabledTypes,
+  parseQuietHours,
+  zDueOffsets,
+  zQuietHours
+} from '@ba/shared';
+import { prisma } from '../lib/db.js';
+import { logEvent } from '../lib/events.js';
+import { env } from '../lib/env.js';
+import { PAID_PERIOD_DAYS, createSubscriptionInvoice } from '../lib/payments.js';
+import { syncUserReminders } from '../lib/reminders.js';
+import { getSubscription, isActive } from '../lib/subscription.js';
+
+const noDueNudgeSchema = z.object({
+  enabled: z.boolean(),
+  after_days: z.number().int().min(1).max(30)
+});
+
+const reminderSettingsSchema = z.object({
+  timezone: z.string().refine(isValidTimezone, 'Unknown IANA timezone').optional(),
+  quiet_hours: zQuietHours.nullable().optional(),
+  no_due_nudge: noDueNudgeSchema.nullable().optional(),
+  default_due_offsets: zDueOffsets.optional(),
+  enabled_types: z.array(z.enum(NOTIFICATION_TYPES)).optional()
+});
+
+// Missing or malformed JSON columns fall back to defaults instead of leaking raw values
+function serializeSettings(row: any) {
+  const nudge = noDueNudgeSchema.safeParse(row?.no_due_nudge);
+  const offsets = zDueOffsets.safeParse(row?.default_due_offsets);
+  return {
+    timezone: row?.timezone && isValidTimezone(row.timezone) ? row.timezone : DEFAULT_TIMEZONE,
+    quiet_hours: parseQuietHours(row?.quiet_hours),
+    no_due_nudge: nudge.success ? nudge.data : null,
+    default_due_offsets: offsets.success ? offsets.data : DEFAULT_DUE_OFFSETS,
+    enabled_types: parseEnabledTypes(row?.enabled_types)
+  };
+}
 
 export async function meRoutes(app: FastifyInstance) {
   app.get('/me', async (req: any) => {
@@ -15,8 +58,45 @@ export async function meRoutes(app: FastifyInstance) {
     };
   });
 
+  // GET /me/subscription — isActive first, so an expired trial or period shows up as such
   app.get('/me/subscription', async (req: any) => {
+    const active = await isActive(req.auth.user.id);
     const sub = await getSubscription(req.auth.user.id);
-    return { ok: true, subscription: sub };
+    return { ok: true, subscription: sub, active, price_stars: env.STARS_PRICE, period_days: PAID_PERIOD_DAYS };
+  });
+
+  // POST /me/subscription/invoice — Stars invoice link for WebApp.openInvoice
+  app.post('/me/subscription/invoice', async (req: any) => {
+    const link = await createSubscriptionInvoice(req.auth.user.id);
+    await logEvent({ event_name: 'invoice_created', user_id: req.auth.user.id, props: { source: 'app', amount: env.STARS_PRICE } });
+    return { ok: true, invoice_link: link, price_stars: env.STARS_PRICE };
+  });
+
+  // GET /me/reminder-settings — defaults are returned until the user saves something
+  app.get('/me/reminder-settings', async (req: any) => {
+    const row = await prisma.reminderSettings.findUnique({ where: { user_id: req.auth.user.id } });
+    return { ok: true, settings: serializeSettings(row) };
+  });
+
+  // PUT /me/reminder-settings — omitted fields keep their current value, null clears a field
+  app.put('/me/reminder-settings', async (req: any) => {
+    const body = reminderSettingsSchema.parse(req.body);
+    const data = {
+      ...(body.timezone !== undefined && { timezone: body.timezone }),
+      ...(body.quiet_hours !== undefined && { quiet_hours: body.quiet_hours ?? Prisma.DbNull }),
+      ...(body.no_due_nudge !== undefined && { no_due_nudge: body.no_due_nudge ?? Prisma.DbNull }),
+      ...(body.default_due_offsets !== undefined && { default_due_offsets: [...new Set(body.default_due_offsets)].sort((a, b) => b - a) }),
+      ...(body.enabled_types !== undefined && { enabled_types: body.enabled_types })
+    };
+    const row = await prisma.reminderSettings.upsert({
+      where: { user_id: req.auth.user.id },
+      create: { user_id: req.auth.user.id, ...data },
+      update: data
+    });
+    if (body.timezone !== undefined || body.default_due_offsets !== undefined) {
+      await syncUserReminders(req.log, req.auth.user.id);
+    }
+    await logEvent({ event_name: 'update_reminder_settings', user_id: req.auth.user.id, props: { fields: Object.keys(data) } });
+    return { ok: true, settings: serializeSettings(row) };
   });
 }
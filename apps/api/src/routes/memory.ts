@@ -0,0 +1,63 @@
+import { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { prisma } from '../lib/db.js';
+import { logEvent } from '../lib/events.js';
+import { Errors } from '../lib/errors.js';
+import { assertCan, can, loadMember } from '../lib/policy.js';
+import { FACT_MAX_LENGTH, MAX_FACTS } from '../lib/threadMemory.js';
+import { loadThread } from '../lib/threads.js';
+
+const createFactSchema = z.object({
+  text: z.string().trim().min(1).max(FACT_MAX_LENGTH),
+  source_message_id: z.string().uuid().optional()
+});
+
+export async function memoryRoutes(app: FastifyInstance) {
+  // GET /focuses/:id/assistant/facts
+  app.get('/focuses/:id/assistant/facts', async (req: any) => {
+    const focusId = String(req.params.id);
+    await loadMember(focusId, req.auth.user.id);
+    const facts = await prisma.assistantFact.findMany({ where: { focus_id: focusId }, orderBy: { created_at: 'asc' } });
+    return { ok: true, facts, max: MAX_FACTS };
+  });
+
+  // POST /focuses/:id/assistant/facts — pinned facts go into every thread's context
+  app.post('/focuses/:id/assistant/facts', async (req: any, reply) => {
+    const focusId = String(req.params.id);
+    const member = await loadMember(focusId, req.auth.user.id);
+    assertCan(member, 'assistant.chat');
+    const body = createFactSchema.parse(req.body);
+
+    if (body.source_message_id) {
+      const source = await prisma.assistantMessage.findUnique({ where: { id: body.source_message_id } });
+      if (!source) throw Errors.notFound('Message');
+      const { thread } = await loadThread(source.thread_id, req.auth.user.id);
+      if (thread.focus_id !== focusId) throw Errors.notFound('Message');
+    }
+    const count = await prisma.assistantFact.count({ where: { focus_id: focusId } });
+    if (count >= MAX_FACTS) throw Errors.conflict(`A project can have at most ${MAX_FACTS} pinned facts`);
+
+    const fact = await prisma.assistantFact.create({
+      data: {
+        focus_id: focusId,
+        text: body.text,
+        created_by_user_id: req.auth.user.id,
+        source_message_id: body.source_message_id ?? null
+      }
+    });
+    await logEvent({ event_name: 'pin_fact', user_id: req.auth.user.id, focus_id: focusId, props: { fact_id: fact.id } });
+    return reply.code(201).send({ ok: true, fact });
+  });
+
+  // DELETE /assistant/facts/:id — by whoever pinned it, or owner / admin
+  app.delete('/assistant/facts/:id', async (req: any) => {
+    const fact = await prisma.assistantFact.findUnique({ where: { id: String(req.params.id) } });
+    if (!fact) throw Errors.notFound('Fact');
+    const member = await loadMember(fact.focus_id, req.auth.user.id);
+    if (fact.created_by_user_id !== req.auth.user.id) assertCan(member, 'assistant.manage');
+    else if (!can(member.role, 'assistant.chat')) throw Errors.insufficientRole();
+    await prisma.assistantFact.delete({ where: { id: fact.id } });
+    await logEvent({ event_name: 'unpin_fact', user_id: req.auth.user.id, focus_id: fact.focus_id, props: { fact_id: fact.id } });
+    return { ok: true };
+  });
+}
@@ -0,0 +1,89 @@
+import { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { prisma } from '../lib/db.js';
+import { logEvent } from '../lib/events.js';
+import { Errors } from '../lib/errors.js';
+import { loadTask, loadTaskForEdit } from '../lib/policy.js';
+
+const createSubtaskSchema = z.object({
+  title: z.string().min(1)
+});
+
+const patchSubtaskSchema = z.object({
+  title: z.string().min(1).optional(),
+  status: z.enum(['todo', 'done']).optional()
+});
+
+const reorderSubtasksSchema = z.object({
+  ids: z.array(z.string().uuid()).min(1)
+});
+
+async function loadSubtask(taskId: string, subtaskId: string) {
+  const subtask = await prisma.subTask.findUnique({ where: { id: subtaskId } });
+  if (!subtask || subtask.task_id !== taskId) throw Errors.notFound('Subtask');
+  return subtask;
+}
+
+export async function subtaskRoutes(app: FastifyInstance) {
+  // GET /tasks/:id/subtasks
+  app.get('/tasks/:id/subtasks', async (req: any) => {
+    const { task } = await loadTask(String(req.params.id), req.auth.user.id);
+    const subtasks = await prisma.subTask.findMany({
+      where: { task_id: task.id },
+      orderBy: [{ position: 'asc' }, { created_at: 'asc' }]
+    });
+    return { ok: true, subtasks };
+  });
+
+  // POST /tasks/:id/subtasks
+  app.post('/tasks/:id/subtasks', async (req: any, reply) => {
+    const { task } = await loadTaskForEdit(String(req.params.id), req.auth.user.id);
+    const body = createSubtaskSchema.parse(req.body);
+    const last = await prisma.subTask.findFirst({ where: { task_id: task.id }, orderBy: { position: 'desc' } });
+    const subtask = await prisma.subTask.create({
+      data: { task_id: task.id, title: body.title, position: (last?.position ?? -1) + 1 }
+    });
+    await logEvent({ event_name: 'create_subtask', user_id: req.auth.user.id, focus_id: task.focus_id, props: { task_id: task.id, subtask_id: subtask.id } });
+    return reply.code(201).send({ ok: true, subtask });
+  });
+
+  // PATCH /tasks/:id/subtasks/:subtaskId
+  app.patch('/tasks/:id/subtasks/:subtaskId', async (req: any) => {
+    const { task } = await loadTaskForEdit(String(req.params.id), req.auth.user.id);
+    const current = await loadSubtask(task.id, String(req.params.subtaskId));
+    const body = patchSubtaskSchema.parse(req.body);
+    const subtask = await prisma.subTask.update({
+      where: { id: current.id },
+      data: {
+        ...(body.title !== undefined && { title: body.title }),
+        ...(body.status !== undefined && { status: body.status })
+      }
+    });
+    await logEvent({ event_name: 'update_subtask', user_id: req.auth.user.id, focus_id: task.focus_id, props: { task_id: task.id, subtask_id: subtask.id } });
+    return { ok: true, subtask };
+  });
+
+  // POST /tasks/:id/subtasks/reorder — body.ids is the full list in the new order
+  app.post('/tasks/:id/subtasks/reorder', async (req: any) => {
+    const { task } = await loadTaskForEdit(String(req.params.id), req.auth.user.id);
+    const body = reorderSubtasksSchema.parse(req.body);
+    const existing = await prisma.subTask.findMany({ where: { task_id: task.id }, select: { id: true } });
+    const known = new Set(existing.map(s => s.id));
+    if (body.ids.length !== known.size || new Set(body.ids).size !== known.size || body.ids.some(id => !known.has(id))) {
+      throw Errors.validation('ids must list every subtask of the task exactly once');
+    }
+    const subtasks = await prisma.$transaction(
+      body.ids.map((id, position) => prisma.subTask.update({ where: { id }, data: { position } }))
+    );
+    return { ok: true, subtasks };
+  });
+
+  // DELETE /tasks/:id/subtasks/:subtaskId
+  app.delete('/tasks/:id/subtasks/:subtaskId', async (req: any) => {
+    const { task } = await loadTaskForEdit(String(req.params.id), req.auth.user.id);
+    const subtask = await loadSubtask(task.id, String(req.params.subtaskId));
+    await prisma.subTask.delete({ where: { id: subtask.id } });
+    await logEvent({ event_name: 'delete_subtask', user_id: req.auth.user.id, focus_id: task.focus_id, props: { task_id: task.id, subtask_id: subtask.id } });
+    return { ok: true };
+  });
+}
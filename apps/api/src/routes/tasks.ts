@@ -1,33 +1,17 @@
 import { FastifyInstance } from 'fastify';
 import { z } from 'zod';
 import { prisma } from '../lib/db.js';
-import { isActive } from '../lib/subscription.js';
 import { logEvent } from '../lib/events.js';
-import { Errors } from '../lib/errors.js';
-
-const createTaskSchema = z.object({
-  title: z.string().min(1),
-  description: z.string().optional().nullable(),
-  priority: z.enum(['low','medium','high','urgent']).optional(),
-  status: z.enum(['todo','in_progress','done','canceled']).optional(),
-  due_at: z.string().datetime().optional().nullable(),
-  assigned_to_user_id: z.string().uuid().optional().nullable()
-});
-
-const patchTaskSchema = createTaskSchema.partial();
-
-async function assertMember(focusId: string, userId: string) {
-  return prisma.focusMember.findUnique({
-    where: { focus_id_user_id: { focus_id: focusId, user_id: userId } }
-  });
-}
+import { assertCan, loadMember, loadTask } from '../lib/policy.js';
+import { syncTaskReminders } from '../lib/reminders.js';
+import { createTask, createTaskSchema, patchTaskSchema, updateTask } from '../lib/tasks.js';
+import { emitTaskEvents } from '../lib/taskEvents.js';
 
 export async function taskRoutes(app: FastifyInstance) {
   // GET /focuses/:id/tasks
   app.get('/focuses/:id/tasks', async (req: any) => {
     const focusId = String(req.params.id);
-    const member = await assertMember(focusId, req.auth.user.id);
-    if (!member) throw Errors.forbidden();
+    await loadMember(focusId, req.auth.user.id);
     const q = req.query ?? {};
     const where: any = { focus_id: focusId };
     if (q.assigned !== 'all') where.assigned_to_user_id = req.auth.user.id;
@@ -37,90 +21,51 @@ export async function taskRoutes(app: FastifyInstance) {
       where,
       orderBy: [{ due_at: 'asc' }, { created_at: 'desc' }],
       include: {
-        subtasks: true,
+        subtasks: { orderBy: { position: 'asc' } },
+        attachments: { orderBy: { created_at: 'asc' } },
         comments: { include: { author: { select: { id: true, username: true, first_name: true } } } }
       }
     });
     return { ok: true, tasks };
   });
 
+  // GET /tasks/:id
+  app.get('/tasks/:id', async (req: any) => {
+    const { task } = await loadTask(String(req.params.id), req.auth.user.id);
+    const full = await prisma.task.findUnique({
+      where: { id: task.id },
+      include: {
+        subtasks: { orderBy: { position: 'asc' } },
+        attachments: { orderBy: { created_at: 'asc' } }
+      }
+    });
+    return { ok: true, task: full };
+  });
+
   // POST /focuses/:id/tasks
   app.post('/focuses/:id/tasks', async (req: any, reply) => {
-    const active = await isActive(req.auth.user.id);
-    if (!active) throw Errors.trialExpired();
     const focusId = String(req.params.id);
-    const member = await assertMember(focusId, req.auth.user.id);
-    if (!member) throw Errors.forbidden();
-    if (member.role !== 'owner') throw Errors.ownerOnly();
     const body = createTaskSchema.parse(req.body);
-    const task = await prisma.task.create({
-      data: {
-        focus_id: focusId,
-        created_by_user_id: req.auth.user.id,
-        title: body.title,
-        description: body.description ?? null,
-        priority: body.priority ?? 'medium',
-        status: body.status ?? 'todo',
-        due_at: body.due_at ? new Date(body.due_at) : null,
-        assigned_to_user_id: body.assigned_to_user_id ?? null
-      },
-      include: { subtasks: true }
-    });
+    const task = await createTask(req.auth.user.id, focusId, body, req.log);
     await logEvent({ event_name: 'create_task', user_id: req.auth.user.id, focus_id: focusId, props: { task_id: task.id } });
     return reply.code(201).send({ ok: true, task });
   });
 
   // PATCH /tasks/:id
   app.patch('/tasks/:id', async (req: any) => {
-    const active = await isActive(req.auth.user.id);
-    if (!active) throw Errors.trialExpired();
-    const taskId = String(req.params.id);
-    const task = await prisma.task.findUnique({ where: { id: taskId } });
-    if (!task) throw Errors.notFound('Task');
-    const member = await assertMember(task.focus_id, req.auth.user.id);
-    if (!member) throw Errors.forbidden();
     const body = patchTaskSchema.parse(req.body);
-
-    // Members can only update limited fields on their own tasks
-    if (member.role !== 'owner') {
-      if (task.assigned_to_user_id !== req.auth.user.id) throw Errors.notAssignee();
-      const updated = await prisma.task.update({
-        where: { id: taskId },
-        data: {
-          ...(body.status && { status: body.status, completed_at: body.status === 'done' ? new Date() : null }),
-          ...(body.due_at !== undefined && { due_at: body.due_at ? new Date(body.due_at) : null }),
-          ...(body.description !== undefined && { description: body.description })
-        }
-      });
-      return { ok: true, task: updated };
-    }
-
-    const updated = await prisma.task.update({
-      where: { id: taskId },
-      data: {
-        ...(body.title !== undefined && { title: body.title }),
-        ...(body.description !== undefined && { description: body.description }),
-        ...(body.priority !== undefined && { priority: body.priority }),
-        ...(body.status !== undefined && { status: body.status, completed_at: body.status === 'done' ? new Date() : null }),
-        ...(body.due_at !== undefined && { due_at: body.due_at ? new Date(body.due_at) : null }),
-        ...(body.assigned_to_user_id !== undefined && { assigned_to_user_id: body.assigned_to_user_id })
-      },
-      include: { subtasks: true }
-    });
-
-    await logEvent({ event_name: 'update_task', user_id: req.auth.user.id, focus_id: task.focus_id, props: { task_id: task.id } });
-    return { ok: true, task: updated };
+    const { before, task } = await updateTask(req.auth.user.id, String(req.params.id), body, req.log);
+    await logEvent({ event_name: 'update_task', user_id: req.auth.user.id, focus_id: before.focus_id, props: { task_id: task.id } });
+    return { ok: true, task };
   });
 
   // DELETE /tasks/:id
   app.delete('/tasks/:id', async (req: any) => {
     const taskId = String(req.params.id);
-    const task = await prisma.task.findUnique({ where: { id: taskId } });
-    if (!task) throw Errors.notFound('Task');
-    const member = await assertMember(task.focus_id, req.auth.user.id);
-    if (!member) throw Errors.forbidden();
-    if (member.role !== 'owner') throw Errors.ownerOnly();
+    const { task, member } = await loadTask(taskId, req.auth.user.id);
+    assertCan(member, 'task.delete');
     await prisma.task.delete({ where: { id: taskId } });
+    await syncTaskReminders(req.log, taskId);
     await logEvent({ event_name: 'delete_task', user_id: req.auth.user.id, focus_id: task.focus_id, props: { task_id: task.id } });
     return { ok: true };
   });
@@ -128,15 +73,17 @@ export async function taskRoutes(app: FastifyInstance) {
   // POST /tasks/:id/comments
   app.post('/tasks/:id/comments', async (req: any, reply) => {
     const taskId = String(req.params.id);
-    const task = await prisma.task.findUnique({ where: { id: taskId } });
-    if (!task) throw Errors.notFound('Task');
-    const member = await assertMember(task.focus_id, req.auth.user.id);
-    if (!member) throw Errors.forbidden();
+    const { task, member } = await loadTask(taskId, req.auth.user.id);
+    assertCan(member, 'task.comment');
     const body = z.object({ text: z.string().min(1) }).parse(req.body);
     const comment = await prisma.taskComment.create({
       data: { task_id: taskId, author_user_id: req.auth.user.id, text: body.text },
       include: { author: { select: { id: true, username: true, first_name: true } } }
     });
+    const recipients = new Set([task.assigned_to_user_id ?? task.created_by_user_id, task.created_by_user_id]);
+    await emitTaskEvents(req.log, [...recipients].map(recipient_id => ({
+      type: 'task_commented' as const, recipient_id, task, actor_id: req.auth.user.id, comment: body.text
+    })));
     return reply.code(201).send({ ok: true, comment });
   });
 }
@@ -0,0 +1,97 @@
+import { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { prisma } from '../lib/db.js';
+import { logEvent } from '../lib/events.js';
+import { Errors } from '../lib/errors.js';
+import { assertCan, loadMember } from '../lib/policy.js';
+import { canManageThread, loadThread, visibleThreadsWhere } from '../lib/threads.js';
+
+const createThreadSchema = z.object({
+  title: z.string().trim().min(1).max(80).optional(),
+  is_private: z.boolean().optional()
+});
+
+const patchThreadSchema = z.object({
+  // null = let the next reply generate a title again
+  title: z.string().trim().min(1).max(80).nullable().optional(),
+  archived: z.boolean().optional()
+});
+
+async function loadThreadForManage(threadId: string, userId: string) {
+  const { thread, member } = await loadThread(threadId, userId);
+  if (!canManageThread(member, thread, userId)) throw Errors.insufficientRole();
+  return thread;
+}
+
+export async function threadRoutes(app: FastifyInstance) {
+  // GET /focuses/:id/assistant/threads?archived=true — most recently active first
+  app.get('/focuses/:id/assistant/threads', async (req: any) => {
+    const focusId = String(req.params.id);
+    const member = await loadMember(focusId, req.auth.user.id);
+    const q = z.object({ archived: z.enum(['true', 'false', 'all']).default('false') }).parse(req.query ?? {});
+    const threads = await prisma.assistantThread.findMany({
+      where: {
+        ...visibleThreadsWhere(focusId, req.auth.user.id),
+        ...(q.archived !== 'all' && { archived_at: q.archived === 'true' ? { not: null } : null })
+      },
+      orderBy: { last_message_at: 'desc' },
+      include: { _count: { select: { messages: true } } }
+    });
+    return {
+      ok: true,
+      threads: threads.map(({ _count, ...t }) => ({
+        ...t,
+        messages_count: _count.messages,
+        can_manage: canManageThread(member, t, req.auth.user.id)
+      }))
+    };
+  });
+
+  // POST /focuses/:id/assistant/threads
+  app.post('/focuses/:id/assistant/threads', async (req: any, reply) => {
+    const focusId = String(req.params.id);
+    const member = await loadMember(focusId, req.auth.user.id);
+    assertCan(member, 'assistant.chat');
+    const body = createThreadSchema.parse(req.body ?? {});
+    const thread = await prisma.assistantThread.create({
+      data: {
+        focus_id: focusId,
+        created_by_user_id: req.auth.user.id,
+        title: body.title ?? null,
+        is_private: body.is_private ?? false
+      }
+    });
+    await logEvent({ event_name: 'create_thread', user_id: req.auth.user.id, focus_id: focusId, props: { thread_id: thread.id, is_private: thread.is_private } });
+    return reply.code(201).send({ ok: true, thread: { ...thread, messages_count: 0, can_manage: true } });
+  });
+
+  // GET /assistant/threads/:id — with its messages
+  app.get('/assistant/threads/:id', async (req: any) => {
+    const { thread, member } = await loadThread(String(req.params.id), req.auth.user.id);
+    const messages = await prisma.assistantMessage.findMany({ where: { thread_id: thread.id }, orderBy: { created_at: 'asc' } });
+    return { ok: true, thread: { ...thread, can_manage: canManageThread(member, thread, req.auth.user.id) }, messages };
+  });
+
+  // PATCH /assistant/threads/:id — rename, archive / restore
+  app.patch('/assistant/threads/:id', async (req: any) => {
+    const current = await loadThreadForManage(String(req.params.id), req.auth.user.id);
+    const body = patchThreadSchema.parse(req.body);
+    const thread = await prisma.assistantThread.update({
+      where: { id: current.id },
+      data: {
+        ...(body.title !== undefined && { title: body.title }),
+        ...(body.archived !== undefined && { archived_at: body.archived ? (current.archived_at ?? new Date()) : null })
+      }
+    });
+    await logEvent({ event_name: 'update_thread', user_id: req.auth.user.id, focus_id: thread.focus_id, props: { thread_id: thread.id, ...body } });
+    return { ok: true, thread };
+  });
+
+  // DELETE /assistant/threads/:id — messages go with it
+  app.delete('/assistant/threads/:id', async (req: any) => {
+    const thread = await loadThreadForManage(String(req.params.id), req.auth.user.id);
+    await prisma.assistantThread.delete({ where: { id: thread.id } });
+    await logEvent({ event_name: 'delete_thread', user_id: req.auth.user.id, focus_id: thread.focus_id, props: { thread_id: thread.id } });
+    return { ok: true };
+  });
+}
@@ -0,0 +1,16 @@
+/**
+ * One-off: schedules deadline reminders for tasks created before they became
+ * per-task queue jobs. Run once after deploying, safe to repeat:
+ *   node apps/api/dist/scripts/backfillReminders.js
+ */
+
+import { prisma } from '../lib/db.js';
+import { notificationQueue } from '../lib/queue.js';
+import { backfillTaskReminders } from '../lib/reminders.js';
+
+const result = await backfillTaskReminders();
+console.log(`Scheduled ${result.reminders} reminders for ${result.tasks} tasks`);
+
+await notificationQueue.close();
+await prisma.$disconnect();
+process.exit(0);
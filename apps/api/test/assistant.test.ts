@@ -0,0 +1,141 @@
+import { afterAll, beforeEach, describe, expect, it } from 'vitest';
+import { prisma } from '../src/lib/db.js';
+import { queueFakeResponse } from '../src/lib/llm/index.js';
+import { call, callStream, closeApp, createFocus, hasTestDatabase, resetState } from './helpers.js';
+
+const TG = 7401;
+
+const answer = (reply: string, extra: object = {}) => JSON.stringify({ reply, tasks: [], followup_questions: [], ...extra });
+
+async function invalidAttempts() {
+  const events = await prisma.eventLog.findMany({ where: { event_name: 'ai_response_invalid' }, orderBy: { ts: 'asc' } });
+  return events.map(e => (e.props as any).attempt);
+}
+
+async function usageKinds() {
+  const rows = await prisma.aiUsage.findMany({ orderBy: { created_at: 'asc' } });
+  return rows.map(r => r.kind);
+}
+
+describe.skipIf(!hasTestDatabase)('assistant routes (fake provider)', () => {
+  beforeEach(resetState);
+  afterAll(closeApp);
+
+  it('answers a message, saves both sides and names the thread', async () => {
+    const focus = await createFocus(TG);
+    const res = await call(TG, 'POST', `/focuses/${focus.id}/assistant/message`, { content: 'Как поднять продажи?' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.message).toMatchObject({ role: 'assistant', content: 'Тестовый ответ на: «Как поднять продажи?»' });
+    expect(res.body.message.meta.suggested_tasks).toMatchObject([{ title: 'Разобрать: Как поднять продажи?' }]);
+    expect(res.body.thread.title).toBeTruthy();
+    expect(await prisma.assistantMessage.count()).toBe(2);
+    expect(await usageKinds()).toEqual(['chat', 'title']);
+  });
+
+  it('asks the model once to repair an answer that fails the schema', async () => {
+    const focus = await createFocus(TG);
+    queueFakeResponse(JSON.stringify({ reply: '', tasks: [] }), answer('Исправленный ответ'));
+
+    const res = await call(TG, 'POST', `/focuses/${focus.id}/assistant/message`, { content: 'План на неделю' });
+    expect(res.body.message.content).toBe('Исправленный ответ');
+    expect(await invalidAttempts()).toEqual([1]);
+    expect(await usageKinds()).toEqual(['chat', 'repair', 'title']);
+  });
+
+  it('salvages what it can when the repair fails too', async () => {
+    const focus = await createFocus(TG);
+    queueFakeResponse('не JSON', JSON.stringify({ reply: 'Частичный ответ', tasks: [{ title: '' }, { title: 'Годная задача' }] }));
+
+    const res = await call(TG, 'POST', `/focuses/${focus.id}/assistant/message`, { content: 'План на неделю' });
+    expect(res.body.message.content).toBe('Частичный ответ');
+    expect(res.body.message.meta.suggested_tasks).toEqual([{ title: 'Годная задача' }]);
+    expect(await invalidAttempts()).toEqual([1, 2]);
+  });
+
+  it('runs read tools, holds writes for confirmation and applies them on confirm', async () => {
+    const focus = await createFocus(TG);
+    queueFakeResponse(
+      { tool_calls: [{ name: 'list_tasks', arguments: {} }] },
+      { tool_calls: [{ name: 'create_task', arguments: { title: 'Из ассистента', priority: 'high' } }] },
+      answer('Создам задачу после подтверждения')
+    );
+
+    const res = await call(TG, 'POST', `/focuses/${focus.id}/assistant/message`, { content: 'Заведи задачу' });
+    const calls = res.body.message.meta.tool_calls;
+    expect(calls.map((c: any) => [c.name, c.status])).toEqual([['list_tasks', 'done'], ['create_task', 'pending']]);
+    expect(calls[1].summary).toBe('Создать задачу «Из ассистента»');
+    expect(await usageKinds()).toEqual(['chat', 'chat', 'chat', 'title']);
+    expect(await prisma.task.count()).toBe(0);
+
+    const confirmed = await call(TG, 'POST', `/assistant/messages/${res.body.message.id}/actions/${calls[1].id}/confirm`);
+    expect(confirmed.body.action.status).toBe('applied');
+    const task = await prisma.task.findUniqueOrThrow({ where: { id: confirmed.body.action.result.task_id } });
+    expect(task).toMatchObject({ title: 'Из ассистента', priority: 'high', focus_id: focus.id });
+  });
+
+  it('applies a confirmed action once when confirms race, keeping accepted suggestions', async () => {
+    const focus = await createFocus(TG);
+    queueFakeResponse(
+      { tool_calls: [{ name: 'create_task', arguments: { title: 'Из ассистента' } }] },
+      answer('Готово', { tasks: [{ title: 'Предложенная' }] })
+    );
+    const res = await call(TG, 'POST', `/focuses/${focus.id}/assistant/message`, { content: 'Заведи задачу' });
+    const message = res.body.message;
+    const action = `/assistant/messages/${message.id}/actions/${message.meta.tool_calls[0].id}`;
+    await call(TG, 'POST', `/focuses/${focus.id}/assistant/plan_to_tasks`, {
+      message_id: message.id, tasks: [{ suggestion_index: 0, title: 'Предложенная' }]
+    });
+
+    const results = await Promise.all([call(TG, 'POST', `${action}/confirm`), call(TG, 'POST', `${action}/confirm`), call(TG, 'POST', `${action}/reject`)]);
+    expect(results.map(r => r.status).sort()).toEqual([200, 409, 409]);
+    const winner = results.find(r => r.status === 200)!.body.action.status;
+
+    const stored = await prisma.assistantMessage.findUniqueOrThrow({ where: { id: message.id } });
+    const meta = stored.meta as any;
+    expect(meta.tool_calls[0].status).toBe(winner);
+    expect(meta.accepted_suggestions).toHaveLength(1);
+    expect(await prisma.task.count({ where: { title: 'Из ассистента' } })).toBe(winner === 'applied' ? 1 : 0);
+  });
+
+  it('accepts a suggested task once when it is accepted twice at the same time', async () => {
+    const focus = await createFocus(TG);
+    queueFakeResponse(answer('План', { tasks: [{ title: 'Предложенная' }, { title: 'Ещё одна' }] }));
+    const res = await call(TG, 'POST', `/focuses/${focus.id}/assistant/message`, { content: 'План на неделю' });
+    const accept = () => call(TG, 'POST', `/focuses/${focus.id}/assistant/plan_to_tasks`, {
+      message_id: res.body.message.id, tasks: [{ suggestion_index: 0, title: 'Предложенная' }]
+    });
+
+    const results = await Promise.all([accept(), accept()]);
+    expect(results.map(r => r.status).sort()).toEqual([200, 409]);
+    expect(await prisma.task.count()).toBe(1);
+    const stored = await prisma.assistantMessage.findUniqueOrThrow({ where: { id: res.body.message.id } });
+    expect((stored.meta as any).accepted_suggestions).toHaveLength(1);
+  });
+
+  it('stops offering tools after the last round', async () => {
+    const focus = await createFocus(TG);
+    const listTasks = { tool_calls: [{ name: 'list_tasks', arguments: {} }] };
+    // Four rounds with tools, then the model must answer even if it keeps calling them
+    queueFakeResponse(listTasks, listTasks, listTasks, listTasks, listTasks);
+
+    const res = await call(TG, 'POST', `/focuses/${focus.id}/assistant/message`, { content: 'Что по задачам?' });
+    expect(res.status).toBe(200);
+    expect(res.body.message.meta.tool_calls).toHaveLength(4);
+  });
+
+  it('streams the reply as server-sent events', async () => {
+    const focus = await createFocus(TG);
+    queueFakeResponse(answer('Потоковый ответ'));
+
+    const events = await callStream(TG, `/focuses/${focus.id}/assistant/message/stream`, { content: 'Привет' });
+    const names = events.map(e => e.event);
+    expect(names[0]).toBe('start');
+    expect(names.slice(-2)).toEqual(['done', 'thread']);
+    expect(events[0].data.user_message.content).toBe('Привет');
+
+    const streamed = events.filter(e => e.event === 'delta').map(e => e.data.text).join('');
+    expect(streamed).toBe('Потоковый ответ'); // only the reply text, not the JSON around it
+    expect(events.find(e => e.event === 'done')!.data.message.content).toBe('Потоковый ответ');
+  });
+});
@@ -0,0 +1,44 @@
+import { afterAll, beforeEach, describe, expect, it } from 'vitest';
+import { prisma } from '../src/lib/db.js';
+import { applyToolCall, assistantToolbox, type ToolCallLog, type ToolContext } from '../src/lib/assistantTools.js';
+import { closeApp, createFocus, getApp, hasTestDatabase, resetState, userByTgId } from './helpers.js';
+
+const TG = 7501;
+
+async function toolContext(focusId: string): Promise<ToolContext> {
+  const user = await userByTgId(TG);
+  return { userId: user.id, focusId, timezone: 'Europe/Moscow', log: (await getApp()).log };
+}
+
+describe.skipIf(!hasTestDatabase)('assistant tools', () => {
+  beforeEach(resetState);
+  afterAll(closeApp);
+
+  it('stores the resolved due date with a pending create_task', async () => {
+    const focus = await createFocus(TG);
+    const tools = assistantToolbox(await toolContext(focus.id));
+
+    await tools.run({ id: 'c1', name: 'create_task', arguments: JSON.stringify({ title: 'Созвон', due_at: '2030-03-05T10:00' }) });
+    const [entry] = tools.calls;
+    expect(entry.status).toBe('pending');
+    expect(entry.args).toMatchObject({ title: 'Созвон', due_at: '2030-03-05T07:00:00.000Z' });
+    expect(entry.summary).toContain('до 5 мар.');
+
+    const applied = await applyToolCall(await toolContext(focus.id), entry);
+    const task = await prisma.task.findUniqueOrThrow({ where: { id: (applied.result as any).task_id } });
+    expect(task.due_at?.toISOString()).toBe('2030-03-05T07:00:00.000Z');
+  });
+
+  it('refuses to apply update_kpi to a metric of another focus', async () => {
+    const focus = await createFocus(TG);
+    const other = await createFocus(TG, 'Другой проект');
+    const kpi = await prisma.kPI.create({ data: { focus_id: other.id, name: 'Выручка', current_value: 10 } });
+    const entry: ToolCallLog = {
+      id: 'c1', name: 'update_kpi', args: { kpi_id: kpi.id, current_value: 20 }, status: 'pending', summary: 'Метрика «Выручка»'
+    };
+
+    const resolved = await applyToolCall(await toolContext(focus.id), entry);
+    expect(resolved).toMatchObject({ status: 'failed', error: 'KPI not found' });
+    expect((await prisma.kPI.findUniqueOrThrow({ where: { id: kpi.id } })).current_value).toBe(10);
+  });
+});
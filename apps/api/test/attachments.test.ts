@@ -0,0 +1,94 @@
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { prisma } from '../src/lib/db.js';
+import { closeApp, createFocus, createTask, hasTestDatabase, privateChat, resetState, sendUpdate } from './helpers.js';
+import { telegramMock } from './telegram.js';
+
+const TG = 7001;
+
+function sendDocument(fileId = 'file-1') {
+  return sendUpdate({
+    message: {
+      message_id: 10,
+      date: 0,
+      ...privateChat(TG),
+      document: { file_id: fileId, file_unique_id: fileId, file_name: 'Договор.pdf', mime_type: 'application/pdf', file_size: 2048 }
+    }
+  } as any);
+}
+
+function pressButton(data: string) {
+  return sendUpdate({
+    callback_query: {
+      id: `cb-${data}`,
+      from: privateChat(TG).from,
+      chat_instance: '1',
+      data,
+      message: { message_id: 11, date: 0, chat: privateChat(TG).chat, text: 'picker' }
+    }
+  } as any);
+}
+
+function lastAnswer() {
+  return telegramMock.calls('answerCallbackQuery').at(-1)?.body;
+}
+
+describe.skipIf(!hasTestDatabase)('bot: attaching a file to a task', () => {
+  beforeEach(resetState);
+  afterEach(() => vi.useRealTimers());
+  afterAll(closeApp);
+
+  it('offers the open tasks and attaches the file to the picked one', async () => {
+    const focus = await createFocus(TG);
+    const task = await createTask(TG, focus.id, { title: 'Подписать договор' });
+
+    expect(await sendDocument()).toBe(200);
+    const picker = telegramMock.calls('sendMessage').at(-1)!.body;
+    expect(picker.text).toContain('Договор.pdf');
+    const buttons = picker.reply_markup.inline_keyboard.flat().map((b: any) => b.callback_data);
+    expect(buttons).toEqual([`att:task=${task.id}`, 'att:cancel']);
+
+    await pressButton(`att:task=${task.id}`);
+    const attachments = await prisma.taskAttachment.findMany({ where: { task_id: task.id } });
+    expect(attachments).toMatchObject([{ type: 'file', tg_file_id: 'file-1', file_name: 'Договор.pdf', mime: 'application/pdf', size: 2048 }]);
+    expect(telegramMock.calls('editMessageText').at(-1)!.body.text).toContain('Подписать договор');
+
+    // The pending file is used up
+    await pressButton(`att:task=${task.id}`);
+    expect(lastAnswer()).toMatchObject({ text: 'Файл не найден, отправь его ещё раз', show_alert: true });
+    expect(await prisma.taskAttachment.count()).toBe(1);
+  });
+
+  it('attaches the file once when the button is pressed twice at once', async () => {
+    const focus = await createFocus(TG);
+    const task = await createTask(TG, focus.id, { title: 'Подписать договор' });
+    await sendDocument();
+
+    await Promise.all([pressButton(`att:task=${task.id}`), pressButton(`att:task=${task.id}`)]);
+    expect(await prisma.taskAttachment.count()).toBe(1);
+  });
+
+  it('forgets a file nobody picked a task for', async () => {
+    const focus = await createFocus(TG);
+    const task = await createTask(TG, focus.id);
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    await sendDocument();
+    vi.setSystemTime(Date.now() + 31 * 60_000);
+
+    await pressButton(`att:task=${task.id}`);
+    expect(lastAnswer()).toMatchObject({ text: 'Файл не найден, отправь его ещё раз' });
+    expect(await prisma.taskAttachment.count()).toBe(0);
+  });
+
+  it('cancels the pick', async () => {
+    const focus = await createFocus(TG);
+    const task = await createTask(TG, focus.id);
+
+    await sendDocument();
+    await pressButton('att:cancel');
+    expect(telegramMock.calls('editMessageText').at(-1)!.body.text).toBe('Прикрепление отменено.');
+
+    await pressButton(`att:task=${task.id}`);
+    expect(await prisma.taskAttachment.count()).toBe(0);
+  });
+});
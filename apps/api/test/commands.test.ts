@@ -0,0 +1,36 @@
+import { afterAll, beforeEach, describe, expect, it } from 'vitest';
+import { botErrorText } from '../src/bot/commands.js';
+import { Errors } from '../src/lib/errors.js';
+import { call, closeApp, createFocus, hasTestDatabase, privateChat, resetState, sendUpdate } from './helpers.js';
+import { telegramMock } from './telegram.js';
+
+const OWNER = 7801;
+const GUEST = 7802;
+
+function start(tgId: number, code: string) {
+  const chat = privateChat(tgId);
+  return sendUpdate({
+    message: { message_id: 1, date: 0, ...chat, text: `/start ${code}`, entities: [{ type: 'bot_command', offset: 0, length: 6 }] }
+  } as any);
+}
+
+describe('botErrorText', () => {
+  it('does not mention invites for a conflict elsewhere', () => {
+    expect(botErrorText(Errors.conflict('Action is already resolved'))).toBe('⚠️ Не получилось: данные уже изменились. Попробуй ещё раз.');
+  });
+});
+
+describe.skipIf(!hasTestDatabase)('bot: /start with an invite', () => {
+  beforeEach(resetState);
+  afterAll(closeApp);
+
+  it('explains a used-up invite in terms of the invite', async () => {
+    const focus = await createFocus(OWNER);
+    const { body } = await call(OWNER, 'POST', `/focuses/${focus.id}/invites`, { max_uses: 1 });
+    await start(GUEST, body.invite.code);
+    expect(telegramMock.calls('sendMessage').at(-1)!.body.text).toContain('Ты присоединился(лась)');
+
+    await start(GUEST + 1, body.invite.code);
+    expect(telegramMock.calls('sendMessage').at(-1)!.body.text).toBe('⚠️ Приглашение уже использовано максимальное число раз.');
+  });
+});
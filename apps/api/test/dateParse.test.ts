@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeDue, parseTaskText } from '../src/lib/dateParse.js';
+
+const TZ = 'Europe/Moscow';
+// Monday, 19 October 2026, 12:00 in Moscow
+const now = new Date('2026-10-19T09:00:00Z');
+const parse = (text: string) => parseTaskText(text, TZ, now);
+const msk = (iso: string) => new Date(`${iso}+03:00`);
+
+describe('parseTaskText', () => {
+  it('reads relative days, weekdays and times', () => {
+    expect(parse('позвонить Ивану завтра в 15:00')).toEqual({ title: 'позвонить Ивану', due_at: msk('2026-10-20T15:00') });
+    expect(parse('отчёт в пятницу')).toEqual({ title: 'отчёт', due_at: msk('2026-10-23T18:00') });
+    expect(parse('созвон в 9:30').due_at).toEqual(msk('2026-10-20T09:30')); // already past today
+    expect(parse('через 2 дня согласовать').due_at).toEqual(msk('2026-10-21T18:00'));
+  });
+
+  it('reads dates with and without a year', () => {
+    expect(parse('сдать макет 25.12')).toEqual({ title: 'сдать макет', due_at: msk('2026-12-25T18:00') });
+    expect(parse('сдать макет 25.12.2027 10:00').due_at).toEqual(msk('2027-12-25T10:00'));
+    expect(parse('налоги 01.03').due_at).toEqual(msk('2027-03-01T18:00')); // already past this year
+    expect(parse('презентация до 1.11')).toEqual({ title: 'презентация', due_at: msk('2026-11-01T18:00') });
+  });
+
+  it('rejects days that do not exist instead of rolling them over', () => {
+    expect(parse('платёж 31.02')).toEqual({ title: 'платёж 31.02', due_at: null });
+    expect(parse('платёж 29.02.2027').due_at).toBeNull();
+    expect(parse('платёж 29.02.2028').due_at).toEqual(msk('2028-02-29T18:00'));
+    expect(parse('встреча 12.13').due_at).toBeNull();
+    expect(parse('встреча 00.10').due_at).toBeNull();
+  });
+
+  it('leaves version-like numbers alone', () => {
+    expect(parse('версия 1.10 релиз')).toEqual({ title: 'версия 1.10 релиз', due_at: null });
+    expect(parse('обновить до 1.10.5')).toEqual({ title: 'обновить до 1.10.5', due_at: null });
+    expect(parse('выпустить 2.5 к 15.11')).toEqual({ title: 'выпустить 2.5', due_at: msk('2026-11-15T18:00') });
+  });
+});
+
+describe('normalizeDue', () => {
+  it('accepts ISO with and without an offset', () => {
+    expect(normalizeDue('2026-11-01T10:00:00Z', TZ, now)).toEqual(new Date('2026-11-01T10:00:00Z'));
+    expect(normalizeDue('2026-11-01T10:00', TZ, now)).toEqual(msk('2026-11-01T10:00'));
+    expect(normalizeDue('2026-11-01', TZ, now)).toEqual(msk('2026-11-01T18:00'));
+  });
+
+  it('rejects impossible local dates', () => {
+    expect(normalizeDue('2026-02-31', TZ, now)).toBeNull();
+    expect(normalizeDue('2026-04-31T10:00', TZ, now)).toBeNull();
+  });
+});
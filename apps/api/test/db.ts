@@ -0,0 +1,11 @@
+import type { PrismaClient } from '@prisma/client';
+
+export const hasTestDatabase = !!process.env.TEST_DATABASE_URL;
+
+/** Empties every table between tests; the schema stays as migrated. */
+export async function truncateAll(prisma: PrismaClient) {
+  const rows = await prisma.$queryRaw<{ tablename: string }[]>`
+    SELECT tablename::text FROM pg_tables WHERE schemaname = 'public' AND tablename <> '_prisma_migrations'`;
+  if (!rows.length) return;
+  await prisma.$executeRawUnsafe(`TRUNCATE ${rows.map(r => `"${r.tablename}"`).join(', ')} CASCADE`);
+}
@@ -0,0 +1,92 @@
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { prisma } from '../src/lib/db.js';
+import { closeApp, createFocus, hasTestDatabase, privateChat, resetState, sendUpdate } from './helpers.js';
+import { telegramMock } from './telegram.js';
+
+const TG = 7301;
+const origin = { type: 'hidden_user', sender_user_name: 'Анна', date: 1_790_000_000 };
+
+function forward(messageId: number, extra: Record<string, unknown>) {
+  return sendUpdate({ message: { message_id: messageId, date: 0, ...privateChat(TG), forward_origin: origin, ...extra } } as any);
+}
+
+function photo(fileId: string) {
+  return [{ file_id: fileId, file_unique_id: fileId, width: 800, height: 600, file_size: 1000 }];
+}
+
+function pick(messageId: number, focusId: string) {
+  return sendUpdate({
+    callback_query: {
+      id: `cb-${messageId}`,
+      from: privateChat(TG).from,
+      chat_instance: '1',
+      data: `fwd:${messageId}:${focusId}`,
+      message: { message_id: 99, date: 0, chat: privateChat(TG).chat, text: 'picker' }
+    }
+  } as any);
+}
+
+describe.skipIf(!hasTestDatabase)('bot: forwarded messages', () => {
+  beforeEach(resetState);
+  afterEach(() => vi.useRealTimers());
+  afterAll(closeApp);
+
+  it('turns a forward into a task in the picked focus', async () => {
+    const focus = await createFocus(TG);
+    await forward(1, { text: 'Подготовить смету\nДо конца недели' });
+    expect(telegramMock.calls('sendMessage').at(-1)!.body.text).toContain('В какой проект');
+
+    await pick(1, focus.id);
+    const [task] = await prisma.task.findMany({ where: { focus_id: focus.id } });
+    expect(task.title).toBe('Подготовить смету');
+    expect(task.description).toContain('Переслано: Анна');
+  });
+
+  it('collects an album into one task with every file', async () => {
+    const focus = await createFocus(TG);
+    await forward(1, { media_group_id: 'g1', photo: photo('p1'), caption: 'Фото объекта' });
+    await forward(2, { media_group_id: 'g1', photo: photo('p2') });
+    expect(telegramMock.calls('sendMessage')).toHaveLength(1);
+
+    await pick(1, focus.id);
+    const [task] = await prisma.task.findMany({ where: { focus_id: focus.id }, include: { attachments: true } });
+    expect(task.attachments.map(a => a.tg_file_id).sort()).toEqual(['p1', 'p2']);
+  });
+
+  it('creates one task when the pick arrives twice at once', async () => {
+    const focus = await createFocus(TG);
+    await forward(1, { media_group_id: 'g3', photo: photo('p1'), caption: 'Фото объекта' });
+    await forward(2, { media_group_id: 'g3', photo: photo('p2') });
+
+    await Promise.all([pick(1, focus.id), pick(1, focus.id)]);
+    const tasks = await prisma.task.findMany({ where: { focus_id: focus.id }, include: { attachments: true } });
+    expect(tasks).toHaveLength(1);
+    expect(tasks[0].attachments).toHaveLength(2);
+  });
+
+  it('keeps the forward when the task could not be created', async () => {
+    const focus = await createFocus(TG);
+    const other = await createFocus(TG + 1, 'Чужой проект');
+    await forward(1, { text: 'Подготовить смету' });
+
+    await pick(1, other.id);
+    expect(await prisma.task.count()).toBe(0);
+    await pick(1, focus.id);
+    expect(await prisma.task.count({ where: { focus_id: focus.id } })).toBe(1);
+  });
+
+  it('forgets forwards nobody picked a focus for', async () => {
+    const focus = await createFocus(TG);
+    vi.useFakeTimers({ toFake: ['Date'] });
+    await forward(1, { media_group_id: 'g2', photo: photo('p1') });
+    vi.setSystemTime(Date.now() + 31 * 60_000);
+
+    await pick(1, focus.id);
+    expect(telegramMock.calls('answerCallbackQuery').at(-1)!.body.text).toBe('Сообщение не найдено, перешли его ещё раз');
+    expect(await prisma.task.count()).toBe(0);
+
+    // A late file of the same album starts over instead of joining the expired entry
+    await forward(2, { media_group_id: 'g2', photo: photo('p2') });
+    expect(telegramMock.calls('sendMessage')).toHaveLength(2);
+  });
+});
@@ -0,0 +1,16 @@
+import { execFileSync } from 'node:child_process';
+import { fileURLToPath } from 'node:url';
+
+/**
+ * Database suites run against TEST_DATABASE_URL, which is wiped and migrated
+ * once per run. Without it they are skipped and only the offline tests run.
+ */
+export default function setup() {
+  const url = process.env.TEST_DATABASE_URL;
+  if (!url) return;
+  execFileSync('npx', ['prisma', 'migrate', 'reset', '--force', '--skip-seed', '--skip-generate'], {
+    cwd: fileURLToPath(new URL('..', import.meta.url)),
+    env: { ...process.env, DATABASE_URL: url },
+    stdio: 'inherit'
+  });
+}
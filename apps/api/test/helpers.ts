@@ -0,0 +1,82 @@
+import type { FastifyInstance } from 'fastify';
+import type { FocusRole } from '@prisma/client';
+import type { Update } from 'telegraf/types';
+import { buildApp } from '../src/app.js';
+import { prisma } from '../src/lib/db.js';
+import { clearFakeResponses } from '../src/lib/llm/index.js';
+import { truncateAll } from './db.js';
+import { clearQueuedJobs } from './queue.js';
+import { telegramMock } from './telegram.js';
+
+export { hasTestDatabase } from './db.js';
+
+let app: FastifyInstance | null = null;
+
+export async function getApp() {
+  app ??= await buildApp({ logger: false });
+  return app;
+}
+
+export async function resetState() {
+  await truncateAll(prisma);
+  clearQueuedJobs();
+  clearFakeResponses();
+  telegramMock.reset();
+}
+
+/** Calls the API as the Telegram user `tgId` (dev auth header). */
+export async function call(tgId: number, method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE', url: string, payload?: object) {
+  const res = await (await getApp()).inject({ method, url, payload, headers: { 'x-dev-tg-id': String(tgId) } });
+  return { status: res.statusCode, body: res.json() };
+}
+
+/** Posts to a server-sent events route and returns the events in order. */
+export async function callStream(tgId: number, url: string, payload: object) {
+  const res = await (await getApp()).inject({ method: 'POST', url, payload, headers: { 'x-dev-tg-id': String(tgId) } });
+  return res.body.split('\n\n').flatMap((block) => {
+    const event = block.match(/^event: (.+)$/m)?.[1];
+    const data = block.match(/^data: (.+)$/m)?.[1];
+    return event && data ? [{ event, data: JSON.parse(data) }] : [];
+  });
+}
+
+export async function sendUpdate(update: Omit<Update, 'update_id'>) {
+  const res = await (await getApp()).inject({ method: 'POST', url: '/bot/webhook', payload: { update_id: Date.now(), ...update } });
+  return res.statusCode;
+}
+
+/** A focus owned by `tgId`, created the way the Mini App does it. */
+export async function createFocus(tgId: number, title = 'Проект') {
+  const { body } = await call(tgId, 'POST', '/focuses', { title });
+  return body.focus as { id: string; title: string };
+}
+
+export async function createTask(tgId: number, focusId: string, data: Record<string, unknown> = {}) {
+  const { body } = await call(tgId, 'POST', `/focuses/${focusId}/tasks`, { title: 'Задача', ...data });
+  return body.task as { id: string; title: string };
+}
+
+/** Signs `tgId` in and adds them to the focus with `role`. */
+export async function addMember(focusId: string, tgId: number, role: FocusRole = 'member') {
+  await call(tgId, 'GET', '/me');
+  const user = await userByTgId(tgId);
+  await prisma.focusMember.create({ data: { focus_id: focusId, user_id: user.id, role } });
+  return user;
+}
+
+export async function userByTgId(tgId: number) {
+  return prisma.user.findUniqueOrThrow({ where: { tg_id: BigInt(tgId) } });
+}
+
+export function privateChat(tgId: number) {
+  return {
+    from: { id: tgId, is_bot: false, first_name: 'Test' },
+    chat: { id: tgId, type: 'private' as const, first_name: 'Test' }
+  };
+}
+
+export async function closeApp() {
+  await app?.close();
+  app = null;
+  await prisma.$disconnect();
+}
@@ -0,0 +1,126 @@
+import { afterAll, beforeEach, describe, expect, it } from 'vitest';
+import { prisma } from '../src/lib/db.js';
+import { chunkText, citedSources, searchKnowledge } from '../src/lib/knowledge.js';
+import { usageFor } from '../src/lib/usage.js';
+import { call, closeApp, createFocus, hasTestDatabase, resetState, userByTgId } from './helpers.js';
+
+const TG = 7601;
+
+describe('chunkText', () => {
+  it('keeps a short text in one chunk', () => {
+    expect(chunkText('Заголовок\r\n\r\n\r\n\r\nТекст заметки. ')).toEqual(['Заголовок\n\nТекст заметки.']);
+  });
+
+  it('cuts long text at sentence or paragraph ends, with an overlap', () => {
+    const paragraphs = Array.from({ length: 12 }, (_, i) => `Абзац ${i + 1}. ${'слово '.repeat(40).trim()}`);
+    const chunks = chunkText(paragraphs.join('\n\n'));
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) expect(chunk.length).toBeLessThanOrEqual(1000);
+    for (const [i, chunk] of chunks.slice(0, -1).entries()) {
+      expect(chunk).toMatch(/(слово|\.)$/);
+      expect(chunk).toContain(chunks[i + 1].slice(0, 30));
+    }
+    for (const p of paragraphs) expect(chunks.some(c => c.includes(p))).toBe(true);
+  });
+});
+
+describe('citedSources', () => {
+  const available = [
+    { label: 'D1', doc_id: 'a', title: 'Прайс' },
+    { label: 'D2', doc_id: 'b', title: 'Регламент' },
+    { label: 'D3', doc_id: 'c', title: 'Контакты' }
+  ];
+
+  it('takes labels cited in the text and listed in sources', () => {
+    expect(citedSources(available, 'Цены в прайсе [D1].', [' [d3] '])).toEqual([available[0], available[2]]);
+  });
+
+  it('ignores labels that were not offered', () => {
+    expect(citedSources(available, 'См. [D7]', ['D9'])).toEqual([]);
+  });
+});
+
+describe.skipIf(!hasTestDatabase)('knowledge base', () => {
+  beforeEach(resetState);
+  afterAll(closeApp);
+
+  it('meters embeddings of documents and queries against the user', async () => {
+    const focus = await createFocus(TG);
+    const user = await userByTgId(TG);
+
+    // No vectors yet: the query is not embedded
+    await call(TG, 'GET', `/focuses/${focus.id}/knowledge/search?q=${encodeURIComponent('цены')}`);
+    expect(await prisma.aiUsage.count()).toBe(0);
+
+    await call(TG, 'POST', `/focuses/${focus.id}/knowledge`, { title: 'Прайс', content: 'Цены на доставку по городу' });
+    await call(TG, 'GET', `/focuses/${focus.id}/knowledge/search?q=${encodeURIComponent('цены')}`);
+
+    const rows = await prisma.aiUsage.findMany({ orderBy: { created_at: 'asc' } });
+    expect(rows).toHaveLength(2);
+    for (const row of rows) {
+      expect(row).toMatchObject({ kind: 'embedding', model: 'hash-256', user_id: user.id, focus_id: focus.id, completion_tokens: 0, estimated: true });
+      expect(row.prompt_tokens).toBeGreaterThan(0);
+    }
+    expect((await usageFor(user.id)).day.used).toBe(rows[0].prompt_tokens + rows[1].prompt_tokens);
+  });
+
+  it('stops embedding for a user over the AI quota', async () => {
+    const focus = await createFocus(TG);
+    const doc = (await call(TG, 'POST', `/focuses/${focus.id}/knowledge`, { title: 'Прайс', content: 'Цены' })).body.doc;
+    const user = await userByTgId(TG);
+    await prisma.aiUsage.create({
+      data: { user_id: user.id, focus_id: focus.id, kind: 'chat', model: 'gpt-4o-mini', prompt_tokens: 10_000_000, completion_tokens: 0 }
+    });
+    const before = await prisma.aiUsage.count();
+
+    const results = await Promise.all([
+      call(TG, 'POST', `/focuses/${focus.id}/knowledge`, { title: 'Ещё', content: 'Текст' }),
+      call(TG, 'PATCH', `/knowledge/${doc.id}`, { content: 'Новые цены' }),
+      call(TG, 'GET', `/focuses/${focus.id}/knowledge/search?q=${encodeURIComponent('цены')}`)
+    ]);
+    expect(results.map(r => r.status)).toEqual([429, 429, 429]);
+    expect(results[0].body.code).toBe('quota_exceeded');
+    expect(await prisma.aiUsage.count()).toBe(before);
+    expect(await prisma.knowledgeDoc.count()).toBe(1);
+  });
+
+  it('refuses to add or change documents after the trial', async () => {
+    const focus = await createFocus(TG);
+    const doc = (await call(TG, 'POST', `/focuses/${focus.id}/knowledge`, { title: 'Прайс', content: 'Цены' })).body.doc;
+    const user = await userByTgId(TG);
+    await prisma.subscription.update({ where: { user_id: user.id }, data: { trial_expires_at: new Date(Date.now() - 1000) } });
+
+    const created = await call(TG, 'POST', `/focuses/${focus.id}/knowledge`, { title: 'Ещё', content: 'Текст' });
+    const patched = await call(TG, 'PATCH', `/knowledge/${doc.id}`, { content: 'Новые цены' });
+    expect([created.status, patched.status]).toEqual([402, 402]);
+    expect(created.body.code).toBe('trial_expired');
+    expect(await prisma.knowledgeDoc.count()).toBe(1);
+  });
+
+  it('finds documents by word forms and keeps to the focus', async () => {
+    const focus = await createFocus(TG);
+    const other = await createFocus(TG, 'Другой проект');
+    const add = (focusId: string, title: string, content: string) =>
+      call(TG, 'POST', `/focuses/${focusId}/knowledge`, { title, content }).then(r => r.body.doc);
+    const price = await add(focus.id, 'Прайс', 'Доставка по городу стоит 300 рублей, за город — по договорённости.');
+    await add(focus.id, 'Контакты', 'Менеджер отвечает в будни с 9 до 18.');
+    await add(other.id, 'Чужой прайс', 'Доставка бесплатная.');
+
+    const hits = await searchKnowledge(focus.id, 'Сколько стоят доставки?');
+    expect(hits[0]).toMatchObject({ doc_id: price.id, title: 'Прайс' });
+    expect(hits.every(h => h.title !== 'Чужой прайс')).toBe(true);
+    expect(await searchKnowledge(focus.id, 'квантовая хромодинамика')).toEqual([]);
+  });
+
+  it('ranks by vectors too when full text finds nothing', async () => {
+    const focus = await createFocus(TG);
+    await call(TG, 'POST', `/focuses/${focus.id}/knowledge`, { title: 'Склад', content: 'Остатки обновляются ежедневно' });
+    // "остатк" matches by the 5-letter prefix of the hash embedder, not by the Russian stemmer
+    await prisma.$executeRaw`UPDATE "KnowledgeChunk" SET "content" = 'x' WHERE "focus_id" = ${focus.id}`;
+
+    const hits = await searchKnowledge(focus.id, 'остатков');
+    expect(hits).toHaveLength(1);
+    expect(hits[0].title).toBe('Склад');
+  });
+});
@@ -0,0 +1,176 @@
+import { afterAll, beforeEach, describe, expect, it } from 'vitest';
+import type { Update } from 'telegraf/types';
+import { prisma } from '../src/lib/db.js';
+import { env } from '../src/lib/env.js';
+import { PAID_PERIOD_DAYS, applyPayment, checkPreCheckout, subscriptionInvoicePayload } from '../src/lib/payments.js';
+import { call, closeApp, hasTestDatabase, resetState, sendUpdate, userByTgId } from './helpers.js';
+import { telegramMock } from './telegram.js';
+
+const TG = 7701;
+const DAY = 24 * 60 * 60 * 1000;
+const PERIOD = PAID_PERIOD_DAYS * DAY;
+
+/**
+ * The two updates Telegram sends for a Stars payment: the pre-checkout query
+ * and, once the bot agreed, the message with successful_payment.
+ */
+function paymentUpdates(opts: { tgId: number; userId: string; chargeId: string; amount?: number; recurring?: boolean }) {
+  const from = { id: opts.tgId, is_bot: false, first_name: 'Test' };
+  const payment = { currency: 'XTR', total_amount: opts.amount ?? env.STARS_PRICE, invoice_payload: subscriptionInvoicePayload(opts.userId) };
+  const now = Math.floor(Date.now() / 1000);
+  const recurring = opts.recurring && {
+    subscription_expiration_date: now + PAID_PERIOD_DAYS * 24 * 60 * 60,
+    is_recurring: true,
+    is_first_recurring: true
+  };
+  const successful_payment = { ...payment, telegram_payment_charge_id: opts.chargeId, provider_payment_charge_id: '', ...recurring };
+  return {
+    preCheckout: { pre_checkout_query: { id: `q-${opts.chargeId}`, from, ...payment } } as Omit<Update, 'update_id'>,
+    paid: {
+      message: { message_id: 1, date: now, chat: { id: opts.tgId, type: 'private', first_name: 'Test' }, from, successful_payment }
+    } as Omit<Update, 'update_id'>
+  };
+}
+
+async function signIn() {
+  await call(TG, 'GET', '/me');
+  return userByTgId(TG);
+}
+
+function payment(userId: string, chargeId: string, extra: Partial<Parameters<typeof applyPayment>[0]> = {}) {
+  return {
+    from_tg_id: TG,
+    currency: 'XTR',
+    total_amount: env.STARS_PRICE,
+    invoice_payload: subscriptionInvoicePayload(userId),
+    telegram_payment_charge_id: chargeId,
+    ...extra
+  };
+}
+
+async function setPaidUntil(userId: string, paid_until: Date) {
+  const paid = { status: 'paid' as const, paid_until };
+  await prisma.subscription.upsert({
+    where: { user_id: userId },
+    update: paid,
+    create: { user_id: userId, trial_started_at: new Date(), trial_expires_at: new Date(), ...paid }
+  });
+}
+
+describe.skipIf(!hasTestDatabase)('payments', () => {
+  beforeEach(resetState);
+  afterAll(closeApp);
+
+  describe('checkPreCheckout', () => {
+    it('accepts the invoice of the paying user at the current price', async () => {
+      const user = await signIn();
+      const q = { from_tg_id: TG, currency: 'XTR', total_amount: env.STARS_PRICE, invoice_payload: subscriptionInvoicePayload(user.id) };
+      expect(await checkPreCheckout(q)).toBeNull();
+      expect(await checkPreCheckout({ ...q, from_tg_id: TG + 1 })).toBe('Этот счёт выставлен другому пользователю.');
+      expect(await checkPreCheckout({ ...q, invoice_payload: 'other:payload' })).toBe('Этот счёт выставлен другому пользователю.');
+      expect(await checkPreCheckout({ ...q, total_amount: env.STARS_PRICE - 1 })).toBe('Цена изменилась — открой оплату заново.');
+      expect(await checkPreCheckout({ ...q, currency: 'USD' })).toBe('Цена изменилась — открой оплату заново.');
+    });
+  });
+
+  describe('applyPayment', () => {
+    it('starts a paid period and ignores a redelivered charge', async () => {
+      const user = await signIn();
+      const first = await applyPayment(payment(user.id, 'ch-1'));
+      expect(first.duplicate).toBe(false);
+      expect(first.subscription.status).toBe('paid');
+      const paidUntil = first.subscription.paid_until!.getTime();
+      expect(paidUntil - Date.now()).toBeGreaterThan(PERIOD - 60_000);
+
+      const again = await applyPayment(payment(user.id, 'ch-1'));
+      expect(again.duplicate).toBe(true);
+      expect(again.subscription.paid_until!.getTime()).toBe(paidUntil);
+      expect(await prisma.payment.count()).toBe(1);
+    });
+
+    it('treats two deliveries of one charge at the same time as one payment', async () => {
+      const user = await signIn();
+      const results = await Promise.all([applyPayment(payment(user.id, 'ch-1')), applyPayment(payment(user.id, 'ch-1'))]);
+      expect(results.map(r => r.duplicate).sort()).toEqual([false, true]);
+      expect(await prisma.payment.count()).toBe(1);
+    });
+
+    it('applies two different first payments at once, one after the other', async () => {
+      const user = await signIn();
+      expect(await prisma.subscription.count()).toBe(0);
+
+      const results = await Promise.all([applyPayment(payment(user.id, 'ch-1')), applyPayment(payment(user.id, 'ch-2'))]);
+      expect(results.map(r => r.duplicate)).toEqual([false, false]);
+      const subscription = await prisma.subscription.findUniqueOrThrow({ where: { user_id: user.id } });
+      expect(subscription.status).toBe('paid');
+      expect(subscription.paid_until!.getTime() - Date.now()).toBeGreaterThan(2 * PERIOD - 60_000);
+      expect(await prisma.payment.count()).toBe(2);
+    });
+
+    it('adds an early payment to the days left', async () => {
+      const user = await signIn();
+      const left = new Date(Date.now() + 10 * DAY);
+      await setPaidUntil(user.id, left);
+
+      const { subscription, payment: row } = await applyPayment(payment(user.id, 'ch-1'));
+      expect(subscription.paid_until!.getTime()).toBe(left.getTime() + PERIOD);
+      expect(row.period_start.getTime()).toBe(left.getTime());
+      expect(row.period_end.getTime()).toBe(left.getTime() + PERIOD);
+    });
+
+    it('keeps the days left when a Stars subscription starts', async () => {
+      const user = await signIn();
+      const left = new Date(Date.now() + 10 * DAY);
+      await setPaidUntil(user.id, left);
+      const telegramEnd = Math.floor(Date.now() / 1000) + PAID_PERIOD_DAYS * 24 * 60 * 60;
+
+      const { subscription, payment: row } = await applyPayment(payment(user.id, 'ch-1', {
+        subscription_expiration_date: telegramEnd, is_recurring: true, is_first_recurring: true
+      }));
+      expect(subscription).toMatchObject({ auto_renew: true });
+      expect(subscription.paid_until!.getTime()).toBe(left.getTime() + PERIOD);
+      expect(row.period_end.getTime() - row.period_start.getTime()).toBe(PERIOD);
+    });
+
+    it('moves a renewal to the date Telegram charges next', async () => {
+      const user = await signIn();
+      await setPaidUntil(user.id, new Date(Date.now() - 60_000));
+      const telegramEnd = Math.floor(Date.now() / 1000) + PAID_PERIOD_DAYS * 24 * 60 * 60 + 3600;
+
+      const { subscription, payment: row } = await applyPayment(payment(user.id, 'ch-2', {
+        subscription_expiration_date: telegramEnd, is_recurring: true, is_first_recurring: false
+      }));
+      expect(subscription.paid_until!.getTime()).toBe(telegramEnd * 1000);
+      expect(row.period_end.getTime() - row.period_start.getTime()).toBe(PERIOD);
+      const events = await prisma.eventLog.findMany({ where: { event_name: 'subscription_renewed' } });
+      expect(events).toHaveLength(1);
+    });
+  });
+
+  describe('bot webhook', () => {
+    it('answers the pre-checkout query and confirms the payment', async () => {
+      const user = await signIn();
+      const updates = paymentUpdates({ tgId: TG, userId: user.id, chargeId: 'ch-1', recurring: true });
+
+      await sendUpdate(updates.preCheckout);
+      expect(telegramMock.calls('answerPreCheckoutQuery').map(c => c.body)).toEqual([{ pre_checkout_query_id: 'q-ch-1', ok: true }]);
+
+      await sendUpdate(updates.paid);
+      const [reply] = telegramMock.calls('sendMessage');
+      expect(reply.body.text).toMatch(/^🎉 Спасибо! Подписка активна до /);
+      expect(await prisma.subscription.findUniqueOrThrow({ where: { user_id: user.id } })).toMatchObject({ status: 'paid', auto_renew: true });
+
+      // Redelivered by Telegram: nothing is sent again
+      await sendUpdate(updates.paid);
+      expect(telegramMock.calls('sendMessage')).toHaveLength(1);
+    });
+
+    it('rejects a pre-checkout query at an old price', async () => {
+      const user = await signIn();
+      await sendUpdate(paymentUpdates({ tgId: TG, userId: user.id, chargeId: 'ch-1', amount: env.STARS_PRICE + 50 }).preCheckout);
+      expect(telegramMock.calls('answerPreCheckoutQuery').map(c => c.body)).toEqual([
+        { pre_checkout_query_id: 'q-ch-1', ok: false, error_message: 'Цена изменилась — открой оплату заново.' }
+      ]);
+    });
+  });
+});
@@ -0,0 +1,33 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { pendingStore } from '../src/bot/pendingStore.js';
+
+describe('pendingStore', () => {
+  afterEach(() => vi.useRealTimers());
+
+  it('drops entries after the ttl', () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const store = pendingStore<string, number>({ ttlMs: 1000, maxSize: 10 });
+    store.set('a', 1);
+    vi.advanceTimersByTime(999);
+    expect(store.get('a')).toBe(1);
+    vi.advanceTimersByTime(1);
+    expect(store.get('a')).toBeUndefined();
+  });
+
+  it('restarts the ttl when an entry is set again', () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const store = pendingStore<string, number>({ ttlMs: 1000, maxSize: 10 });
+    store.set('a', 1);
+    vi.advanceTimersByTime(600);
+    store.set('a', 2);
+    vi.advanceTimersByTime(600);
+    expect(store.get('a')).toBe(2);
+  });
+
+  it('keeps at most maxSize entries, evicting the oldest', () => {
+    const store = pendingStore<number, number>({ ttlMs: 60_000, maxSize: 3 });
+    for (let i = 1; i <= 5; i++) store.set(i, i);
+    expect(store.size).toBe(3);
+    expect([1, 2, 3, 4, 5].map(k => store.get(k))).toEqual([undefined, undefined, 3, 4, 5]);
+  });
+});
@@ -0,0 +1,26 @@
+type QueuedJob = { name: string; data: any; opts: { jobId?: string; delay?: number; priority?: number } };
+
+const jobs = new Map<string, QueuedJob>();
+
+class Queue {
+  async add(name: string, data: any, opts: QueuedJob['opts'] = {}) {
+    const id = opts.jobId ?? String(jobs.size + 1);
+    jobs.set(id, { name, data, opts });
+    return { id, name, data };
+  }
+
+  async remove(id: string) {
+    return jobs.delete(id) ? 1 : 0;
+  }
+}
+
+export const bullmqDouble = { Queue };
+
+/** Jobs the API queued since the last clearQueuedJobs(). */
+export function queuedJobs() {
+  return [...jobs.values()];
+}
+
+export function clearQueuedJobs() {
+  jobs.clear();
+}
@@ -0,0 +1,70 @@
+import { afterAll, beforeEach, describe, expect, it } from 'vitest';
+import { prisma } from '../src/lib/db.js';
+import { backfillTaskReminders } from '../src/lib/reminders.js';
+import { call, closeApp, createFocus, createTask, hasTestDatabase, resetState, userByTgId } from './helpers.js';
+import { queuedJobs } from './queue.js';
+
+const TG = 7101;
+const inDays = (days: number) => new Date(Date.now() + days * 24 * 60 * 60_000).toISOString();
+
+function reminders() {
+  return queuedJobs().filter(j => j.name === 'deadline_reminder');
+}
+
+async function queuedLogs() {
+  return prisma.notificationLog.findMany({ where: { type: 'deadline_reminder', status: 'queued' } });
+}
+
+describe.skipIf(!hasTestDatabase)('deadline reminders', () => {
+  beforeEach(resetState);
+  afterAll(closeApp);
+
+  async function assignedTask(data: Record<string, unknown> = {}) {
+    const focus = await createFocus(TG);
+    const user = await userByTgId(TG);
+    return createTask(TG, focus.id, { due_at: '2099-01-10T15:00:00.000Z', assigned_to_user_id: user.id, ...data });
+  }
+
+  it('moves pending reminders to the new default offsets', async () => {
+    await assignedTask();
+    expect(reminders().map(j => j.data.dedupe.slot)).toEqual([1440]);
+
+    const res = await call(TG, 'PUT', '/me/reminder-settings', { default_due_offsets: [60, 180] });
+    expect(res.status).toBe(200);
+    expect(reminders().map(j => j.data.dedupe.slot)).toEqual([180, 60]);
+    expect((await queuedLogs()).map(l => (l.payload as any).offset_minutes).sort()).toEqual([180, 60].sort());
+  });
+
+  it('rewrites the deadline in the new timezone', async () => {
+    await assignedTask();
+    expect(reminders()[0].data.text).toContain('10 января в 17:00'); // Europe/Helsinki by default
+
+    await call(TG, 'PUT', '/me/reminder-settings', { timezone: 'Asia/Tokyo' });
+    expect(reminders()).toHaveLength(1);
+    expect(reminders()[0].data.text).toContain('11 января в 00:00');
+  });
+
+  it('leaves reminders alone when only quiet hours change', async () => {
+    await assignedTask();
+    const [before] = await queuedLogs();
+    await call(TG, 'PUT', '/me/reminder-settings', { quiet_hours: { start: '23:00', end: '08:00' } });
+    expect((await queuedLogs()).map(l => l.id)).toEqual([before.id]);
+  });
+
+  it('backfills tasks that never got reminders, once', async () => {
+    const task = await assignedTask({ due_at: inDays(3) });
+    const { focus_id, created_by_user_id } = await prisma.task.findUniqueOrThrow({ where: { id: task.id } });
+    // Tasks written before per-task reminders existed have no NotificationLog rows
+    const old = await prisma.task.create({
+      data: { focus_id, created_by_user_id, assigned_to_user_id: created_by_user_id, title: 'Старая', due_at: new Date(inDays(5)) }
+    });
+    await prisma.task.create({ data: { focus_id, created_by_user_id, title: 'Без исполнителя', due_at: new Date(inDays(5)) } });
+    await prisma.task.create({
+      data: { focus_id, created_by_user_id, assigned_to_user_id: created_by_user_id, title: 'Сделана', status: 'done', due_at: new Date(inDays(5)) }
+    });
+
+    expect(await backfillTaskReminders()).toEqual({ tasks: 1, reminders: 1 });
+    expect(await backfillTaskReminders()).toEqual({ tasks: 0, reminders: 0 });
+    expect((await queuedLogs()).map(l => (l.payload as any).task_id).sort()).toEqual([task.id, old.id].sort());
+  });
+});
@@ -0,0 +1,17 @@
+import { afterAll, vi } from 'vitest';
+import { telegramMock } from './telegram.js';
+
+// Before any src module reads env; dotenv never overrides what is already set
+process.env.NODE_ENV = 'test';
+process.env.DATABASE_URL = process.env.TEST_DATABASE_URL ?? 'postgresql://localhost:5432/unused';
+process.env.LLM_PROVIDER = 'fake';
+process.env.EMBEDDINGS_PROVIDER = 'hash';
+process.env.OPENAI_API_KEY = '';
+process.env.TELEGRAM_BOT_TOKEN = '123:test';
+process.env.TELEGRAM_WEBHOOK_SECRET = '';
+process.env.TELEGRAM_API_ROOT = await telegramMock.listen();
+afterAll(() => telegramMock.close());
+
+// No Redis in tests: jobs stay in memory, see queuedJobs() in ./queue.ts
+vi.mock('ioredis', () => ({ Redis: class {} }));
+vi.mock('bullmq', async () => (await import('./queue.js')).bullmqDouble);
@@ -0,0 +1,60 @@
+import { afterAll, beforeEach, describe, expect, it } from 'vitest';
+import { prisma } from '../src/lib/db.js';
+import { addMember, call, closeApp, createFocus, createTask, hasTestDatabase, resetState } from './helpers.js';
+
+const OWNER = 7201;
+const MEMBER = 7202;
+const STRANGER = 7203;
+
+describe.skipIf(!hasTestDatabase)('task assignee', () => {
+  beforeEach(resetState);
+  afterAll(closeApp);
+
+  async function setup() {
+    const focus = await createFocus(OWNER);
+    const member = await addMember(focus.id, MEMBER);
+    // Owns a focus of their own, but is not in this one
+    await createFocus(STRANGER, 'Чужой проект');
+    const stranger = await prisma.user.findUniqueOrThrow({ where: { tg_id: BigInt(STRANGER) } });
+    return { focus, member, stranger };
+  }
+
+  it('must be a member of the focus on create', async () => {
+    const { focus, member, stranger } = await setup();
+
+    const rejected = await call(OWNER, 'POST', `/focuses/${focus.id}/tasks`, { title: 'Задача', assigned_to_user_id: stranger.id });
+    expect(rejected.status).toBe(422);
+    expect(rejected.body.error).toBe('Assignee is not a member of this project');
+    expect(await prisma.task.count({ where: { focus_id: focus.id } })).toBe(0);
+
+    const created = await call(OWNER, 'POST', `/focuses/${focus.id}/tasks`, { title: 'Задача', assigned_to_user_id: member.id });
+    expect(created.status).toBe(201);
+  });
+
+  it('must be a member of the focus on update', async () => {
+    const { focus, member, stranger } = await setup();
+    const task = await createTask(OWNER, focus.id);
+
+    expect((await call(OWNER, 'PATCH', `/tasks/${task.id}`, { assigned_to_user_id: stranger.id })).status).toBe(422);
+    expect((await prisma.task.findUniqueOrThrow({ where: { id: task.id } })).assigned_to_user_id).toBeNull();
+
+    expect((await call(OWNER, 'PATCH', `/tasks/${task.id}`, { assigned_to_user_id: member.id })).status).toBe(200);
+    expect((await call(OWNER, 'PATCH', `/tasks/${task.id}`, { assigned_to_user_id: null })).status).toBe(200);
+  });
+
+  it('must be a member of the focus in plan_to_tasks', async () => {
+    const { focus, member, stranger } = await setup();
+
+    const rejected = await call(OWNER, 'POST', `/focuses/${focus.id}/assistant/plan_to_tasks`, {
+      tasks: [{ title: 'Первая', assigned_to_user_id: member.id }, { title: 'Вторая', assigned_to_user_id: stranger.id }]
+    });
+    expect(rejected.status).toBe(422);
+    expect(await prisma.task.count({ where: { focus_id: focus.id } })).toBe(0);
+
+    const created = await call(OWNER, 'POST', `/focuses/${focus.id}/assistant/plan_to_tasks`, {
+      tasks: [{ title: 'Первая', assigned_to_user_id: member.id }]
+    });
+    expect(created.status).toBe(200);
+    expect(created.body.tasks).toMatchObject([{ title: 'Первая', assigned_to_user_id: member.id }]);
+  });
+});
@@ -0,0 +1,55 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+type BotApiCall = { method: string; body: any };
+type Responder = (body: any) => unknown;
+
+const calls: BotApiCall[] = [];
+const responders = new Map<string, Responder>();
+let server: Server | null = null;
+
+const defaults: Record<string, Responder> = {
+  getMe: () => ({ id: 123, is_bot: true, first_name: 'miniMaks', username: 'minimaks_test_bot' }),
+  sendMessage: (body) => ({ message_id: calls.length, date: 0, chat: { id: body.chat_id, type: 'private' }, text: body.text })
+};
+
+function readBody(req: NodeJS.ReadableStream) {
+  return new Promise<string>((resolve) => {
+    let raw = '';
+    req.on('data', (c) => { raw += c; });
+    req.on('end', () => resolve(raw));
+  });
+}
+
+/**
+ * Stand-in for the Bot API behind TELEGRAM_API_ROOT. Records every call;
+ * methods without a responder answer `true`.
+ */
+export const telegramMock = {
+  async listen() {
+    server = createServer(async (req, res) => {
+      const method = (req.url ?? '').split('/').pop()!.split('?')[0];
+      const raw = await readBody(req);
+      const body = raw ? JSON.parse(raw) : {};
+      calls.push({ method, body });
+      const respond = responders.get(method) ?? defaults[method] ?? (() => true);
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ ok: true, result: respond(body) }));
+    });
+    await new Promise<void>((resolve) => server!.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(server!.address() as AddressInfo).port}`;
+  },
+  close() {
+    return new Promise<void>((resolve) => (server ? server.close(() => resolve()) : resolve()));
+  },
+  respond(method: string, responder: Responder) {
+    responders.set(method, responder);
+  },
+  calls(method?: string) {
+    return method ? calls.filter(c => c.method === method) : [...calls];
+  },
+  reset() {
+    calls.length = 0;
+    responders.clear();
+  }
+};
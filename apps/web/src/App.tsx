@@ -1,25 +1,85 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react';
-import { api, friendlyError } from './api';
+import { api, friendlyError, TRIAL_EXPIRED_TEXT } from './api';
+import { getTelegramWebApp, type InvoiceStatus } from './telegram';
 
 // ── Types ─────────────────────────────────────────────────────────
 type Me = { user: { id: string; tg_id: string; first_name?: string; username?: string } };
+type Role = 'owner' | 'admin' | 'editor' | 'member' | 'viewer';
 type Focus = {
-  id: string; title: string; status: string; role: 'owner' | 'member';
+  id: string; title: string; status: string; role: Role;
+  permissions?: string[];
   _count?: { tasks: number; members: number };
 };
+type SubTask = { id: string; title: string; status: 'todo' | 'done'; position: number };
+type Attachment = { id: string; type: 'link' | 'file'; url?: string | null; file_name?: string | null; mime?: string | null; size?: number | null };
 type Task = {
   id: string; title: string; status: string;
   priority?: 'low' | 'medium' | 'high' | 'urgent';
   due_at?: string | null;
   assigned_to_user_id?: string | null;
+  remind_policy?: { offsets: number[] } | null;
+  source_message_id?: string | null;
+  subtasks?: SubTask[];
+  attachments?: Attachment[];
+};
+type Invite = {
+  id: string; code: string; role: Role; link?: string | null;
+  uses_count: number; max_uses?: number | null; expires_at?: string | null;
+};
+type KpiPoint = { id: string; value: number; recorded_at: string };
+type Kpi = {
+  id: string; name: string; unit?: string | null;
+  target_value?: number | null; current_value?: number | null;
+  history?: KpiPoint[];
+};
+type Member = { user_id: string; role: Role; username?: string | null; first_name?: string | null };
+type Thread = {
+  id: string; title?: string | null; is_private: boolean;
+  archived_at?: string | null; last_message_at: string; can_manage?: boolean;
+  summary?: string | null;
+};
+type Fact = { id: string; text: string; created_by_user_id?: string | null; created_at: string };
+type KnowledgeDoc = {
+  id: string; title: string; source: 'note' | 'text' | 'file' | 'attachment';
+  file_name?: string | null; chunks_count: number; created_at: string; content?: string;
+};
+type Citation = { label: string; doc_id: string; title: string };
+type Suggestion = { title: string; description?: string | null; priority?: Task['priority']; due_at?: string | null };
+// One row of the review sheet; due is a datetime-local value
+type SuggestionDraft = {
+  index: number; checked: boolean; title: string; description: string;
+  priority: NonNullable<Task['priority']>; due: string; assignee: string;
+};
+type AiAction = {
+  id: string; name: string; summary?: string; error?: string;
+  status: 'done' | 'error' | 'pending' | 'applying' | 'applied' | 'failed' | 'rejected';
 };
-type Member = { user_id: string; role: string; username?: string | null; first_name?: string | null };
 type Msg = {
   id: string; role: 'user' | 'assistant'; content: string; created_at: string;
-  meta?: { suggested_tasks?: { title: string; priority?: string }[] };
+  meta?: {
+    suggested_tasks?: Suggestion[]; canceled?: boolean;
+    accepted_suggestions?: { index: number; task_id: string }[];
+    tool_calls?: AiAction[]; acting_user_id?: string; citations?: Citation[];
+  };
+};
+type NotificationType = 'deadline_reminder' | 'overdue' | 'task_assigned' | 'task_commented' | 'task_completed'
+  | 'daily_digest' | 'weekly_summary';
+type ReminderSettings = {
+  timezone: string;
+  quiet_hours: { start: string; end: string } | null;
+  no_due_nudge: { enabled: boolean; after_days: number } | null;
+  default_due_offsets: number[];
+  enabled_types: NotificationType[];
 };
-type Tab = 'tasks' | 'ai' | 'team';
-type Screen = { name: 'home' } | { name: 'project'; focusId: string; tab: Tab };
+type SubscriptionInfo = {
+  subscription: {
+    status: 'trial_active' | 'trial_expired' | 'paid' | 'paid_expired';
+    trial_expires_at: string; paid_until: string | null; auto_renew: boolean;
+  } | null;
+  active: boolean; price_stars: number; period_days: number;
+};
+type Tab = 'tasks' | 'ai' | 'kb' | 'metrics' | 'team';
+type Screen = { name: 'home' } | { name: 'settings' } | { name: 'paywall' } | { name: 'project'; focusId: string; tab: Tab };
 
 // ── Helpers ───────────────────────────────────────────────────────
 function cx(...a: (string | false | null | undefined)[]) { return a.filter(Boolean).join(' '); }
@@ -39,6 +99,18 @@ function dueLabel(d: string): { text: string; cls: string } | null {
   } catch { return null; }
 }
 
+function longDate(d: string) {
+  return new Date(d).toLocaleDateString('ru-RU', { day: 'numeric', month: 'long' });
+}
+
+// ISO → value of <input type="datetime-local"> in the browser's timezone
+function toLocalInput(iso: string | null | undefined) {
+  if (!iso) return '';
+  const d = new Date(iso);
+  if (isNaN(d.getTime())) return '';
+  return new Date(d.getTime() - d.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
 function fmtTime(d: string) {
   try { return new Date(d).toLocaleTimeString('ru-RU', { hour: '2-digit', minute: '2-digit' }); }
   catch { return ''; }
@@ -53,8 +125,79 @@ function memberDisplay(m: Member) {
   return m.first_name || (m.username ? `@${m.username}` : `User …${m.user_id.slice(-4)}`);
 }
 
+function threadLabel(t: Thread) {
+  return `${t.is_private ? '🔒 ' : ''}${t.title || 'Новый чат'}`;
+}
+
+// Same check as the API: only plain-text files go into the knowledge base
+function isTextFile(mime: string | null | undefined, fileName: string | null | undefined) {
+  const type = (mime ?? '').split(';')[0].trim().toLowerCase();
+  return type.startsWith('text/') || ['application/json', 'application/xml', 'application/x-yaml', 'application/csv'].includes(type)
+    || /\.(txt|md|markdown|csv|tsv|json|ya?ml|xml|html?|log)$/i.test(fileName ?? '');
+}
+
+const KB_SOURCE_ICO: Record<KnowledgeDoc['source'], string> = { note: '📝', text: '📋', file: '📄', attachment: '📎' };
+
+function fmtNum(n: number | null | undefined) {
+  return n == null ? '—' : n.toLocaleString('ru-RU', { maximumFractionDigits: 2 });
+}
+
+function kpiPct(k: Kpi) {
+  if (!k.target_value || k.current_value == null) return null;
+  return Math.max(0, Math.min(100, Math.round((k.current_value / k.target_value) * 100)));
+}
+
+// Tiny inline SVG chart of KPI history
+function Sparkline({ points, target }: { points: KpiPoint[]; target?: number | null }) {
+  if (points.length < 2) return null;
+  const W = 280, H = 48, P = 3;
+  const values = points.map(p => p.value);
+  const min = Math.min(...values, target ?? Infinity);
+  const max = Math.max(...values, target ?? -Infinity);
+  const span = max - min || 1;
+  const x = (i: number) => P + (i / (points.length - 1)) * (W - 2 * P);
+  const y = (v: number) => H - P - ((v - min) / span) * (H - 2 * P);
+  const d = points.map((p, i) => `${i ? 'L' : 'M'}${x(i).toFixed(1)},${y(p.value).toFixed(1)}`).join(' ');
+  return (
+    <svg className="spark" viewBox={`0 0 ${W} ${H}`} preserveAspectRatio="none">
+      {target != null && <line x1={0} x2={W} y1={y(target)} y2={y(target)} className="sparkTarget" />}
+      <path d={d} className="sparkLine" />
+      <circle cx={x(points.length - 1)} cy={y(values[values.length - 1])} r={2.5} className="sparkDot" />
+    </svg>
+  );
+}
+
+const ROLE_LBL: Record<Role, string> = {
+  owner: 'Владелец', admin: 'Админ', editor: 'Редактор', member: 'Участник', viewer: 'Наблюдатель'
+};
+const ROLE_ICO: Record<Role, string> = { owner: '👑', admin: '🛡', editor: '✏️', member: '👤', viewer: '👁' };
+const ASSIGNABLE_ROLES: Role[] = ['admin', 'editor', 'member', 'viewer'];
+
+const NOTIFY_LBL: Record<NotificationType, string> = {
+  deadline_reminder: '⏰ Напоминания о дедлайне',
+  overdue: '🚨 Просроченные задачи',
+  task_assigned: '📌 Мне назначили задачу',
+  task_commented: '💬 Комментарии к моим задачам',
+  task_completed: '✅ Мою задачу выполнили',
+  daily_digest: '☀️ Утренний дайджест',
+  weekly_summary: '📊 Недельная сводка (владельцам)'
+};
+// Minutes before due_at
+const OFFSET_PRESETS: { minutes: number; label: string }[] = [
+  { minutes: 15, label: '15 мин' },
+  { minutes: 60, label: '1 час' },
+  { minutes: 180, label: '3 часа' },
+  { minutes: 1440, label: '1 день' },
+  { minutes: 4320, label: '3 дня' }
+];
+const TIMEZONES: string[] = (Intl as any).supportedValuesOf?.('timeZone') ?? [];
+
 const PRIO_CLS: Record<string, string> = { urgent: 'pu', high: 'ph', medium: 'pm', low: 'pl' };
 const PRIO_LBL: Record<string, string> = { urgent: '🔥 срочно', high: '⬆️ высокий', low: '⬇️ низкий' };
+const ACTION_STATE: Record<AiAction['status'], string> = {
+  pending: '⏳ ждёт подтверждения', applying: '⏳ применяется', applied: '✅ применено', rejected: '✕ отменено',
+  failed: '⚠️ не удалось', done: '', error: '⚠️ ошибка'
+};
 
 // ── App ───────────────────────────────────────────────────────────
 export default function App() {
@@ -71,23 +214,56 @@ export default function App() {
   const [joinCode, setJoinCode]   = useState('');
   const [joining, setJoining]     = useState(false);
 
+  // Settings
+  const [settings, setSettings]   = useState<ReminderSettings | null>(null);
+  const [savingSettings, setSavingSettings] = useState(false);
+  const [settingsSaved, setSettingsSaved]   = useState(false);
+
+  // Subscription
+  const [sub, setSub]             = useState<SubscriptionInfo | null>(null);
+  const [paying, setPaying]       = useState(false);
+  const [payState, setPayState]   = useState<InvoiceStatus | 'waiting' | null>(null);
+
   // Project
   const [tasks, setTasks]         = useState<Task[]>([]);
   const [taskTitle, setTaskTitle] = useState('');
   const [addingTask, setAddingTask] = useState(false);
+  const [openTaskId, setOpenTaskId] = useState<string | null>(null);
+  const [subTitle, setSubTitle]   = useState('');
+  const [editSub, setEditSub]     = useState<{ id: string; title: string } | null>(null);
+  const [linkUrl, setLinkUrl]     = useState('');
   const [members, setMembers]     = useState<Member[]>([]);
-  const [inviteCode, setInviteCode] = useState<string | null>(null);
+  const [invite, setInvite]       = useState<Invite | null>(null);
+  const [invites, setInvites]     = useState<Invite[]>([]);
+  const [inviteRole, setInviteRole] = useState<Role>('member');
   const [genInvite, setGenInvite] = useState(false);
-  const [copied, setCopied]       = useState(false);
+  const [copied, setCopied]       = useState<string | null>(null);
+  const [kpis, setKpis]           = useState<Kpi[]>([]);
+  const [kpiForm, setKpiForm]     = useState({ name: '', unit: '', target: '' });
+  const [kpiDrafts, setKpiDrafts] = useState<Record<string, string>>({});
+  const [threads, setThreads]     = useState<Thread[]>([]);
+  const [threadId, setThreadId]   = useState<string | null>(null); // null = the default shared thread, created on first message
+  const [facts, setFacts]         = useState<Fact[]>([]);
+  const [showMemory, setShowMemory] = useState(false);
+  const [factText, setFactText]   = useState('');
+  const [docs, setDocs]           = useState<KnowledgeDoc[]>([]);
+  const [docForm, setDocForm]     = useState({ title: '', content: '' });
+  const [openDoc, setOpenDoc]     = useState<KnowledgeDoc | null>(null);
+  const [addingDoc, setAddingDoc] = useState(false);
   const [msgs, setMsgs]           = useState<Msg[]>([]);
+  const [review, setReview]       = useState<{ msg: Msg; items: SuggestionDraft[] } | null>(null);
+  const [accepting, setAccepting] = useState(false);
   const [aiInput, setAiInput]     = useState('');
   const [aiBusy, setAiBusy]       = useState(false);
+  const [aiDraft, setAiDraft]     = useState<string | null>(null); // reply text streamed so far
+  const aiAbort = useRef<AbortController | null>(null);
   const chatEnd = useRef<HTMLDivElement>(null);
 
   const activeFocus = useMemo(
     () => screen.name === 'project' ? focuses.find(f => f.id === screen.focusId) ?? null : null,
     [screen, focuses]
   );
+  const currentThread = useMemo(() => threads.find(t => t.id === threadId) ?? null, [threads, threadId]);
   const taskStats = useMemo(() => {
     const done = tasks.filter(t => t.status === 'done').length;
     return { done, total: tasks.length, pct: tasks.length ? Math.round((done / tasks.length) * 100) : 0 };
@@ -99,28 +275,66 @@ export default function App() {
   async function loadHome() {
     setLoading(true); setError(null);
     try {
-      const [m, fs] = await Promise.all([api.me(), api.listFocuses()]);
+      const [m, fs, s] = await Promise.all([api.me(), api.listFocuses(), api.subscription()]);
       setMe(m as Me);
       setFocuses((fs as Focus[]) || []);
+      setSub(s as SubscriptionInfo);
     } catch (e) { setError(friendlyError(e)); }
     finally { setLoading(false); }
   }
 
+  // ── Deep link: t.me/<bot>?startapp=<code | task_<id>> ─────────
+  async function joinFromStartParam() {
+    const code = getTelegramWebApp()?.initDataUnsafe?.start_param;
+    // start_param survives reloads of the same launch, so only consume it once
+    if (!code || sessionStorage.getItem('startParamUsed') === code) return false;
+    sessionStorage.setItem('startParamUsed', code);
+    try {
+      // "Open" button under a reminder
+      if (String(code).startsWith('task_')) {
+        const task: any = await api.getTask(String(code).slice(5));
+        await loadHome();
+        await openProject(task.focus_id);
+        setOpenTaskId(task.id);
+        return true;
+      }
+      const res: any = await api.joinByCode(String(code));
+      await loadHome();
+      if (res.focus_id) await openProject(res.focus_id);
+      return true;
+    } catch (e) {
+      setError(friendlyError(e));
+      return false;
+    }
+  }
+
   // ── Open project ──────────────────────────────────────────────
   async function openProject(focusId: string, tab: Tab = 'tasks') {
     setScreen({ name: 'project', focusId, tab });
     setPageKey(k => k + 1);
     setError(null); setLoading(true);
-    setTasks([]); setMembers([]); setMsgs([]); setInviteCode(null);
+    setTasks([]); setMembers([]); setMsgs([]); setKpis([]); setInvite(null); setInvites([]); setOpenTaskId(null);
+    setThreads([]); setThreadId(null); setFacts([]); setShowMemory(false); setDocs([]); setOpenDoc(null);
     try {
-      const [t, thread, mems] = await Promise.all([
+      const [t, ths, mems, ks, fs] = await Promise.all([
         api.listTasks(focusId, 'all'),
-        api.getThread(focusId),
+        api.listThreads(focusId, 'all'),
         api.listMembers(focusId),
+        api.listKpis(focusId),
+        api.listFacts(focusId),
       ]);
       setTasks((t as Task[]) || []);
-      setMsgs((thread as any).messages || []);
+      setThreads((ths as Thread[]) || []);
+      setFacts((fs as Fact[]) || []);
+      // Open the most recently active thread
+      const recent = ((ths as Thread[]) || []).find(th => !th.archived_at);
+      if (recent) {
+        const res: any = await api.getThreadById(recent.id);
+        setThreadId(recent.id);
+        setMsgs(res.messages || []);
+      }
       setMembers((mems as Member[]) || []);
+      setKpis((ks as Kpi[]) || []);
       scrollChat();
     } catch (e) { setError(friendlyError(e)); }
     finally { setLoading(false); }
@@ -128,10 +342,90 @@ export default function App() {
 
   function goHome() {
     setScreen({ name: 'home' }); setPageKey(k => k + 1);
-    setError(null); setTasks([]); setMsgs([]); setMembers([]);
+    setError(null); setTasks([]); setMsgs([]); setThreads([]); setThreadId(null); setMembers([]); setKpis([]);
+  }
+
+  // ── Reminder settings ─────────────────────────────────────────
+  async function openSettings() {
+    setScreen({ name: 'settings' }); setPageKey(k => k + 1);
+    setError(null); setLoading(true); setSettingsSaved(false);
+    try { setSettings(await api.getReminderSettings()); }
+    catch (e) { setError(friendlyError(e)); }
+    finally { setLoading(false); }
+  }
+
+  // ── Paywall ───────────────────────────────────────────────────
+  async function openPaywall() {
+    setScreen({ name: 'paywall' }); setPageKey(k => k + 1);
+    setError(null); setLoading(true); setPayState(null);
+    try { setSub(await api.subscription()); }
+    catch (e) { setError(friendlyError(e)); }
+    finally { setLoading(false); }
   }
 
-  useEffect(() => { loadHome(); }, []);
+  // successful_payment reaches the bot a moment after the client sees "paid"
+  async function waitForPayment() {
+    setPayState('waiting');
+    for (let i = 0; i < 10; i++) {
+      const s: SubscriptionInfo = await api.subscription();
+      if (s.subscription?.status === 'paid' && s.active) { setSub(s); setPayState('paid'); return; }
+      await new Promise(r => setTimeout(r, 1500));
+    }
+    setPayState('pending');
+  }
+
+  async function pay() {
+    setPaying(true); setError(null); setPayState(null);
+    try {
+      const { invoice_link } = await api.createInvoice();
+      const tg = getTelegramWebApp();
+      if (!tg?.openInvoice) {
+        window.open(invoice_link, '_blank');
+        setPayState('pending');
+        return;
+      }
+      tg.openInvoice(invoice_link, status => {
+        if (status === 'paid') waitForPayment().catch(e => setError(friendlyError(e)));
+        else setPayState(status === 'cancelled' ? null : status);
+      });
+    } catch (e) { setError(friendlyError(e)); }
+    finally { setPaying(false); }
+  }
+
+  function patchSettings(patch: Partial<ReminderSettings>) {
+    setSettings(prev => prev && { ...prev, ...patch });
+    setSettingsSaved(false);
+  }
+
+  function toggleOffset(minutes: number) {
+    if (!settings) return;
+    const has = settings.default_due_offsets.includes(minutes);
+    patchSettings({
+      default_due_offsets: has
+        ? settings.default_due_offsets.filter(m => m !== minutes)
+        : [...settings.default_due_offsets, minutes].sort((a, b) => b - a)
+    });
+  }
+
+  function toggleNotifyType(type: NotificationType) {
+    if (!settings) return;
+    const has = settings.enabled_types.includes(type);
+    patchSettings({ enabled_types: has ? settings.enabled_types.filter(t => t !== type) : [...settings.enabled_types, type] });
+  }
+
+  async function saveSettings() {
+    if (!settings) return;
+    setSavingSettings(true); setError(null);
+    try {
+      setSettings(await api.saveReminderSettings(settings));
+      setSettingsSaved(true);
+    } catch (e) { setError(friendlyError(e)); }
+    finally { setSavingSettings(false); }
+  }
+
+  useEffect(() => {
+    joinFromStartParam().then(joined => { if (!joined) loadHome(); });
+  }, []);
 
   // ── Create project ────────────────────────────────────────────
   async function createProject() {
@@ -188,7 +482,165 @@ export default function App() {
     }
   }
 
-  // ── Send AI message ───────────────────────────────────────────
+  // ── Task reminders ────────────────────────────────────────────
+  // null = the assignee's defaults from settings
+  async function toggleTaskReminder(t: Task, minutes: number | null) {
+    let policy: Task['remind_policy'] = null;
+    if (minutes != null) {
+      const current = t.remind_policy?.offsets ?? [];
+      const offsets = current.includes(minutes) ? current.filter(m => m !== minutes) : [...current, minutes];
+      policy = { offsets: offsets.sort((a, b) => b - a) };
+    }
+    setTasks(prev => prev.map(x => x.id === t.id ? { ...x, remind_policy: policy } : x));
+    try {
+      await api.updateTask(t.id, { remind_policy: policy });
+    } catch (e) {
+      setTasks(prev => prev.map(x => x.id === t.id ? { ...x, remind_policy: t.remind_policy } : x));
+      setError(friendlyError(e));
+    }
+  }
+
+  // ── Subtasks (checklist) ──────────────────────────────────────
+  function setSubtasks(taskId: string, fn: (prev: SubTask[]) => SubTask[]) {
+    setTasks(prev => prev.map(x => x.id === taskId ? { ...x, subtasks: fn(x.subtasks ?? []) } : x));
+  }
+
+  function toggleOpenTask(t: Task) {
+    setOpenTaskId(id => id === t.id ? null : t.id);
+    setSubTitle(''); setEditSub(null); setLinkUrl('');
+  }
+
+  async function addSubtask(t: Task) {
+    const title = subTitle.trim();
+    if (!title) return;
+    try {
+      const st = await api.createSubtask(t.id, title);
+      setSubtasks(t.id, prev => [...prev, st as SubTask]);
+      setSubTitle('');
+    } catch (e) { setError(friendlyError(e)); }
+  }
+
+  async function toggleSubtask(t: Task, st: SubTask) {
+    const next = st.status === 'done' ? 'todo' : 'done';
+    setSubtasks(t.id, prev => prev.map(x => x.id === st.id ? { ...x, status: next } : x));
+    try {
+      await api.updateSubtask(t.id, st.id, { status: next });
+    } catch (e) {
+      setSubtasks(t.id, prev => prev.map(x => x.id === st.id ? st : x));
+      setError(friendlyError(e));
+    }
+  }
+
+  async function renameSubtask(t: Task) {
+    if (!editSub) return;
+    const title = editSub.title.trim();
+    setEditSub(null);
+    if (!title) return;
+    try {
+      const st = await api.updateSubtask(t.id, editSub.id, { title });
+      setSubtasks(t.id, prev => prev.map(x => x.id === editSub.id ? st as SubTask : x));
+    } catch (e) { setError(friendlyError(e)); }
+  }
+
+  async function moveSubtask(t: Task, index: number, dir: -1 | 1) {
+    const list = [...(t.subtasks ?? [])];
+    const j = index + dir;
+    if (j < 0 || j >= list.length) return;
+    [list[index], list[j]] = [list[j], list[index]];
+    setSubtasks(t.id, () => list);
+    try {
+      const saved = await api.reorderSubtasks(t.id, list.map(x => x.id));
+      setSubtasks(t.id, () => saved as SubTask[]);
+    } catch (e) {
+      setSubtasks(t.id, () => t.subtasks ?? []);
+      setError(friendlyError(e));
+    }
+  }
+
+  async function deleteSubtask(t: Task, st: SubTask) {
+    setSubtasks(t.id, prev => prev.filter(x => x.id !== st.id));
+    try {
+      await api.deleteSubtask(t.id, st.id);
+    } catch (e) {
+      setSubtasks(t.id, () => t.subtasks ?? []);
+      setError(friendlyError(e));
+    }
+  }
+
+  // ── Attachments ───────────────────────────────────────────────
+  function setAttachments(taskId: string, fn: (prev: Attachment[]) => Attachment[]) {
+    setTasks(prev => prev.map(x => x.id === taskId ? { ...x, attachments: fn(x.attachments ?? []) } : x));
+  }
+
+  async function addLink(t: Task) {
+    const url = linkUrl.trim();
+    if (!url) return;
+    try {
+      const a = await api.addLinkAttachment(t.id, /^https?:\/\//i.test(url) ? url : `https://${url}`);
+      setAttachments(t.id, prev => [...prev, a as Attachment]);
+      setLinkUrl('');
+    } catch (e) { setError(friendlyError(e)); }
+  }
+
+  async function openAttachment(t: Task, a: Attachment) {
+    if (a.type === 'link' && a.url) { window.open(a.url, '_blank'); return; }
+    try {
+      const blob = await api.downloadAttachment(t.id, a.id);
+      const href = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = href; link.download = a.file_name || 'file';
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(href), 10000);
+    } catch (e) { setError(friendlyError(e)); }
+  }
+
+  async function removeAttachment(t: Task, a: Attachment) {
+    setAttachments(t.id, prev => prev.filter(x => x.id !== a.id));
+    try {
+      await api.deleteAttachment(t.id, a.id);
+    } catch (e) {
+      setAttachments(t.id, () => t.attachments ?? []);
+      setError(friendlyError(e));
+    }
+  }
+
+  // ── KPIs ──────────────────────────────────────────────────────
+  async function addKpi() {
+    if (screen.name !== 'project' || !kpiForm.name.trim()) return;
+    const target = kpiForm.target.trim() ? Number(kpiForm.target.replace(',', '.')) : null;
+    if (target != null && !Number.isFinite(target)) { setError('⚠️ Цель должна быть числом.'); return; }
+    try {
+      const k = await api.createKpi(screen.focusId, {
+        name: kpiForm.name.trim(),
+        unit: kpiForm.unit.trim() || null,
+        target_value: target
+      });
+      setKpis(prev => [...prev, k as Kpi]);
+      setKpiForm({ name: '', unit: '', target: '' });
+    } catch (e) { setError(friendlyError(e)); }
+  }
+
+  async function saveKpiValue(k: Kpi) {
+    const raw = (kpiDrafts[k.id] ?? '').trim();
+    if (!raw) return;
+    const value = Number(raw.replace(',', '.'));
+    if (!Number.isFinite(value)) { setError('⚠️ Значение должно быть числом.'); return; }
+    try {
+      const updated = await api.updateKpi(k.id, { current_value: value });
+      setKpis(prev => prev.map(x => x.id === k.id ? updated as Kpi : x));
+      setKpiDrafts(prev => ({ ...prev, [k.id]: '' }));
+    } catch (e) { setError(friendlyError(e)); }
+  }
+
+  async function removeKpi(k: Kpi) {
+    if (!window.confirm(`Удалить метрику «${k.name}» вместе с историей?`)) return;
+    try {
+      await api.deleteKpi(k.id);
+      setKpis(prev => prev.filter(x => x.id !== k.id));
+    } catch (e) { setError(friendlyError(e)); }
+  }
+
+  // ── Send AI message (streamed) ────────────────────────────────
   async function sendAi() {
     if (screen.name !== 'project' || !aiInput.trim() || aiBusy) return;
     const text = aiInput.trim();
@@ -196,46 +648,312 @@ export default function App() {
     const tmp: Msg = { id: `tmp_${Date.now()}`, role: 'user', content: text, created_at: new Date().toISOString() };
     setMsgs(prev => [...prev, tmp]);
     setAiInput(''); scrollChat();
+    const abort = new AbortController();
+    aiAbort.current = abort;
+    let draft = '';
     try {
-      const res: any = await api.sendMessage(screen.focusId, text);
-      if (res.message) setMsgs(prev => [...prev.filter(m => m.id !== tmp.id), res.message]);
+      const message = await api.streamMessage(screen.focusId, { content: text, thread_id: threadId ?? undefined }, {
+        onStart: userMsg => setMsgs(prev => prev.map(m => m.id === tmp.id ? userMsg : m)),
+        onThread: th => { upsertThread(th); setThreadId(th.id); },
+        onDelta: chunk => { draft += chunk; setAiDraft(draft); scrollChat(); }
+      }, abort.signal);
+      setMsgs(prev => [...prev, message]);
       scrollChat();
     } catch (e) {
-      setMsgs(prev => prev.filter(m => m.id !== tmp.id));
-      setError(friendlyError(e));
-    } finally { setAiBusy(false); }
+      if (abort.signal.aborted) {
+        // The API keeps the partial reply, so show it the same way until the next reload
+        if (draft) setMsgs(prev => [...prev, { id: `stop_${Date.now()}`, role: 'assistant', content: draft, created_at: new Date().toISOString(), meta: { canceled: true } }]);
+      } else {
+        if (!draft) setMsgs(prev => prev.filter(m => m.id !== tmp.id));
+        setError(friendlyError(e));
+      }
+    } finally {
+      aiAbort.current = null;
+      setAiDraft(null);
+      setAiBusy(false);
+    }
   }
 
-  // ── Add AI suggested task ─────────────────────────────────────
-  async function addSuggested(title: string) {
+  function stopAi() {
+    aiAbort.current?.abort();
+  }
+
+  // ── Pinned facts ──────────────────────────────────────────────
+  async function pinFact(text: string, sourceMessageId?: string) {
+    if (screen.name !== 'project' || !text.trim()) return;
+    try {
+      const fact = await api.pinFact(screen.focusId, { text: text.trim(), source_message_id: sourceMessageId });
+      setFacts(prev => [...prev, fact as Fact]);
+      setFactText('');
+    } catch (e) { setError(friendlyError(e)); }
+  }
+
+  function pinMessage(m: Msg) {
+    // Messages are long; let the user cut them down to the fact worth keeping
+    const text = window.prompt('Закрепить факт — ассистент будет помнить его во всех чатах проекта', m.content.slice(0, 300));
+    if (text) pinFact(text.slice(0, 300), m.id.startsWith('tmp_') || m.id.startsWith('stop_') ? undefined : m.id);
+  }
+
+  async function unpinFact(f: Fact) {
+    try {
+      await api.unpinFact(f.id);
+      setFacts(prev => prev.filter(x => x.id !== f.id));
+    } catch (e) { setError(friendlyError(e)); }
+  }
+
+  // ── Knowledge base ────────────────────────────────────────────
+  async function loadDocs(focusId: string) {
+    try {
+      setDocs((await api.listKnowledge(focusId)) as KnowledgeDoc[]);
+    } catch (e) { setError(friendlyError(e)); }
+  }
+
+  async function addDoc(body: { title: string; content: string; source: 'note' | 'text' | 'file'; file_name?: string; mime?: string }) {
     if (screen.name !== 'project') return;
+    setAddingDoc(true);
     try {
-      const t = await api.createTask(screen.focusId, { title });
-      setTasks(prev => [t as Task, ...prev]);
+      const doc = await api.createKnowledgeDoc(screen.focusId, body);
+      setDocs(prev => [doc as KnowledgeDoc, ...prev]);
+      setDocForm({ title: '', content: '' });
+    } catch (e) { setError(friendlyError(e)); }
+    finally { setAddingDoc(false); }
+  }
+
+  // Text files are read here, so they never have to pass through Telegram
+  async function uploadDoc(file: File) {
+    if (!isTextFile(file.type, file.name)) { setError('В базу знаний можно добавить только текстовые файлы (.txt, .md, .csv…)'); return; }
+    const content = (await file.text()).trim();
+    if (!content) { setError('Файл пустой'); return; }
+    await addDoc({ title: file.name.replace(/\.[^.]+$/, '') || file.name, content, source: 'file', file_name: file.name, mime: file.type || undefined });
+  }
+
+  async function importAttachment(a: Attachment) {
+    if (screen.name !== 'project') return;
+    try {
+      const doc = await api.importKnowledgeAttachment(screen.focusId, a.id);
+      setDocs(prev => [doc as KnowledgeDoc, ...prev]);
+      window.alert(`«${(doc as KnowledgeDoc).title}» добавлен в базу знаний`);
+    } catch (e) { setError(friendlyError(e)); }
+  }
+
+  async function toggleDoc(d: KnowledgeDoc) {
+    if (openDoc?.id === d.id) { setOpenDoc(null); return; }
+    try { setOpenDoc(await api.getKnowledgeDoc(d.id) as KnowledgeDoc); }
+    catch (e) { setError(friendlyError(e)); }
+  }
+
+  async function removeDoc(d: KnowledgeDoc) {
+    if (!window.confirm(`Удалить «${d.title}» из базы знаний?`)) return;
+    try {
+      await api.deleteKnowledgeDoc(d.id);
+      setDocs(prev => prev.filter(x => x.id !== d.id));
+      if (openDoc?.id === d.id) setOpenDoc(null);
+    } catch (e) { setError(friendlyError(e)); }
+  }
+
+  // ── Assistant threads ─────────────────────────────────────────
+  function upsertThread(th: Thread) {
+    setThreads(prev => {
+      const rest = prev.filter(x => x.id !== th.id);
+      const old = prev.find(x => x.id === th.id);
+      return [{ ...old, ...th }, ...rest].sort((a, b) => b.last_message_at.localeCompare(a.last_message_at));
+    });
+  }
+
+  async function selectThread(id: string) {
+    if (id === threadId || aiBusy) return;
+    setThreadId(id); setMsgs([]);
+    try {
+      const res: any = await api.getThreadById(id);
+      setMsgs(res.messages || []);
+      scrollChat();
     } catch (e) { setError(friendlyError(e)); }
   }
 
+  async function newThread(isPrivate: boolean) {
+    if (screen.name !== 'project' || aiBusy) return;
+    try {
+      const th = await api.createThread(screen.focusId, { is_private: isPrivate });
+      setThreads(prev => [th as Thread, ...prev]);
+      setThreadId(th.id); setMsgs([]);
+    } catch (e) { setError(friendlyError(e)); }
+  }
+
+  async function renameThread(th: Thread) {
+    const title = window.prompt('Название чата', th.title ?? '');
+    if (title === null || !title.trim() || title.trim() === th.title) return;
+    try {
+      upsertThread(await api.updateThread(th.id, { title: title.trim() }));
+    } catch (e) { setError(friendlyError(e)); }
+  }
+
+  async function archiveThread(th: Thread, archived: boolean) {
+    try {
+      upsertThread(await api.updateThread(th.id, { archived }));
+    } catch (e) { setError(friendlyError(e)); }
+  }
+
+  async function removeThread(th: Thread) {
+    if (!window.confirm(`Удалить чат «${threadLabel(th)}» со всей перепиской?`)) return;
+    try {
+      await api.deleteThread(th.id);
+      const rest = threads.filter(x => x.id !== th.id);
+      setThreads(rest);
+      const next = rest.find(x => !x.archived_at);
+      if (next) await selectThread(next.id);
+      else { setThreadId(null); setMsgs([]); }
+    } catch (e) { setError(friendlyError(e)); }
+  }
+
+  // ── Confirm / reject a change proposed by the AI ──────────────
+  async function resolveAiAction(m: Msg, a: AiAction, confirm: boolean) {
+    if (screen.name !== 'project') return;
+    const focusId = screen.focusId;
+    try {
+      const res: any = confirm ? await api.confirmAiAction(m.id, a.id) : await api.rejectAiAction(m.id, a.id);
+      setMsgs(prev => prev.map(x => x.id === m.id ? res.message : x));
+      if (res.action.status !== 'applied') return;
+      if (a.name === 'update_kpi') setKpis((await api.listKpis(focusId)) as Kpi[]);
+      else setTasks((await api.listTasks(focusId, 'all')) as Task[]);
+    } catch (e) { setError(friendlyError(e)); }
+  }
+
+  // ── Add AI suggested task ─────────────────────────────────────
+  // ── Review sheet for suggested tasks ──────────────────────────
+  function openReview(m: Msg) {
+    const accepted = new Set((m.meta?.accepted_suggestions ?? []).map(a => a.index));
+    const items = (m.meta?.suggested_tasks ?? []).flatMap((st, index) => accepted.has(index) ? [] : [{
+      index,
+      checked: true,
+      title: st.title,
+      description: st.description ?? '',
+      priority: st.priority ?? 'medium',
+      due: toLocalInput(st.due_at),
+      assignee: ''
+    }]);
+    if (items.length) setReview({ msg: m, items });
+  }
+
+  function editDraft(index: number, patch: Partial<SuggestionDraft>) {
+    setReview(r => r && { ...r, items: r.items.map(d => d.index === index ? { ...d, ...patch } : d) });
+  }
+
+  async function acceptReview() {
+    if (screen.name !== 'project' || !review) return;
+    const picked = review.items.filter(d => d.checked && d.title.trim());
+    if (!picked.length) return;
+    setAccepting(true);
+    try {
+      const res: any = await api.planToTasks(screen.focusId, picked.map(d => ({
+        suggestion_index: d.index,
+        title: d.title.trim(),
+        description: d.description.trim() || null,
+        priority: d.priority,
+        due_at: d.due ? new Date(d.due).toISOString() : null,
+        assigned_to_user_id: d.assignee || null
+      })), review.msg.id);
+      setTasks(prev => [...(res.tasks as Task[]), ...prev]);
+      if (res.message) setMsgs(prev => prev.map(x => x.id === res.message.id ? res.message : x));
+      setReview(null);
+    } catch (e) { setError(friendlyError(e)); }
+    finally { setAccepting(false); }
+  }
+
   // ── Generate invite code ──────────────────────────────────────
   async function generateInvite() {
     if (screen.name !== 'project') return;
     setGenInvite(true);
     try {
-      const res: any = await api.createInvite(screen.focusId);
-      setInviteCode(res.invite?.code ?? null);
+      const res: any = await api.createInvite(screen.focusId, { role: inviteRole });
+      setInvite(res.invite ?? null);
+      if (res.invite) setInvites(prev => [res.invite, ...prev]);
     } catch (e) { setError(friendlyError(e)); }
     finally { setGenInvite(false); }
   }
 
-  function copyCode() {
-    if (!inviteCode) return;
-    navigator.clipboard.writeText(inviteCode).then(() => {
-      setCopied(true);
-      setTimeout(() => setCopied(false), 2200);
+  // ── Member management ─────────────────────────────────────────
+  async function kickMember(m: Member) {
+    if (screen.name !== 'project') return;
+    if (!window.confirm(`Удалить ${memberDisplay(m)} из проекта? Открытые задачи перейдут владельцу.`)) return;
+    try {
+      await api.removeMember(screen.focusId, m.user_id);
+      await openProject(screen.focusId, 'team');
+    } catch (e) { setError(friendlyError(e)); }
+  }
+
+  async function makeOwner(m: Member) {
+    if (screen.name !== 'project') return;
+    if (!window.confirm(`Передать владение проектом ${memberDisplay(m)}? Ты останешься администратором.`)) return;
+    try {
+      await api.transferOwnership(screen.focusId, m.user_id);
+      setFocuses((await api.listFocuses()) as Focus[]);
+      await openProject(screen.focusId, 'team');
+    } catch (e) { setError(friendlyError(e)); }
+  }
+
+  async function changeRole(m: Member, role: Role) {
+    if (screen.name !== 'project' || role === m.role) return;
+    setMembers(prev => prev.map(x => x.user_id === m.user_id ? { ...x, role } : x));
+    try {
+      await api.setMemberRole(screen.focusId, m.user_id, role);
+    } catch (e) {
+      setMembers(prev => prev.map(x => x.user_id === m.user_id ? m : x));
+      setError(friendlyError(e));
+    }
+  }
+
+  async function leaveProject() {
+    if (screen.name !== 'project') return;
+    if (!window.confirm('Покинуть проект? Твои открытые задачи перейдут владельцу.')) return;
+    try {
+      await api.leaveFocus(screen.focusId);
+      setFocuses(prev => prev.filter(f => f.id !== screen.focusId));
+      goHome();
+    } catch (e) { setError(friendlyError(e)); }
+  }
+
+  async function loadInvites(focusId: string) {
+    try {
+      setInvites((await api.listInvites(focusId)) as Invite[]);
+    } catch (e) { setError(friendlyError(e)); }
+  }
+
+  async function revokeInvite(inv: Invite) {
+    if (screen.name !== 'project') return;
+    if (!window.confirm(`Отозвать приглашение ${inv.code}? Код перестанет работать.`)) return;
+    try {
+      await api.revokeInvite(screen.focusId, inv.id);
+      setInvites(prev => prev.filter(x => x.id !== inv.id));
+      if (invite?.id === inv.id) setInvite(null);
+    } catch (e) { setError(friendlyError(e)); }
+  }
+
+  // Prefer the deep link: opening it joins the project without typing the code
+  function copyInvite(inv: Invite) {
+    navigator.clipboard.writeText(inv.link || inv.code).then(() => {
+      setCopied(inv.id);
+      setTimeout(() => setCopied(null), 2200);
     });
   }
 
   // ── Render ────────────────────────────────────────────────────
   const isOwner = activeFocus?.role === 'owner';
+  const can = (action: string) => !!activeFocus?.permissions?.includes(action);
+  const canEditTask = (t: Task) =>
+    can('task.edit_any') || (can('task.edit_own') && !!me && t.assigned_to_user_id === me.user.id);
+  const canInvite = can('member.invite');
+
+  const teamFocusId = screen.name === 'project' && screen.tab === 'team' ? screen.focusId : null;
+
+  useEffect(() => {
+    if (teamFocusId && canInvite) loadInvites(teamFocusId);
+  }, [teamFocusId, canInvite]);
+
+  const kbFocusId = screen.name === 'project' && screen.tab === 'kb' ? screen.focusId : null;
+
+  useEffect(() => {
+    if (kbFocusId) loadDocs(kbFocusId);
+  }, [kbFocusId]);
 
   return (
     <div className="app">
@@ -246,25 +964,41 @@ export default function App() {
           <div className="brandMark">BA</div>
           <div>
             <div className="brandName">
-              {screen.name === 'home' ? 'miniMaks' : (activeFocus?.title ?? 'Проект')}
+              {screen.name === 'home' ? 'miniMaks'
+                : screen.name === 'settings' ? 'Настройки'
+                : screen.name === 'paywall' ? 'Подписка'
+                : (activeFocus?.title ?? 'Проект')}
             </div>
             <div className="brandSub">
               {screen.name === 'home'
                 ? `Привет, ${userName(me)} 👋`
-                : activeFocus?.role === 'owner' ? '👑 Владелец' : '👤 Участник'}
+                : screen.name === 'settings' ? 'Напоминания и уведомления'
+                : screen.name === 'paywall' ? 'Оплата через Telegram Stars'
+                : activeFocus ? `${ROLE_ICO[activeFocus.role]} ${ROLE_LBL[activeFocus.role]}` : ''}
             </div>
           </div>
         </div>
-        {screen.name === 'project'
-          ? <button className="iconBtn" onClick={goHome}>←</button>
-          : <button className="iconBtn" onClick={loadHome}>↻</button>
-        }
+        {screen.name === 'home' ? (
+          <div className="row">
+            <button className="iconBtn" title="Настройки" onClick={openSettings}>⚙️</button>
+            <button className="iconBtn" onClick={loadHome}>↻</button>
+          </div>
+        ) : (
+          <button className="iconBtn" onClick={goHome}>←</button>
+        )}
       </header>
 
       <div className="content" key={pageKey}>
 
         {/* Alert */}
-        {error && <div className="alert">⚠️ {error}</div>}
+        {error && (
+          <div className="alert">
+            ⚠️ {error}
+            {error === TRIAL_EXPIRED_TEXT && screen.name !== 'paywall' && (
+              <button className="btn btnSm btnPrimary alertAction" onClick={openPaywall}>⭐ Оформить подписку</button>
+            )}
+          </div>
+        )}
 
         {/* Skeleton */}
         {loading && (
@@ -287,6 +1021,19 @@ export default function App() {
               <p className="heroText">Создавай проекты, зови команду по коду и общайся с ИИ-ассистентом.</p>
             </div>
 
+            {/* Subscription */}
+            {sub?.subscription && (
+              <button className={cx('subBanner', !sub.active && 'subBannerWarn')} onClick={openPaywall}>
+                <span>
+                  {!sub.active ? (sub.subscription.status === 'paid_expired' ? '⌛ Подписка закончилась' : '⏳ Пробный период закончился')
+                    : sub.subscription.status === 'paid'
+                      ? `⭐ Подписка${sub.subscription.paid_until ? ` до ${longDate(sub.subscription.paid_until)}` : ''}`
+                      : `🎁 Пробный период до ${longDate(sub.subscription.trial_expires_at)}`}
+                </span>
+                {sub.subscription.status !== 'paid' && <span className="subBannerCta">Оформить →</span>}
+              </button>
+            )}
+
             {/* Stats */}
             {focuses.length > 0 && (
               <div className="statsRow">
@@ -365,7 +1112,7 @@ export default function App() {
                       </span>
                     </div>
                     <div className="projMeta">
-                      {f._count?.tasks ?? 0} задач · {f._count?.members ?? 1} чел. · {f.role === 'owner' ? 'владелец' : 'участник'}
+                      {f._count?.tasks ?? 0} задач · {f._count?.members ?? 1} чел. · {ROLE_LBL[f.role].toLowerCase()}
                     </div>
                     <div className="projArrow">Открыть →</div>
                   </button>
@@ -378,6 +1125,160 @@ export default function App() {
         {/* ══════════════════════════════════
             PROJECT — задачи / ИИ / команда
             ══════════════════════════════════ */}
+        {/* ══════════════════════════════════
+            SETTINGS — напоминания
+            ══════════════════════════════════ */}
+        {/* ══════════════════════════════════
+            PAYWALL
+            ══════════════════════════════════ */}
+        {!loading && screen.name === 'paywall' && sub && (
+          <div className="pageIn settingsPage">
+            <div className="card paywall">
+              <div className="paywallPrice">⭐ {sub.price_stars}<span> / {sub.period_days} дней</span></div>
+              <ul className="paywallList">
+                <li>Проекты и задачи без ограничений пробного периода</li>
+                <li>ИИ-ассистент с увеличенным лимитом</li>
+                <li>Приглашения в команду и база знаний</li>
+              </ul>
+              {sub.subscription?.status === 'paid' && sub.active ? (
+                <div className="paywallState">
+                  ✅ Подписка активна{sub.subscription.paid_until && ` до ${longDate(sub.subscription.paid_until)}`}
+                  {sub.subscription.auto_renew && ' · продлевается автоматически'}
+                </div>
+              ) : (
+                <div className="paywallState">
+                  {sub.subscription?.status === 'trial_active' && sub.active
+                    ? `Пробный период до ${longDate(sub.subscription.trial_expires_at)}`
+                    : sub.subscription?.status === 'paid_expired' ? 'Подписка закончилась' : 'Пробный период закончился'}
+                </div>
+              )}
+              {payState === 'waiting' && <div className="paywallState">⏳ Проверяем оплату…</div>}
+              {payState === 'pending' && <div className="paywallState">Как только оплата пройдёт, подписка включится сама.</div>}
+              {payState === 'failed' && <div className="paywallState">⚠️ Оплата не прошла. Попробуй ещё раз.</div>}
+              {payState === 'paid' && <div className="paywallState">🎉 Спасибо! Оплата получена.</div>}
+              {!(sub.subscription?.status === 'paid' && sub.subscription.auto_renew && sub.active) && (
+                <button className="btn btnPrimary" disabled={paying || payState === 'waiting'} onClick={pay}>
+                  {paying ? '...' : sub.subscription?.status === 'paid' && sub.active ? `Продлить за ⭐ ${sub.price_stars}` : `Оплатить ⭐ ${sub.price_stars}`}
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {!loading && screen.name === 'settings' && settings && (
+          <div className="pageIn settingsPage">
+            <div className="card">
+              <div className="cardLabel">Часовой пояс</div>
+              <input
+                className="input"
+                list="tzList"
+                value={settings.timezone}
+                onChange={e => patchSettings({ timezone: e.target.value })}
+              />
+              <datalist id="tzList">
+                {TIMEZONES.map(tz => <option key={tz} value={tz} />)}
+              </datalist>
+              <button
+                className="btn btnSm btnGhost"
+                style={{ marginTop: 8 }}
+                onClick={() => patchSettings({ timezone: Intl.DateTimeFormat().resolvedOptions().timeZone })}
+              >
+                📍 Определить автоматически
+              </button>
+            </div>
+
+            <div className="card">
+              <div className="cardLabel">Уведомления</div>
+              {(Object.keys(NOTIFY_LBL) as NotificationType[]).map(t => (
+                <label key={t} className="settingRow">
+                  <input type="checkbox" checked={settings.enabled_types.includes(t)} onChange={() => toggleNotifyType(t)} />
+                  <span>{NOTIFY_LBL[t]}</span>
+                </label>
+              ))}
+            </div>
+
+            <div className="card">
+              <div className="cardLabel">Тихие часы</div>
+              <label className="settingRow">
+                <input
+                  type="checkbox"
+                  checked={!!settings.quiet_hours}
+                  onChange={e => patchSettings({ quiet_hours: e.target.checked ? { start: '23:00', end: '08:00' } : null })}
+                />
+                <span>Не беспокоить ночью</span>
+              </label>
+              {settings.quiet_hours && (
+                <div className="row" style={{ marginTop: 8 }}>
+                  <input
+                    className="input"
+                    type="time"
+                    value={settings.quiet_hours.start}
+                    onChange={e => patchSettings({ quiet_hours: { ...settings.quiet_hours!, start: e.target.value } })}
+                  />
+                  <span className="hint" style={{ marginTop: 0 }}>—</span>
+                  <input
+                    className="input"
+                    type="time"
+                    value={settings.quiet_hours.end}
+                    onChange={e => patchSettings({ quiet_hours: { ...settings.quiet_hours!, end: e.target.value } })}
+                  />
+                </div>
+              )}
+              <div className="hint">Уведомления, попавшие в тихие часы, придут после их окончания.</div>
+            </div>
+
+            <div className="card">
+              <div className="cardLabel">Напоминать до дедлайна</div>
+              <div className="chipRow">
+                {OFFSET_PRESETS.map(o => (
+                  <button
+                    key={o.minutes}
+                    className={cx('chip', settings.default_due_offsets.includes(o.minutes) && 'chipActive')}
+                    onClick={() => toggleOffset(o.minutes)}
+                  >
+                    {o.label}
+                  </button>
+                ))}
+              </div>
+              <div className="hint">Используется для задач, у которых не настроены свои напоминания.</div>
+            </div>
+
+            <div className="card">
+              <div className="cardLabel">Задачи без срока</div>
+              <label className="settingRow">
+                <input
+                  type="checkbox"
+                  checked={!!settings.no_due_nudge?.enabled}
+                  onChange={e => patchSettings({
+                    no_due_nudge: { enabled: e.target.checked, after_days: settings.no_due_nudge?.after_days ?? 3 }
+                  })}
+                />
+                <span>Напоминать назначить дедлайн</span>
+              </label>
+              {settings.no_due_nudge?.enabled && (
+                <div className="row" style={{ marginTop: 8 }}>
+                  <span className="hint" style={{ marginTop: 0 }}>через</span>
+                  <input
+                    className="input"
+                    type="number"
+                    min={1}
+                    max={30}
+                    value={settings.no_due_nudge.after_days}
+                    onChange={e => patchSettings({
+                      no_due_nudge: { enabled: true, after_days: Math.max(1, Math.min(30, Number(e.target.value) || 1)) }
+                    })}
+                  />
+                  <span className="hint" style={{ marginTop: 0 }}>дн.</span>
+                </div>
+              )}
+            </div>
+
+            <button className="btn btnPrimary" disabled={savingSettings} onClick={saveSettings}>
+              {savingSettings ? 'Сохраняю…' : settingsSaved ? '✓ Сохранено' : 'Сохранить'}
+            </button>
+          </div>
+        )}
+
         {!loading && screen.name === 'project' && activeFocus && (
           <div className="pageIn">
 
@@ -391,6 +1292,14 @@ export default function App() {
                 className={cx('tab', screen.tab === 'ai' && 'tabActive')}
                 onClick={() => setScreen({ ...screen, tab: 'ai' })}
               >🤖 ИИ</button>
+              <button
+                className={cx('tab', screen.tab === 'kb' && 'tabActive')}
+                onClick={() => setScreen({ ...screen, tab: 'kb' })}
+              >📚 База</button>
+              <button
+                className={cx('tab', screen.tab === 'metrics' && 'tabActive')}
+                onClick={() => setScreen({ ...screen, tab: 'metrics' })}
+              >📈 Метрики</button>
               <button
                 className={cx('tab', screen.tab === 'team' && 'tabActive')}
                 onClick={() => setScreen({ ...screen, tab: 'team' })}
@@ -414,8 +1323,8 @@ export default function App() {
                   </div>
                 )}
 
-                {/* Add task (owner only) */}
-                {isOwner && (
+                {/* Add task (editors and up) */}
+                {can('task.create') && (
                   <div className="card">
                     <div className="cardLabel">Новая задача</div>
                     <div className="row">
@@ -442,7 +1351,7 @@ export default function App() {
                 {tasks.length === 0 ? (
                   <div className="empty">
                     <span className="emptyIco">✅</span>
-                    {isOwner
+                    {can('task.create')
                       ? 'Добавь первую задачу или попроси ИИ составить план.'
                       : 'Владелец проекта пока не добавил задачи.'}
                   </div>
@@ -450,14 +1359,22 @@ export default function App() {
                   <div className="taskList">
                     {tasks.map(t => {
                       const dl = t.due_at ? dueLabel(t.due_at) : null;
+                      const subs = t.subtasks ?? [];
+                      const subsDone = subs.filter(st => st.status === 'done').length;
+                      const isOpen = openTaskId === t.id;
+                      const editable = canEditTask(t);
                       return (
                         <div key={t.id} className={cx('taskCard', PRIO_CLS[t.priority ?? 'medium'])}>
                           <button
                             className={cx('check', t.status === 'done' && 'checkDone')}
+                            disabled={!editable}
                             onClick={() => toggleTask(t)}
                           >{t.status === 'done' ? '✓' : ''}</button>
                           <div className="taskBody">
-                            <div className={cx('taskTitle', t.status === 'done' && 'taskTitleDone')}>
+                            <div
+                              className={cx('taskTitle', 'taskTitleBtn', t.status === 'done' && 'taskTitleDone')}
+                              onClick={() => toggleOpenTask(t)}
+                            >
                               {t.title}
                             </div>
                             <div className="taskTags">
@@ -467,8 +1384,114 @@ export default function App() {
                                 </span>
                               )}
                               {dl && <span className={cx('taskTag', dl.cls)}>🗓 {dl.text}</span>}
+                              {subs.length > 0 && (
+                                <span className={cx('taskTag', subsDone === subs.length && 'grn')}>☑ {subsDone}/{subs.length}</span>
+                              )}
+                              {(t.attachments?.length ?? 0) > 0 && <span className="taskTag">📎 {t.attachments!.length}</span>}
+                              {t.source_message_id && <span className="taskTag" title="Добавлена из предложений ассистента">🤖</span>}
                               {t.status === 'done' && <span className="taskTag grn">✓ готово</span>}
                             </div>
+
+                            {/* Checklist */}
+                            {isOpen && (
+                              <div className="subList">
+                                {subs.map((st, i) => (
+                                  <div key={st.id} className="subRow">
+                                    <button
+                                      className={cx('check', 'checkSm', st.status === 'done' && 'checkDone')}
+                                      disabled={!editable}
+                                      onClick={() => toggleSubtask(t, st)}
+                                    >{st.status === 'done' ? '✓' : ''}</button>
+                                    {editSub?.id === st.id ? (
+                                      <input
+                                        className="input subInput"
+                                        autoFocus
+                                        value={editSub.title}
+                                        onChange={e => setEditSub({ id: st.id, title: e.target.value })}
+                                        onKeyDown={e => { if (e.key === 'Enter') renameSubtask(t); if (e.key === 'Escape') setEditSub(null); }}
+                                        onBlur={() => renameSubtask(t)}
+                                      />
+                                    ) : (
+                                      <span
+                                        className={cx('subTitle', st.status === 'done' && 'taskTitleDone')}
+                                        onClick={() => editable && setEditSub({ id: st.id, title: st.title })}
+                                      >{st.title}</span>
+                                    )}
+                                    {editable && (
+                                      <div className="subActions">
+                                        <button className="subBtn" disabled={i === 0} onClick={() => moveSubtask(t, i, -1)}>↑</button>
+                                        <button className="subBtn" disabled={i === subs.length - 1} onClick={() => moveSubtask(t, i, 1)}>↓</button>
+                                        <button className="subBtn" onClick={() => deleteSubtask(t, st)}>✕</button>
+                                      </div>
+                                    )}
+                                  </div>
+                                ))}
+                                {subs.length === 0 && !editable && <div className="hint">Шагов пока нет.</div>}
+                                {editable && (
+                                  <div className="row" style={{ marginTop: 6 }}>
+                                    <input
+                                      className="input subInput"
+                                      placeholder="Новый шаг..."
+                                      value={subTitle}
+                                      onChange={e => setSubTitle(e.target.value)}
+                                      onKeyDown={e => e.key === 'Enter' && addSubtask(t)}
+                                    />
+                                    <button className="btn btnSm btnGhost" disabled={!subTitle.trim()} onClick={() => addSubtask(t)}>+</button>
+                                  </div>
+                                )}
+
+                                {/* Attachments */}
+                                {(t.attachments ?? []).map(a => (
+                                  <div key={a.id} className="subRow">
+                                    <span className="subIco">{a.type === 'link' ? '🔗' : '📄'}</span>
+                                    <span className="subTitle attName" onClick={() => openAttachment(t, a)}>
+                                      {a.file_name || a.url || 'файл'}
+                                    </span>
+                                    {(editable || (a.type === 'file' && can('knowledge.manage'))) && (
+                                      <div className="subActions">
+                                        {a.type === 'file' && can('knowledge.manage') && isTextFile(a.mime, a.file_name) && (
+                                          <button className="subBtn" title="Добавить в базу знаний" onClick={() => importAttachment(a)}>📚</button>
+                                        )}
+                                        {editable && <button className="subBtn" onClick={() => removeAttachment(t, a)}>✕</button>}
+                                      </div>
+                                    )}
+                                  </div>
+                                ))}
+                                {editable && (
+                                  <>
+                                    <div className="row">
+                                      <input
+                                        className="input subInput"
+                                        placeholder="Ссылка (https://...)"
+                                        value={linkUrl}
+                                        onChange={e => setLinkUrl(e.target.value)}
+                                        onKeyDown={e => e.key === 'Enter' && addLink(t)}
+                                      />
+                                      <button className="btn btnSm btnGhost" disabled={!linkUrl.trim()} onClick={() => addLink(t)}>🔗</button>
+                                    </div>
+                                    <div className="hint" style={{ marginTop: 0 }}>Файлы отправляй боту в личку — он предложит выбрать задачу.</div>
+                                  </>
+                                )}
+
+                                {/* Reminders */}
+                                {editable && t.due_at && t.status !== 'done' && (
+                                  <div className="chipRow" style={{ marginTop: 4 }}>
+                                    <span className="subIco">🔔</span>
+                                    <button
+                                      className={cx('chip', !t.remind_policy && 'chipActive')}
+                                      onClick={() => toggleTaskReminder(t, null)}
+                                    >по умолчанию</button>
+                                    {OFFSET_PRESETS.map(o => (
+                                      <button
+                                        key={o.minutes}
+                                        className={cx('chip', t.remind_policy?.offsets.includes(o.minutes) && 'chipActive')}
+                                        onClick={() => toggleTaskReminder(t, o.minutes)}
+                                      >{o.label}</button>
+                                    ))}
+                                  </div>
+                                )}
+                              </div>
+                            )}
                           </div>
                         </div>
                       );
@@ -481,6 +1504,78 @@ export default function App() {
             {/* ─── AI TAB ─── */}
             {screen.tab === 'ai' && (
               <div className="chatWrap">
+                <div className="threadBar">
+                  <select
+                    className="input"
+                    value={threadId ?? ''}
+                    disabled={aiBusy}
+                    onChange={e => selectThread(e.target.value)}
+                  >
+                    {!threadId && <option value="">Новый чат</option>}
+                    {threads.filter(t => !t.archived_at).map(t => <option key={t.id} value={t.id}>{threadLabel(t)}</option>)}
+                    {threads.some(t => t.archived_at) && (
+                      <optgroup label="Архив">
+                        {threads.filter(t => t.archived_at).map(t => <option key={t.id} value={t.id}>{threadLabel(t)}</option>)}
+                      </optgroup>
+                    )}
+                  </select>
+                  <button
+                    className={cx('iconBtn', showMemory && 'iconBtnOn')}
+                    title="Что помнит ассистент"
+                    onClick={() => setShowMemory(v => !v)}
+                  >📌</button>
+                  {can('assistant.chat') && (
+                    <>
+                      <button className="iconBtn" title="Новый общий чат" disabled={aiBusy} onClick={() => newThread(false)}>＋</button>
+                      <button className="iconBtn" title="Новый личный чат — видишь только ты" disabled={aiBusy} onClick={() => newThread(true)}>🔒</button>
+                    </>
+                  )}
+                  {currentThread?.can_manage && (
+                    <>
+                      <button className="iconBtn" title="Переименовать" onClick={() => renameThread(currentThread)}>✎</button>
+                      <button
+                        className="iconBtn"
+                        title={currentThread.archived_at ? 'Вернуть из архива' : 'В архив'}
+                        disabled={aiBusy}
+                        onClick={() => archiveThread(currentThread, !currentThread.archived_at)}
+                      >{currentThread.archived_at ? '↩' : '🗄'}</button>
+                      <button className="iconBtn" title="Удалить чат" disabled={aiBusy} onClick={() => removeThread(currentThread)}>🗑</button>
+                    </>
+                  )}
+                </div>
+                {showMemory && (
+                  <div className="card memoryPanel">
+                    <div className="aiSugLabel">📌 Закреплённые факты · видны ассистенту во всех чатах</div>
+                    {facts.length === 0 && <p className="hint">Пока пусто. Закрепи решение или цифру, чтобы ассистент не забыл их в длинной переписке.</p>}
+                    {facts.map(f => (
+                      <div key={f.id} className="factRow">
+                        <span>{f.text}</span>
+                        {(f.created_by_user_id === me?.user.id ? can('assistant.chat') : can('assistant.manage')) && (
+                          <button className="factDel" title="Открепить" onClick={() => unpinFact(f)}>✕</button>
+                        )}
+                      </div>
+                    ))}
+                    {can('assistant.chat') && (
+                      <div className="row" style={{ marginTop: 6 }}>
+                        <input
+                          className="input"
+                          placeholder="Например: средний чек — 2 400 ₽"
+                          maxLength={300}
+                          value={factText}
+                          onChange={e => setFactText(e.target.value)}
+                          onKeyDown={e => { if (e.key === 'Enter') pinFact(factText); }}
+                        />
+                        <button className="btn btnGhost btnSm" disabled={!factText.trim()} onClick={() => pinFact(factText)}>Закрепить</button>
+                      </div>
+                    )}
+                    {currentThread?.summary && (
+                      <details className="memorySummary">
+                        <summary>🧠 Конспект ранней переписки этого чата</summary>
+                        <div className="bText">{currentThread.summary}</div>
+                      </details>
+                    )}
+                  </div>
+                )}
                 {msgs.length === 0 && !aiBusy ? (
                   <div className="empty">
                     <span className="emptyIco">🤖</span>
@@ -492,22 +1587,68 @@ export default function App() {
                       <div key={m.id} className={cx('bRow', m.role === 'assistant' ? 'bLeft' : 'bRight')}>
                         <div className={cx('bubble', m.role === 'assistant' ? 'bubbleA' : 'bubbleU')}>
                           <div className="bText">{m.content}</div>
-                          <div className="bTime">{fmtTime(m.created_at)}</div>
-                          {m.role === 'assistant' && (m.meta?.suggested_tasks?.length ?? 0) > 0 && (
+                          <div className="bTime">
+                            {m.meta?.canceled && '⏹ остановлено · '}{fmtTime(m.created_at)}
+                            {can('assistant.chat') && (
+                              <button className="pinBtn" title="Закрепить как факт" onClick={() => pinMessage(m)}>📌</button>
+                            )}
+                          </div>
+                          {m.role === 'assistant' && (m.meta?.citations?.length ?? 0) > 0 && (
+                            <div className="citations">
+                              📚 Источники: {m.meta!.citations!.map(c => (
+                                <button key={c.doc_id} className="citation" onClick={() => setScreen({ ...screen, tab: 'kb' })}>[{c.label}] {c.title}</button>
+                              ))}
+                            </div>
+                          )}
+                          {m.role === 'assistant' && m.meta?.tool_calls?.some(a => a.summary) && (
                             <div>
-                              <div className="aiSugLabel">💡 Предложенные задачи</div>
-                              {m.meta!.suggested_tasks!.map((st, i) => (
-                                <div key={i} className="aiSug">
-                                  <span>{st.title}</span>
-                                  <button className="aiSugBtn" onClick={() => addSuggested(st.title)}>+ В задачи</button>
+                              <div className="aiSugLabel">🛠 Изменения</div>
+                              {m.meta.tool_calls.filter(a => a.summary).map(a => (
+                                <div key={a.id} className={cx('aiSug', `aiAction_${a.status}`)}>
+                                  <span>{a.summary}</span>
+                                  {a.status === 'pending' && m.meta!.acting_user_id === me?.user.id ? (
+                                    <span className="aiActionBtns">
+                                      <button className="aiSugBtn" onClick={() => resolveAiAction(m, a, true)}>✓ Применить</button>
+                                      <button className="aiSugBtn aiSugBtnGhost" onClick={() => resolveAiAction(m, a, false)}>✕</button>
+                                    </span>
+                                  ) : (
+                                    <span className="aiActionState" title={a.error}>{ACTION_STATE[a.status]}</span>
+                                  )}
                                 </div>
                               ))}
                             </div>
                           )}
+                          {m.role === 'assistant' && (m.meta?.suggested_tasks?.length ?? 0) > 0 && (() => {
+                            const accepted = new Set((m.meta!.accepted_suggestions ?? []).map(a => a.index));
+                            const left = m.meta!.suggested_tasks!.length - accepted.size;
+                            return (
+                              <div>
+                                <div className="aiSugLabel">💡 Предложенные задачи</div>
+                                {m.meta!.suggested_tasks!.map((st, i) => (
+                                  <div key={i} className={cx('aiSug', accepted.has(i) && 'aiSugDone')}>
+                                    <span>{st.title}</span>
+                                    {accepted.has(i) && <span className="aiActionState">✓ в задачах</span>}
+                                  </div>
+                                ))}
+                                {can('task.create') && left > 0 && !m.id.startsWith('tmp_') && !m.id.startsWith('stop_') && (
+                                  <button className="aiSugBtn aiSugReview" onClick={() => openReview(m)}>
+                                    Просмотреть и добавить ({left})
+                                  </button>
+                                )}
+                              </div>
+                            );
+                          })()}
                         </div>
                       </div>
                     ))}
-                    {aiBusy && (
+                    {aiBusy && aiDraft !== null && (
+                      <div className="bRow bLeft">
+                        <div className="bubble bubbleA">
+                          <div className="bText">{aiDraft}<span className="caret" /></div>
+                        </div>
+                      </div>
+                    )}
+                    {aiBusy && aiDraft === null && (
                       <div className="bRow bLeft">
                         <div className="bubble bubbleA typing">
                           <div className="tdot" /><div className="tdot" /><div className="tdot" />
@@ -517,41 +1658,305 @@ export default function App() {
                     <div ref={chatEnd} />
                   </div>
                 )}
-                <div className="composer">
-                  <textarea
-                    className="textarea"
-                    placeholder="Напиши ассистенту... (Enter — отправить)"
-                    value={aiInput}
-                    onChange={e => setAiInput(e.target.value)}
-                    onKeyDown={e => { if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); sendAi(); } }}
-                    rows={2}
-                  />
+                {!can('assistant.chat') ? (
+                  <p className="hint" style={{ textAlign: 'center' }}>👁 Режим просмотра — писать ассистенту нельзя.</p>
+                ) : currentThread?.archived_at ? (
+                  <p className="hint" style={{ textAlign: 'center' }}>🗄 Чат в архиве — верни его, чтобы продолжить.</p>
+                ) : (
+                  <>
+                    <div className="composer">
+                      <textarea
+                        className="textarea"
+                        placeholder="Напиши ассистенту... (Enter — отправить)"
+                        value={aiInput}
+                        onChange={e => setAiInput(e.target.value)}
+                        onKeyDown={e => { if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); sendAi(); } }}
+                        rows={2}
+                      />
+                      {aiBusy ? (
+                        <button
+                          className="btn btnGhost"
+                          style={{ alignSelf: 'flex-end', padding: '8px 13px' }}
+                          title="Остановить ответ"
+                          onClick={stopAi}
+                        >■</button>
+                      ) : (
+                        <button
+                          className="btn btnPrimary"
+                          style={{ alignSelf: 'flex-end', padding: '8px 13px' }}
+                          disabled={!aiInput.trim()}
+                          onClick={sendAi}
+                        >↑</button>
+                      )}
+                    </div>
+                    <p className="hint" style={{ textAlign: 'center' }}>Shift+Enter — перенос строки</p>
+                  </>
+                )}
+              </div>
+            )}
+
+            {/* Review sheet for suggested tasks */}
+            {review && (
+              <div className="sheetBackdrop" onClick={() => !accepting && setReview(null)}>
+                <div className="sheet" onClick={e => e.stopPropagation()}>
+                  <div className="sheetHead">
+                    <span className="secTitle">Предложенные задачи</span>
+                    <button className="factDel" title="Закрыть" disabled={accepting} onClick={() => setReview(null)}>✕</button>
+                  </div>
+                  <div className="sheetBody">
+                    {review.items.map(d => (
+                      <div key={d.index} className={cx('card', 'sugDraft', !d.checked && 'sugDraftOff')}>
+                        <div className="row">
+                          <input type="checkbox" checked={d.checked} onChange={e => editDraft(d.index, { checked: e.target.checked })} />
+                          <input
+                            className="input"
+                            value={d.title}
+                            onChange={e => editDraft(d.index, { title: e.target.value })}
+                          />
+                        </div>
+                        {d.checked && (
+                          <>
+                            <textarea
+                              className="textarea"
+                              style={{ marginTop: 6 }}
+                              placeholder="Описание"
+                              rows={2}
+                              value={d.description}
+                              onChange={e => editDraft(d.index, { description: e.target.value })}
+                            />
+                            <div className="row" style={{ marginTop: 6 }}>
+                              <select
+                                className="input"
+                                value={d.priority}
+                                onChange={e => editDraft(d.index, { priority: e.target.value as SuggestionDraft['priority'] })}
+                              >
+                                <option value="low">⬇️ Низкий</option>
+                                <option value="medium">Обычный</option>
+                                <option value="high">⬆️ Высокий</option>
+                                <option value="urgent">🔥 Срочно</option>
+                              </select>
+                              <input
+                                className="input"
+                                type="datetime-local"
+                                value={d.due}
+                                onChange={e => editDraft(d.index, { due: e.target.value })}
+                              />
+                            </div>
+                            {can('task.assign') && (
+                              <select
+                                className="input"
+                                style={{ marginTop: 6 }}
+                                value={d.assignee}
+                                onChange={e => editDraft(d.index, { assignee: e.target.value })}
+                              >
+                                <option value="">Без исполнителя</option>
+                                {members.map(mb => <option key={mb.user_id} value={mb.user_id}>{memberDisplay(mb)}</option>)}
+                              </select>
+                            )}
+                          </>
+                        )}
+                      </div>
+                    ))}
+                  </div>
                   <button
                     className="btn btnPrimary"
-                    style={{ alignSelf: 'flex-end', padding: '8px 13px' }}
-                    disabled={aiBusy || !aiInput.trim()}
-                    onClick={sendAi}
-                  >{aiBusy ? '...' : '↑'}</button>
+                    style={{ width: '100%' }}
+                    disabled={accepting || !review.items.some(d => d.checked && d.title.trim())}
+                    onClick={acceptReview}
+                  >
+                    {accepting ? 'Добавляю...' : `Добавить в задачи (${review.items.filter(d => d.checked && d.title.trim()).length})`}
+                  </button>
                 </div>
-                <p className="hint" style={{ textAlign: 'center' }}>Shift+Enter — перенос строки</p>
               </div>
             )}
 
+            {/* ─── KNOWLEDGE BASE TAB ─── */}
+            {screen.tab === 'kb' && (
+              <>
+                {can('knowledge.manage') && (
+                  <div className="card">
+                    <div className="cardLabel">Добавить в базу знаний</div>
+                    <p className="hint" style={{ marginBottom: 8 }}>
+                      Описание продукта, цены, заметки о клиентах — ассистент найдёт нужный фрагмент и сошлётся на документ.
+                    </p>
+                    <input
+                      className="input"
+                      placeholder="Название (например: Прайс 2025)"
+                      maxLength={200}
+                      value={docForm.title}
+                      onChange={e => setDocForm({ ...docForm, title: e.target.value })}
+                    />
+                    <textarea
+                      className="textarea"
+                      style={{ marginTop: 8 }}
+                      placeholder="Текст заметки или вставь готовый документ"
+                      rows={5}
+                      value={docForm.content}
+                      onChange={e => setDocForm({ ...docForm, content: e.target.value })}
+                    />
+                    <div className="row" style={{ marginTop: 8 }}>
+                      <label className="btn btnGhost btnSm" style={{ cursor: 'pointer' }}>
+                        📄 Из файла
+                        <input
+                          type="file"
+                          accept=".txt,.md,.markdown,.csv,.tsv,.json,.yaml,.yml,.xml,.html,.log,text/*"
+                          style={{ display: 'none' }}
+                          disabled={addingDoc}
+                          onChange={e => { const f = e.target.files?.[0]; e.target.value = ''; if (f) uploadDoc(f); }}
+                        />
+                      </label>
+                      <button
+                        className="btn btnPrimary btnSm"
+                        style={{ marginLeft: 'auto' }}
+                        disabled={addingDoc || !docForm.title.trim() || !docForm.content.trim()}
+                        onClick={() => addDoc({
+                          title: docForm.title.trim(),
+                          content: docForm.content,
+                          // Long multi-line content is most likely pasted rather than typed
+                          source: docForm.content.length > 500 && docForm.content.includes('\n') ? 'text' : 'note'
+                        })}
+                      >{addingDoc ? 'Сохраняю...' : '+ Добавить'}</button>
+                    </div>
+                  </div>
+                )}
+
+                <div className="secHead">
+                  <span className="secTitle">Документы</span>
+                  <span className="secBadge">{docs.length}</span>
+                </div>
+                {docs.length === 0 ? (
+                  <div className="empty">
+                    <span className="emptyIco">📚</span>
+                    База пуста. Добавь то, что обычно приходится объяснять ассистенту заново.
+                  </div>
+                ) : (
+                  <div className="memberList">
+                    {docs.map(d => (
+                      <div key={d.id} className="card kbDoc">
+                        <div className="kbDocHead">
+                          <span className="subIco">{KB_SOURCE_ICO[d.source]}</span>
+                          <span className="subTitle attName" onClick={() => toggleDoc(d)}>{d.title}</span>
+                          <span className="inviteMeta">{new Date(d.created_at).toLocaleDateString('ru-RU', { day: 'numeric', month: 'short' })}</span>
+                          {can('knowledge.manage') && (
+                            <button className="subBtn" title="Удалить" onClick={() => removeDoc(d)}>✕</button>
+                          )}
+                        </div>
+                        {openDoc?.id === d.id && <div className="bText kbDocBody">{openDoc.content}</div>}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </>
+            )}
+
+            {/* ─── METRICS TAB ─── */}
+            {screen.tab === 'metrics' && (
+              <>
+                {/* Add KPI */}
+                {can('kpi.manage') && (
+                  <div className="card">
+                    <div className="cardLabel">Новая метрика</div>
+                    <input
+                      className="input"
+                      placeholder="Название (например: Выручка)"
+                      value={kpiForm.name}
+                      onChange={e => setKpiForm({ ...kpiForm, name: e.target.value })}
+                    />
+                    <div className="row" style={{ marginTop: 8 }}>
+                      <input
+                        className="input"
+                        placeholder="Ед. (₽, шт, %)"
+                        value={kpiForm.unit}
+                        onChange={e => setKpiForm({ ...kpiForm, unit: e.target.value })}
+                      />
+                      <input
+                        className="input"
+                        placeholder="Цель"
+                        inputMode="decimal"
+                        value={kpiForm.target}
+                        onChange={e => setKpiForm({ ...kpiForm, target: e.target.value })}
+                        onKeyDown={e => e.key === 'Enter' && addKpi()}
+                      />
+                      <button className="btn btnPrimary" disabled={!kpiForm.name.trim()} onClick={addKpi}>+</button>
+                    </div>
+                  </div>
+                )}
+
+                <div className="secHead">
+                  <span className="secTitle">Метрики</span>
+                  <span className="secBadge">{kpis.length}</span>
+                </div>
+
+                {kpis.length === 0 ? (
+                  <div className="empty">
+                    <span className="emptyIco">📈</span>
+                    {can('kpi.manage')
+                      ? 'Добавь метрики, по которым понятно, работает ли проект.'
+                      : 'Владелец проекта пока не добавил метрики.'}
+                  </div>
+                ) : (
+                  <div className="taskList">
+                    {kpis.map(k => {
+                      const pct = kpiPct(k);
+                      return (
+                        <div key={k.id} className="card kpiCard">
+                          <div className="kpiTop">
+                            <span className="kpiName">{k.name}</span>
+                            {can('kpi.manage') && <button className="subBtn" onClick={() => removeKpi(k)}>✕</button>}
+                          </div>
+                          <div className="kpiValue">
+                            {fmtNum(k.current_value)}{k.unit ? ` ${k.unit}` : ''}
+                            {k.target_value != null && <span className="kpiTarget"> / {fmtNum(k.target_value)}{k.unit ? ` ${k.unit}` : ''}</span>}
+                          </div>
+                          {pct != null && (
+                            <div className="pbar" style={{ marginTop: 8 }}>
+                              <div className="pfill" style={{ width: `${pct}%` }} />
+                            </div>
+                          )}
+                          <Sparkline points={k.history ?? []} target={k.target_value} />
+                          {can('kpi.manage') && (
+                            <div className="row" style={{ marginTop: 8 }}>
+                              <input
+                                className="input subInput"
+                                placeholder="Новое значение"
+                                inputMode="decimal"
+                                value={kpiDrafts[k.id] ?? ''}
+                                onChange={e => setKpiDrafts(prev => ({ ...prev, [k.id]: e.target.value }))}
+                                onKeyDown={e => e.key === 'Enter' && saveKpiValue(k)}
+                              />
+                              <button className="btn btnSm btnGhost" disabled={!(kpiDrafts[k.id] ?? '').trim()} onClick={() => saveKpiValue(k)}>
+                                Обновить
+                              </button>
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </>
+            )}
+
             {/* ─── TEAM TAB ─── */}
             {screen.tab === 'team' && (
               <>
-                {/* Invite block (owner only) */}
-                {isOwner && (
+                {/* Invite block */}
+                {canInvite && (
                   <div className="inviteBox">
                     <div className="cardLabel">Пригласить в команду</div>
-                    {inviteCode ? (
+                    {invite ? (
                       <>
                         <p style={{ fontSize: 12, color: 'var(--text2)', marginBottom: 4 }}>
-                          Поделись этим кодом с участником — он введёт его на главной странице:
+                          {invite.link
+                            ? 'Отправь ссылку участнику — проект откроется сам. Или поделись кодом:'
+                            : 'Поделись этим кодом с участником — он введёт его на главной странице:'}
                         </p>
-                        <span className="inviteCode">{inviteCode}</span>
-                        <button className={cx('copyBtn', copied && 'copied')} onClick={copyCode}>
-                          {copied ? '✓ Скопировано!' : '📋 Скопировать код'}
+                        <span className="inviteCode">{invite.code}</span>
+                        <button className={cx('copyBtn', copied === invite.id && 'copied')} onClick={() => copyInvite(invite)}>
+                          {copied === invite.id ? '✓ Скопировано!' : invite.link ? '🔗 Скопировать ссылку' : '📋 Скопировать код'}
+                        </button>
+                        <button className="btn btnGhost btnSm" style={{ width: '100%', marginTop: 8 }} onClick={() => setInvite(null)}>
+                          + Ещё одно приглашение
                         </button>
                       </>
                     ) : (
@@ -559,6 +1964,14 @@ export default function App() {
                         <p style={{ fontSize: 12, color: 'var(--text2)', marginBottom: 10 }}>
                           Сгенерируй код приглашения и отправь участнику. Он зайдёт на главную и введёт код.
                         </p>
+                        <select
+                          className="input"
+                          style={{ marginBottom: 8 }}
+                          value={inviteRole}
+                          onChange={e => setInviteRole(e.target.value as Role)}
+                        >
+                          {ASSIGNABLE_ROLES.map(r => <option key={r} value={r}>Роль: {ROLE_LBL[r]}</option>)}
+                        </select>
                         <button className="btn btnPrimary" style={{ width: '100%' }} disabled={genInvite} onClick={generateInvite}>
                           {genInvite ? 'Генерирую...' : '🔑 Сгенерировать код'}
                         </button>
@@ -567,6 +1980,33 @@ export default function App() {
                   </div>
                 )}
 
+                {/* Active invites */}
+                {canInvite && invites.length > 0 && (
+                  <>
+                    <div className="secHead">
+                      <span className="secTitle">Активные приглашения</span>
+                      <span className="secBadge">{invites.length}</span>
+                    </div>
+                    <div className="memberList">
+                      {invites.map(inv => (
+                        <div key={inv.id} className="memberCard">
+                          <span className="inviteCodeSm">{inv.code}</span>
+                          <span className="memberName inviteMeta">
+                            {ROLE_LBL[inv.role]} · {inv.uses_count}{inv.max_uses ? `/${inv.max_uses}` : ''} исп.
+                            {inv.expires_at && ` · до ${new Date(inv.expires_at).toLocaleDateString('ru-RU', { day: 'numeric', month: 'short' })}`}
+                          </span>
+                          <div className="subActions">
+                            <button className="subBtn" title="Скопировать" onClick={() => copyInvite(inv)}>
+                              {copied === inv.id ? '✓' : '📋'}
+                            </button>
+                            <button className="subBtn" title="Отозвать" onClick={() => revokeInvite(inv)}>✕</button>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </>
+                )}
+
                 {/* Members */}
                 <div className="secHead">
                   <span className="secTitle">Участники</span>
@@ -576,7 +2016,7 @@ export default function App() {
                 {members.length === 0 ? (
                   <div className="empty">
                     <span className="emptyIco">👥</span>
-                    {isOwner ? 'Пригласи участников через код выше.' : 'Участники не загружены.'}
+                    {canInvite ? 'Пригласи участников через код выше.' : 'Участники не загружены.'}
                   </div>
                 ) : (
                   <div className="memberList">
@@ -584,13 +2024,39 @@ export default function App() {
                       <div key={m.user_id} className="memberCard">
                         <div className="memberAvatar">{memberInitial(m)}</div>
                         <span className="memberName">{memberDisplay(m)}</span>
-                        <span className={cx('memberRole', m.role === 'owner' && 'owner')}>
-                          {m.role === 'owner' ? 'Владелец' : 'Участник'}
-                        </span>
+                        {can('member.set_role') && m.role !== 'owner' ? (
+                          <select
+                            className="memberRole roleSelect"
+                            value={m.role}
+                            onChange={e => changeRole(m, e.target.value as Role)}
+                          >
+                            {ASSIGNABLE_ROLES.map(r => <option key={r} value={r}>{ROLE_LBL[r]}</option>)}
+                          </select>
+                        ) : (
+                          <span className={cx('memberRole', m.role === 'owner' && 'owner')}>
+                            {ROLE_LBL[m.role]}
+                          </span>
+                        )}
+                        {m.role !== 'owner' && (can('focus.transfer') || can('member.remove')) && (
+                          <div className="subActions">
+                            {can('focus.transfer') && (
+                              <button className="subBtn" title="Сделать владельцем" onClick={() => makeOwner(m)}>👑</button>
+                            )}
+                            {can('member.remove') && m.user_id !== me?.user.id && (
+                              <button className="subBtn" title="Удалить из проекта" onClick={() => kickMember(m)}>✕</button>
+                            )}
+                          </div>
+                        )}
                       </div>
                     ))}
                   </div>
                 )}
+
+                {!isOwner && (
+                  <button className="btn btnGhost" style={{ width: '100%' }} onClick={leaveProject}>
+                    🚪 Покинуть проект
+                  </button>
+                )}
               </>
             )}
 
@@ -16,13 +16,27 @@ export class ApiError extends Error {
 }
 
 // ── Friendly error messages ───────────────────────────────────────
+// The app offers the paywall next to this message
+export const TRIAL_EXPIRED_TEXT = '⏳ Пробный период или подписка закончились. Оформи подписку, чтобы продолжить.';
+
 export function friendlyError(e: unknown): string {
   if (e instanceof ApiError) {
-    if (e.code === 'trial_expired') return '⏳ Пробный период истёк. Пожалуйста, оформи подписку.';
+    if (e.code === 'trial_expired') return TRIAL_EXPIRED_TEXT;
+    if (e.code === 'quota_exceeded') {
+      const d = (e.details ?? {}) as { period?: 'day' | 'month'; resets_at?: string };
+      const when = d.resets_at
+        ? new Date(d.resets_at).toLocaleString('ru-RU', d.period === 'day' ? { hour: '2-digit', minute: '2-digit' } : { day: 'numeric', month: 'long' })
+        : '';
+      return d.period === 'month'
+        ? `🤖 Месячный лимит ассистента исчерпан${when ? ` — он обновится ${when}` : ''}.`
+        : `🤖 Дневной лимит ассистента исчерпан${when ? ` — он обновится в ${when}` : ''}.`;
+    }
     if (e.code === 'unauthorized') return '🔒 Требуется авторизация. Открой приложение в Telegram.';
     if (e.code === 'forbidden') return '🚫 Нет доступа к этому ресурсу.';
     if (e.code === 'owner_only') return '🚫 Только владелец проекта может делать это.';
+    if (e.code === 'insufficient_role') return '🚫 Твоя роль в проекте не позволяет это сделать.';
     if (e.code === 'not_found') return '🔍 Ресурс не найден.';
+    if (e.code === 'gone') return '⌛ Срок действия истёк — приглашение или файл больше недоступны.';
     if (e.code === 'validation_error') return '⚠️ Некорректные данные. Проверь введённую информацию.';
     if (e.code === 'ai_error') return '🤖 Ассистент временно недоступен. Попробуй позже.';
     return e.message || 'Произошла ошибка.';
@@ -33,29 +47,72 @@ export function friendlyError(e: unknown): string {
 }
 
 // ── Fetch wrapper ─────────────────────────────────────────────────
-async function apiFetch<T = unknown>(path: string, options: RequestInit = {}): Promise<T> {
+function authHeaders(init?: HeadersInit): Headers {
   const tg = getTelegramWebApp();
   const initData = tg?.initData ?? '';
-  const headers = new Headers(options.headers || {});
+  const headers = new Headers(init || {});
 
   if (initData) headers.set('x-telegram-init-data', initData);
   const dev = import.meta.env.VITE_DEV_TG_ID;
   if (!initData && dev) headers.set('x-dev-tg-id', String(dev));
+  return headers;
+}
+
+async function toApiError(res: Response): Promise<ApiError> {
+  const json: any = await res.json().catch(() => ({}));
+  return new ApiError(
+    json?.code ?? 'unknown_error',
+    json?.error ?? `HTTP ${res.status}`,
+    res.status,
+    json?.details
+  );
+}
+
+async function apiFetch<T = unknown>(path: string, options: RequestInit = {}): Promise<T> {
+  const headers = authHeaders(options.headers);
   headers.set('content-type', 'application/json');
 
   const res = await fetch(`${API_BASE}${path}`, { ...options, headers });
-  const json: any = await res.json().catch(() => ({}));
+  if (!res.ok) throw await toApiError(res);
 
-  if (!res.ok) {
-    throw new ApiError(
-      json?.code ?? 'unknown_error',
-      json?.error ?? `HTTP ${res.status}`,
-      res.status,
-      json?.details
-    );
-  }
+  return await res.json().catch(() => ({})) as T;
+}
+
+// Binary downloads (attachments) need the same auth headers, so plain <a href> won't do
+async function apiFetchBlob(path: string): Promise<Blob> {
+  const res = await fetch(`${API_BASE}${path}`, { headers: authHeaders() });
+  if (!res.ok) throw await toApiError(res);
+  return res.blob();
+}
+
+// Assistant replies stream as server-sent events over a POST, which EventSource can't send
+async function apiStream(path: string, body: unknown, onEvent: (event: string, data: any) => void, signal?: AbortSignal) {
+  const headers = authHeaders();
+  headers.set('content-type', 'application/json');
+  headers.set('accept', 'text/event-stream');
 
-  return json as T;
+  const res = await fetch(`${API_BASE}${path}`, { method: 'POST', body: JSON.stringify(body), headers, signal });
+  if (!res.ok || !res.body) throw await toApiError(res);
+
+  const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+    let end: number;
+    while ((end = buffer.indexOf('\n\n')) >= 0) {
+      const block = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      let event = 'message';
+      const data: string[] = [];
+      for (const line of block.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+      }
+      if (data.length) onEvent(event, JSON.parse(data.join('\n')));
+    }
+  }
 }
 
 // ── API client ────────────────────────────────────────────────────
@@ -63,6 +120,12 @@ export const api = {
   // Me
   me: () => apiFetch<any>('/me'),
   subscription: () => apiFetch<any>('/me/subscription'),
+  createInvoice: () =>
+    apiFetch<any>('/me/subscription/invoice', { method: 'POST', body: JSON.stringify({}) }),
+  getReminderSettings: () =>
+    apiFetch<any>('/me/reminder-settings').then((r: any) => r.settings),
+  saveReminderSettings: (settings: Record<string, unknown>) =>
+    apiFetch<any>('/me/reminder-settings', { method: 'PUT', body: JSON.stringify(settings) }).then((r: any) => r.settings),
 
   // Focuses
   listFocuses: () => apiFetch<any>('/focuses').then((r: any) => r.focuses),
@@ -78,24 +141,122 @@ export const api = {
     apiFetch<any>(`/focuses/${focusId}/tasks?assigned=${assigned}`).then((r: any) => r.tasks),
   createTask: (focusId: string, data: { title: string; description?: string; priority?: string; due_at?: string; assigned_to_user_id?: string }) =>
     apiFetch<any>(`/focuses/${focusId}/tasks`, { method: 'POST', body: JSON.stringify(data) }).then((r: any) => r.task),
+  getTask: (taskId: string) =>
+    apiFetch<any>(`/tasks/${taskId}`).then((r: any) => r.task),
   updateTask: (taskId: string, data: Record<string, unknown>) =>
     apiFetch<any>(`/tasks/${taskId}`, { method: 'PATCH', body: JSON.stringify(data) }).then((r: any) => r.task),
   deleteTask: (taskId: string) => apiFetch<any>(`/tasks/${taskId}`, { method: 'DELETE' }),
   addComment: (taskId: string, text: string) =>
     apiFetch<any>(`/tasks/${taskId}/comments`, { method: 'POST', body: JSON.stringify({ text }) }).then((r: any) => r.comment),
 
+  // Subtasks
+  listSubtasks: (taskId: string) =>
+    apiFetch<any>(`/tasks/${taskId}/subtasks`).then((r: any) => r.subtasks),
+  createSubtask: (taskId: string, title: string) =>
+    apiFetch<any>(`/tasks/${taskId}/subtasks`, { method: 'POST', body: JSON.stringify({ title }) }).then((r: any) => r.subtask),
+  updateSubtask: (taskId: string, subtaskId: string, data: { title?: string; status?: 'todo' | 'done' }) =>
+    apiFetch<any>(`/tasks/${taskId}/subtasks/${subtaskId}`, { method: 'PATCH', body: JSON.stringify(data) }).then((r: any) => r.subtask),
+  reorderSubtasks: (taskId: string, ids: string[]) =>
+    apiFetch<any>(`/tasks/${taskId}/subtasks/reorder`, { method: 'POST', body: JSON.stringify({ ids }) }).then((r: any) => r.subtasks),
+  deleteSubtask: (taskId: string, subtaskId: string) =>
+    apiFetch<any>(`/tasks/${taskId}/subtasks/${subtaskId}`, { method: 'DELETE' }),
+
+  // Attachments
+  listAttachments: (taskId: string) =>
+    apiFetch<any>(`/tasks/${taskId}/attachments`).then((r: any) => r.attachments),
+  addLinkAttachment: (taskId: string, url: string, file_name?: string) =>
+    apiFetch<any>(`/tasks/${taskId}/attachments`, { method: 'POST', body: JSON.stringify({ type: 'link', url, file_name }) }).then((r: any) => r.attachment),
+  deleteAttachment: (taskId: string, attachmentId: string) =>
+    apiFetch<any>(`/tasks/${taskId}/attachments/${attachmentId}`, { method: 'DELETE' }),
+  downloadAttachment: (taskId: string, attachmentId: string) =>
+    apiFetchBlob(`/tasks/${taskId}/attachments/${attachmentId}/download`),
+
+  // KPIs
+  listKpis: (focusId: string) =>
+    apiFetch<any>(`/focuses/${focusId}/kpis`).then((r: any) => r.kpis),
+  createKpi: (focusId: string, data: { name: string; unit?: string | null; target_value?: number | null; current_value?: number | null }) =>
+    apiFetch<any>(`/focuses/${focusId}/kpis`, { method: 'POST', body: JSON.stringify(data) }).then((r: any) => r.kpi),
+  updateKpi: (kpiId: string, data: Record<string, unknown>) =>
+    apiFetch<any>(`/kpis/${kpiId}`, { method: 'PATCH', body: JSON.stringify(data) }).then((r: any) => r.kpi),
+  deleteKpi: (kpiId: string) => apiFetch<any>(`/kpis/${kpiId}`, { method: 'DELETE' }),
+  kpiHistory: (kpiId: string) =>
+    apiFetch<any>(`/kpis/${kpiId}/history`).then((r: any) => r.history),
+
   // Invites & Members
-  createInvite: (focusId: string, opts?: { expires_at?: string; max_uses?: number }) =>
+  createInvite: (focusId: string, opts?: { expires_at?: string; max_uses?: number; role?: string }) =>
     apiFetch<any>(`/focuses/${focusId}/invites`, { method: 'POST', body: JSON.stringify(opts ?? {}) }),
+  listInvites: (focusId: string) =>
+    apiFetch<any>(`/focuses/${focusId}/invites`).then((r: any) => r.invites),
+  revokeInvite: (focusId: string, inviteId: string) =>
+    apiFetch<any>(`/focuses/${focusId}/invites/${inviteId}`, { method: 'DELETE' }),
   joinByCode: (code: string) =>
     apiFetch<any>(`/invites/${code}/join`, { method: 'POST' }),
   listMembers: (focusId: string) =>
     apiFetch<any>(`/focuses/${focusId}/members`).then((r: any) => r.members),
+  removeMember: (focusId: string, userId: string, reassign_to_user_id?: string) =>
+    apiFetch<any>(`/focuses/${focusId}/members/${userId}`, { method: 'DELETE', body: JSON.stringify({ reassign_to_user_id }) }),
+  setMemberRole: (focusId: string, userId: string, role: string) =>
+    apiFetch<any>(`/focuses/${focusId}/members/${userId}`, { method: 'PATCH', body: JSON.stringify({ role }) }).then((r: any) => r.member),
+  leaveFocus: (focusId: string) =>
+    apiFetch<any>(`/focuses/${focusId}/leave`, { method: 'POST', body: JSON.stringify({}) }),
+  transferOwnership: (focusId: string, userId: string) =>
+    apiFetch<any>(`/focuses/${focusId}/transfer_ownership`, { method: 'POST', body: JSON.stringify({ user_id: userId }) }),
 
   // AI Assistant
   getThread: (focusId: string) => apiFetch<any>(`/focuses/${focusId}/assistant/thread`),
-  sendMessage: (focusId: string, content: string) =>
-    apiFetch<any>(`/focuses/${focusId}/assistant/message`, { method: 'POST', body: JSON.stringify({ content }) }),
-  planToTasks: (focusId: string, tasks: unknown[]) =>
-    apiFetch<any>(`/focuses/${focusId}/assistant/plan_to_tasks`, { method: 'POST', body: JSON.stringify({ tasks }) })
+  listThreads: (focusId: string, archived: 'true' | 'false' | 'all' = 'false') =>
+    apiFetch<any>(`/focuses/${focusId}/assistant/threads?archived=${archived}`).then((r: any) => r.threads),
+  createThread: (focusId: string, body: { title?: string; is_private?: boolean }) =>
+    apiFetch<any>(`/focuses/${focusId}/assistant/threads`, { method: 'POST', body: JSON.stringify(body) }).then((r: any) => r.thread),
+  getThreadById: (threadId: string) => apiFetch<any>(`/assistant/threads/${threadId}`),
+  updateThread: (threadId: string, body: { title?: string | null; archived?: boolean }) =>
+    apiFetch<any>(`/assistant/threads/${threadId}`, { method: 'PATCH', body: JSON.stringify(body) }).then((r: any) => r.thread),
+  deleteThread: (threadId: string) =>
+    apiFetch<any>(`/assistant/threads/${threadId}`, { method: 'DELETE' }),
+  listFacts: (focusId: string) =>
+    apiFetch<any>(`/focuses/${focusId}/assistant/facts`).then((r: any) => r.facts),
+  pinFact: (focusId: string, body: { text: string; source_message_id?: string }) =>
+    apiFetch<any>(`/focuses/${focusId}/assistant/facts`, { method: 'POST', body: JSON.stringify(body) }).then((r: any) => r.fact),
+  unpinFact: (factId: string) =>
+    apiFetch<any>(`/assistant/facts/${factId}`, { method: 'DELETE' }),
+  // Knowledge base
+  listKnowledge: (focusId: string) =>
+    apiFetch<any>(`/focuses/${focusId}/knowledge`).then((r: any) => r.docs),
+  createKnowledgeDoc: (focusId: string, body: { title: string; content: string; source?: 'note' | 'text' | 'file'; file_name?: string; mime?: string }) =>
+    apiFetch<any>(`/focuses/${focusId}/knowledge`, { method: 'POST', body: JSON.stringify(body) }).then((r: any) => r.doc),
+  importKnowledgeAttachment: (focusId: string, attachmentId: string) =>
+    apiFetch<any>(`/focuses/${focusId}/knowledge/import`, { method: 'POST', body: JSON.stringify({ attachment_id: attachmentId }) }).then((r: any) => r.doc),
+  getKnowledgeDoc: (docId: string) =>
+    apiFetch<any>(`/knowledge/${docId}`).then((r: any) => r.doc),
+  deleteKnowledgeDoc: (docId: string) =>
+    apiFetch<any>(`/knowledge/${docId}`, { method: 'DELETE' }),
+  sendMessage: (focusId: string, body: { content: string; thread_id?: string }) =>
+    apiFetch<any>(`/focuses/${focusId}/assistant/message`, { method: 'POST', body: JSON.stringify(body) }),
+  // Resolves with the saved assistant message; rejects with AbortError when the signal fires.
+  // onThread gets the thread back, including the title generated after the first reply
+  streamMessage: async (
+    focusId: string,
+    body: { content: string; thread_id?: string },
+    handlers: { onStart?: (userMessage: any) => void; onDelta: (text: string) => void; onThread?: (thread: any) => void },
+    signal?: AbortSignal
+  ) => {
+    let message: any = null;
+    await apiStream(`/focuses/${focusId}/assistant/message/stream`, body, (event, data) => {
+      if (event === 'start') { handlers.onStart?.(data.user_message); handlers.onThread?.(data.thread); }
+      if (event === 'delta') handlers.onDelta(data.text);
+      if (event === 'done') message = data.message;
+      if (event === 'thread') handlers.onThread?.(data.thread);
+      if (event === 'error') throw new ApiError(data.error ?? 'ai_error', data.message ?? 'AI error', 502);
+    }, signal);
+    if (!message) throw new ApiError('ai_error', 'Ответ ассистента оборвался', 502);
+    return message;
+  },
+  // Changes the assistant proposed through tools; both resolve with { message, action }
+  confirmAiAction: (messageId: string, callId: string) =>
+    apiFetch<any>(`/assistant/messages/${messageId}/actions/${callId}/confirm`, { method: 'POST', body: JSON.stringify({}) }),
+  rejectAiAction: (messageId: string, callId: string) =>
+    apiFetch<any>(`/assistant/messages/${messageId}/actions/${callId}/reject`, { method: 'POST', body: JSON.stringify({}) }),
+  // With messageId every task carries suggestion_index; resolves with { tasks, message }
+  planToTasks: (focusId: string, tasks: unknown[], messageId?: string) =>
+    apiFetch<any>(`/focuses/${focusId}/assistant/plan_to_tasks`, { method: 'POST', body: JSON.stringify({ tasks, message_id: messageId }) })
 };
@@ -3,8 +3,11 @@ export type TGWebApp = {
   initDataUnsafe?: any;
   ready?: () => void;
   expand?: () => void;
+  openInvoice?: (url: string, callback?: (status: InvoiceStatus) => void) => void;
 };
 
+export type InvoiceStatus = 'paid' | 'cancelled' | 'failed' | 'pending';
+
 declare global {
   interface Window {
     Telegram?: { WebApp?: TGWebApp };
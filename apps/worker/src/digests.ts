@@ -0,0 +1,147 @@
+import type { PrismaClient } from '@prisma/client';
+import { localMinutes } from '@ba/shared';
+
+/**
+ * Texts of the morning digest and the weekly owner summary.
+ * Both return null when there is nothing worth sending.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const STALLED_DAYS = 7; // open tasks untouched this long count as stalled
+const MAX_LINES = 8; // per section, so a busy focus doesn't produce a wall of text
+
+const OPEN = { notIn: ['done', 'canceled'] as ('done' | 'canceled')[] };
+
+type Person = { first_name: string | null; username: string | null } | null;
+
+function personName(p: Person) {
+  return p?.first_name || (p?.username ? `@${p.username}` : 'без исполнителя');
+}
+
+// Seconds are dropped, which is fine for day boundaries
+function localDayStart(now: Date, timezone: string) {
+  const start = new Date(now.getTime() - localMinutes(now, timezone) * 60_000);
+  start.setSeconds(0, 0);
+  return start;
+}
+
+export function isLocalMonday(now: Date, timezone: string) {
+  return now.toLocaleDateString('en-US', { weekday: 'short', timeZone: timezone }) === 'Mon';
+}
+
+function fmt(date: Date, timezone: string, opts: Intl.DateTimeFormatOptions) {
+  return date.toLocaleString('ru-RU', { ...opts, timeZone: timezone });
+}
+
+function section(title: string, lines: string[]) {
+  if (!lines.length) return [];
+  const more = lines.length > MAX_LINES ? [`  …и ещё ${lines.length - MAX_LINES}`] : [];
+  return [title, ...lines.slice(0, MAX_LINES).map(l => `  • ${l}`), ...more];
+}
+
+// ── Morning digest ────────────────────────────────────────────────
+export async function buildDailyDigest(prisma: PrismaClient, userId: string, timezone: string, now = new Date()) {
+  const dayStart = localDayStart(now, timezone);
+  const dayEnd = new Date(dayStart.getTime() + DAY_MS);
+  const yesterday = new Date(dayStart.getTime() - DAY_MS);
+
+  const memberships = await prisma.focusMember.findMany({
+    where: { user_id: userId, focus: { status: 'active' } },
+    include: { focus: { select: { id: true, title: true } } }
+  });
+  if (!memberships.length) return null;
+  const focusIds = memberships.map(m => m.focus_id);
+
+  const [mine, teamDone] = await Promise.all([
+    prisma.task.findMany({
+      where: { focus_id: { in: focusIds }, assigned_to_user_id: userId, status: OPEN, due_at: { lt: dayEnd } },
+      orderBy: { due_at: 'asc' }
+    }),
+    prisma.task.findMany({
+      where: {
+        focus_id: { in: focusIds },
+        status: 'done',
+        completed_at: { gte: yesterday, lt: dayStart },
+        OR: [{ assigned_to_user_id: null }, { assigned_to_user_id: { not: userId } }]
+      },
+      include: { assigned_to: { select: { first_name: true, username: true } } },
+      orderBy: { completed_at: 'asc' }
+    })
+  ]);
+
+  const blocks: string[] = [];
+  for (const { focus } of memberships) {
+    const today = mine.filter(t => t.focus_id === focus.id && t.due_at! >= dayStart);
+    const overdue = mine.filter(t => t.focus_id === focus.id && t.due_at! < dayStart);
+    const done = teamDone.filter(t => t.focus_id === focus.id);
+    const lines = [
+      ...section('Сегодня:', today.map(t => `${t.title} (до ${fmt(t.due_at!, timezone, { hour: '2-digit', minute: '2-digit' })})`)),
+      ...section('Просрочено:', overdue.map(t => `${t.title} (с ${fmt(t.due_at!, timezone, { day: 'numeric', month: 'short' })})`)),
+      ...section('Команда вчера закрыла:', done.map(t => `${personName(t.assigned_to)} — ${t.title}`))
+    ];
+    if (lines.length) blocks.push([`📁 ${focus.title}`, ...lines].join('\n'));
+  }
+  if (!blocks.length) return null;
+
+  const date = fmt(now, timezone, { weekday: 'long', day: 'numeric', month: 'long' });
+  return `☀️ Доброе утро! План на ${date}\n\n${blocks.join('\n\n')}`;
+}
+
+// ── Weekly owner summary ──────────────────────────────────────────
+export async function buildWeeklySummary(prisma: PrismaClient, userId: string, timezone: string, now = new Date()) {
+  const weekAgo = new Date(now.getTime() - 7 * DAY_MS);
+  const stalledBefore = new Date(now.getTime() - STALLED_DAYS * DAY_MS);
+
+  const focuses = await prisma.focus.findMany({
+    where: { owner_user_id: userId, status: 'active' },
+    orderBy: { created_at: 'asc' }
+  });
+  if (!focuses.length) return null;
+
+  const blocks: string[] = [];
+  for (const focus of focuses) {
+    const [dueThisWeek, completed, kpis, stalled] = await Promise.all([
+      prisma.task.findMany({
+        where: { focus_id: focus.id, due_at: { gte: weekAgo, lt: now }, status: { not: 'canceled' } },
+        select: { status: true }
+      }),
+      prisma.task.count({ where: { focus_id: focus.id, status: 'done', completed_at: { gte: weekAgo } } }),
+      prisma.kPI.findMany({
+        where: { focus_id: focus.id },
+        include: { history: { where: { recorded_at: { lt: weekAgo } }, orderBy: { recorded_at: 'desc' }, take: 1 } },
+        orderBy: { created_at: 'asc' }
+      }),
+      prisma.task.findMany({
+        where: { focus_id: focus.id, status: OPEN, updated_at: { lt: stalledBefore } },
+        include: { assigned_to: { select: { first_name: true, username: true } } },
+        orderBy: { updated_at: 'asc' }
+      })
+    ]);
+
+    const doneOnTime = dueThisWeek.filter(t => t.status === 'done').length;
+    const rate = dueThisWeek.length
+      ? `${Math.round((doneOnTime / dueThisWeek.length) * 100)}% (${doneOnTime}/${dueThisWeek.length} со сроком на этой неделе)`
+      : 'задач со сроком на этой неделе не было';
+
+    const kpiLines = kpis
+      .filter(k => k.current_value != null)
+      .map(k => {
+        const unit = k.unit ? ` ${k.unit}` : '';
+        const before = k.history[0]?.value;
+        if (before == null) return `${k.name}: ${k.current_value}${unit}`;
+        const delta = k.current_value! - before;
+        const sign = delta > 0 ? '+' : '';
+        return `${k.name}: ${k.current_value}${unit} (${delta === 0 ? 'без изменений' : `${sign}${Math.round(delta * 100) / 100}${unit}`})`;
+      });
+
+    blocks.push([
+      `📁 ${focus.title}`,
+      `Выполнено за неделю: ${completed}`,
+      `Выполнено в срок: ${rate}`,
+      ...section('Метрики:', kpiLines),
+      ...section(`Без движения ${STALLED_DAYS}+ дней:`, stalled.map(t => `${t.title} — ${personName(t.assigned_to)}`))
+    ].join('\n'));
+  }
+
+  return `📊 Итоги недели по твоим проектам\n\n${blocks.join('\n\n')}`;
+}
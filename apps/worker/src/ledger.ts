@@ -0,0 +1,40 @@
+import { Prisma, type PrismaClient } from '@prisma/client';
+import type { NotificationType, NotifyDedupe, NotifyJob } from '@ba/shared';
+
+/**
+ * Delivery ledger (NotificationDelivery).
+ * A job claims its dedupe key right before sending; any other job with the same key is dropped.
+ * Retries of the same job keep their claim, and a finally failed job releases it.
+ */
+
+type LedgerKey = NotifyDedupe & { type: NotificationType };
+
+function ledgerKey(job: NotifyJob): LedgerKey | null {
+  return job.dedupe ? { ...job.dedupe, type: job.type } : null;
+}
+
+/** true = this job may send; false = the key belongs to another job or the task is gone. */
+export async function claimDelivery(prisma: PrismaClient, job: NotifyJob): Promise<boolean> {
+  const key = ledgerKey(job);
+  if (!key) return true;
+  try {
+    await prisma.notificationDelivery.create({ data: { ...key, user_id: job.user_id, log_id: job.log_id } });
+    return true;
+  } catch (e) {
+    if (!(e instanceof Prisma.PrismaClientKnownRequestError)) throw e;
+    if (e.code === 'P2003') return false; // task was deleted
+    if (e.code !== 'P2002') throw e;
+    const existing = await prisma.notificationDelivery.findUnique({ where: { task_id_type_due_version_slot: key } });
+    return existing?.log_id === job.log_id;
+  }
+}
+
+export async function releaseDelivery(prisma: PrismaClient, job: NotifyJob) {
+  if (!job.dedupe) return;
+  await prisma.notificationDelivery.deleteMany({ where: { log_id: job.log_id } });
+}
+
+export async function isDelivered(prisma: PrismaClient, key: LedgerKey) {
+  const row = await prisma.notificationDelivery.findUnique({ where: { task_id_type_due_version_slot: key } });
+  return !!row;
+}
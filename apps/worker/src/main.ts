@@ -1,136 +1,274 @@
 import 'dotenv/config';
-import { Worker } from 'bullmq';
+import { DelayedError, Queue, Worker, type Job } from 'bullmq';
 import IORedis from 'ioredis';
 import { Telegraf } from 'telegraf';
 import { PrismaClient } from '@prisma/client';
 import cron from 'node-cron';
+import {
+  DEFAULT_TIMEZONE,
+  EVENT_DIGEST_JOB,
+  NOTIFICATION_QUEUE,
+  TASK_EVENT_TYPES,
+  isValidTimezone,
+  localDateKey,
+  localMinutes,
+  parseEnabledTypes,
+  parseQuietHours,
+  quietHoursEnd,
+  taskActionKeyboard,
+  type EventDigestJob,
+  type NotificationType,
+  type NotifyDedupe,
+  type NotifyJob,
+  type TaskEventPayload
+} from '@ba/shared';
+import { buildDailyDigest, buildWeeklySummary, isLocalMonday } from './digests.js';
+import { claimDelivery, releaseDelivery } from './ledger.js';
+import { dueOverdueNotices } from './overdue.js';
 
 const REDIS_URL = process.env.REDIS_URL ?? 'redis://localhost:6379';
 const TELEGRAM_BOT_TOKEN = process.env.TELEGRAM_BOT_TOKEN ?? '';
 const DATABASE_URL = process.env.DATABASE_URL ?? '';
-const DEADLINE_DAYS = Number(process.env.DEADLINE_REMINDER_DAYS ?? 1); // remind N days before
+const TELEGRAM_BOT_USERNAME = (process.env.TELEGRAM_BOT_USERNAME ?? '').replace(/^@/, ''); // for "Open" buttons
+const DIGEST_HOUR = Number(process.env.DIGEST_HOUR ?? 9); // local hour of the morning digest and Monday summary
 
 const redis = new IORedis(REDIS_URL, { maxRetriesPerRequest: null });
 const prisma = new PrismaClient({ datasources: { db: { url: DATABASE_URL } } });
 const bot = new Telegraf(TELEGRAM_BOT_TOKEN);
 
-export const NOTIFICATION_QUEUE = 'notifications';
+const notificationQueue = new Queue<NotifyJob | EventDigestJob>(NOTIFICATION_QUEUE, {
+  connection: redis,
+  defaultJobOptions: { attempts: 5, backoff: { type: 'exponential', delay: 2000 } }
+});
 
-// ── Notification Worker ───────────────────────────────────────────
-new Worker(
-  NOTIFICATION_QUEUE,
-  async (job) => {
-    const { tg_id, text, type, user_id } = job.data as any;
-    try {
-      await bot.telegram.sendMessage(
-        Number(tg_id),
-        text,
-        { link_preview_options: { is_disabled: true } } as any
-      );
-      if (user_id) {
-        await prisma.notificationLog.updateMany({
-          where: { user_id, status: 'queued', type },
-          data: { status: 'sent', sent_at: new Date() }
-        });
-      }
-      console.log(`[worker] Sent notification type=${type} to tg_id=${tg_id}`);
-      return { ok: true };
-    } catch (e: any) {
-      if (user_id) {
-        await prisma.notificationLog.updateMany({
-          where: { user_id, status: 'queued', type },
-          data: { status: 'failed', error: String(e?.message ?? e) }
-        });
-      }
-      throw e;
-    }
-  },
-  { connection: redis }
-);
+async function userSettings(userId: string) {
+  const settings = await prisma.reminderSettings.findUnique({ where: { user_id: userId } });
+  const timezone = settings?.timezone && isValidTimezone(settings.timezone) ? settings.timezone : DEFAULT_TIMEZONE;
+  return {
+    timezone,
+    quiet: parseQuietHours(settings?.quiet_hours),
+    enabled: parseEnabledTypes(settings?.enabled_types)
+  };
+}
 
-// ── Deadline Reminder Cron (runs every day at 9:00 AM UTC) ────────
-cron.schedule('0 9 * * *', async () => {
-  console.log('[cron] Running deadline reminder job...');
-
-  const windowStart = new Date();
-  const windowEnd = new Date();
-  windowEnd.setDate(windowEnd.getDate() + DEADLINE_DAYS + 1);
-  windowStart.setDate(windowStart.getDate() + DEADLINE_DAYS - 1);
-
-  // Find tasks with deadlines coming up soon
-  const tasks = await prisma.task.findMany({
-    where: {
-      due_at: { gte: windowStart, lte: windowEnd },
-      status: { notIn: ['done', 'canceled'] },
-      assigned_to: { isNot: null }
-    },
-    include: {
-      assigned_to: true,
-      focus: { select: { title: true } }
-    }
+// Same contract as enqueueNotify in apps/api: log row first, job id = log id
+async function enqueueNotify(
+  user: { id: string; tg_id: bigint },
+  type: NotificationType,
+  text: string,
+  opts: { payload: Record<string, unknown>; parse_mode?: 'Markdown'; dedupe?: NotifyDedupe }
+) {
+  const { payload, parse_mode, dedupe } = opts;
+  const log = await prisma.notificationLog.create({
+    data: { user_id: user.id, type, payload: payload as any, status: 'queued' }
   });
+  const job: NotifyJob = {
+    log_id: log.id,
+    user_id: user.id,
+    tg_id: user.tg_id.toString(),
+    type,
+    text,
+    parse_mode,
+    dedupe,
+    task_actions: dedupe && { task_id: dedupe.task_id }
+  };
+  await notificationQueue.add(type, job, { jobId: log.id });
+}
 
-  console.log(`[cron] Found ${tasks.length} tasks with upcoming deadlines`);
+// Jobs landing in the user's quiet hours wait until the window ends
+async function deferForQuietHours(
+  job: Job,
+  token: string | undefined,
+  timezone: string,
+  quiet: ReturnType<typeof parseQuietHours>,
+  logIds: string[]
+) {
+  const resumeAt = quietHoursEnd(new Date(), timezone, quiet);
+  if (!resumeAt) return;
+  await prisma.notificationLog.updateMany({ where: { id: { in: logIds } }, data: { status: 'skipped_quiet_hours' } });
+  await job.moveToDelayed(resumeAt.getTime(), token);
+  console.log(`[worker] Deferred ${job.name} job=${job.id} until ${resumeAt.toISOString()}`);
+  throw new DelayedError();
+}
 
-  for (const task of tasks) {
-    const user = task.assigned_to!;
-    if (!user.tg_id) continue;
+async function sendNotification(job: Job<NotifyJob>, token?: string) {
+  const { log_id, user_id, tg_id, text, type, parse_mode, task_actions } = job.data;
 
-    const dueDate = task.due_at!.toLocaleDateString('ru-RU', { day: 'numeric', month: 'long' });
-    const text = `⏰ *Напоминание о дедлайне*\n\nЗадача: *${task.title}*\nПроект: ${task.focus.title}\nДедлайн: ${dueDate}\n\nНе забудь выполнить задачу вовремя!`;
+  // Reminders are canceled through their log row when the task changes
+  const log = await prisma.notificationLog.findUnique({ where: { id: log_id }, select: { status: true } });
+  if (!log || log.status === 'canceled' || log.status === 'sent') {
+    return { ok: false, skipped: log?.status ?? 'missing_log' };
+  }
 
-    try {
-      // Log notification
-      const log = await prisma.notificationLog.create({
-        data: {
-          user_id: user.id,
-          type: 'deadline_reminder',
-          payload: { task_id: task.id, due_at: task.due_at },
-          status: 'queued'
-        }
-      });
+  const { timezone, quiet, enabled } = await userSettings(user_id);
+  if (!enabled.includes(type)) {
+    await prisma.notificationLog.update({ where: { id: log_id }, data: { status: 'canceled', error: 'type disabled by user' } });
+    return { ok: false, skipped: 'disabled' };
+  }
 
-      // Send via Telegram
-      await bot.telegram.sendMessage(Number(user.tg_id), text, { parse_mode: 'Markdown' });
+  await deferForQuietHours(job, token, timezone, quiet, [log_id]);
 
-      await prisma.notificationLog.update({
-        where: { id: log.id },
-        data: { status: 'sent', sent_at: new Date() }
-      });
-    } catch (e: any) {
-      console.error(`[cron] Failed to send reminder to user ${user.id}:`, e?.message);
-    }
+  if (!(await claimDelivery(prisma, job.data))) {
+    await prisma.notificationLog.update({ where: { id: log_id }, data: { status: 'canceled', error: 'duplicate delivery' } });
+    return { ok: false, skipped: 'duplicate' };
   }
 
-  console.log('[cron] Deadline reminder job complete.');
-});
+  try {
+    await bot.telegram.sendMessage(Number(tg_id), text, {
+      parse_mode,
+      link_preview_options: { is_disabled: true },
+      ...(task_actions && {
+        reply_markup: taskActionKeyboard(task_actions.task_id, { botUsername: TELEGRAM_BOT_USERNAME || undefined })
+      })
+    });
+    await prisma.notificationLog.update({
+      where: { id: log_id },
+      data: { status: 'sent', sent_at: new Date(), error: null }
+    });
+    console.log(`[worker] Sent notification type=${type} log=${log_id} to tg_id=${tg_id}`);
+    return { ok: true };
+  } catch (e: any) {
+    // Only the final attempt marks the row as failed; earlier ones keep it queued for retry
+    const lastAttempt = job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+    await prisma.notificationLog.update({
+      where: { id: log_id },
+      data: { status: lastAttempt ? 'failed' : 'queued', error: String(e?.message ?? e) }
+    });
+    if (lastAttempt) await releaseDelivery(prisma, job.data);
+    throw e;
+  }
+}
+
+// ── Task event digest ─────────────────────────────────────────────
+function renderTaskEvent(type: string, p: TaskEventPayload) {
+  if (type === 'task_assigned') return `📌 ${p.actor_name} назначил(а) тебе задачу «${p.task_title}»`;
+  if (type === 'task_completed') return `✅ ${p.actor_name} выполнил(а) задачу «${p.task_title}»`;
+  return `💬 ${p.actor_name} прокомментировал(а) «${p.task_title}»${p.comment ? `:\n«${p.comment}»` : ''}`;
+}
+
+// Sends every pending task event of the user as one message, however many piled up
+async function sendEventDigest(job: Job<EventDigestJob>, token?: string) {
+  const { user_id, tg_id } = job.data;
+  const pending = await prisma.notificationLog.findMany({
+    where: { user_id, type: { in: [...TASK_EVENT_TYPES] }, status: { in: ['queued', 'skipped_quiet_hours'] } },
+    orderBy: { created_at: 'asc' }
+  });
+  if (!pending.length) return { ok: true, skipped: 'empty' };
+
+  const { timezone, quiet, enabled } = await userSettings(user_id);
+  const disabled = pending.filter(l => !enabled.includes(l.type as NotificationType));
+  if (disabled.length) {
+    await prisma.notificationLog.updateMany({
+      where: { id: { in: disabled.map(l => l.id) } },
+      data: { status: 'canceled', error: 'type disabled by user' }
+    });
+  }
+  const logs = pending.filter(l => enabled.includes(l.type as NotificationType));
+  if (!logs.length) return { ok: false, skipped: 'disabled' };
+  const ids = logs.map(l => l.id);
+
+  await deferForQuietHours(job, token, timezone, quiet, ids);
+
+  const events = logs.map(l => ({ type: l.type, payload: l.payload as TaskEventPayload }));
+  const single = events.length === 1 ? events[0] : null;
+  const text = single
+    ? `${renderTaskEvent(single.type, single.payload)}\nПроект: ${single.payload.focus_title}`
+    : `🔔 Новое по задачам (${events.length})\n\n` +
+      events.map(e => `${renderTaskEvent(e.type, e.payload)} · ${e.payload.focus_title}`).join('\n\n');
+
+  try {
+    await bot.telegram.sendMessage(Number(tg_id), text, {
+      link_preview_options: { is_disabled: true },
+      ...(single && single.type !== 'task_completed' && {
+        reply_markup: taskActionKeyboard(single.payload.task_id, { botUsername: TELEGRAM_BOT_USERNAME || undefined })
+      })
+    });
+    await prisma.notificationLog.updateMany({
+      where: { id: { in: ids } },
+      data: { status: 'sent', sent_at: new Date(), error: null }
+    });
+    console.log(`[worker] Sent event digest (${ids.length}) to tg_id=${tg_id}`);
+    return { ok: true, count: ids.length };
+  } catch (e: any) {
+    const lastAttempt = job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+    await prisma.notificationLog.updateMany({
+      where: { id: { in: ids } },
+      data: { status: lastAttempt ? 'failed' : 'queued', error: String(e?.message ?? e) }
+    });
+    throw e;
+  }
+}
+
+// ── Notification Worker ───────────────────────────────────────────
+new Worker<NotifyJob | EventDigestJob>(
+  NOTIFICATION_QUEUE,
+  async (job, token) => {
+    if (job.name === EVENT_DIGEST_JOB) return sendEventDigest(job as Job<EventDigestJob>, token);
+    return sendNotification(job as Job<NotifyJob>, token);
+  },
+  { connection: redis }
+);
 
 // ── Overdue task cron (runs every day at 10:00 AM UTC) ───────────
 cron.schedule('0 10 * * *', async () => {
   console.log('[cron] Running overdue task check...');
 
-  const tasks = await prisma.task.findMany({
-    where: {
-      due_at: { lt: new Date() },
-      status: { notIn: ['done', 'canceled'] },
-      assigned_to: { isNot: null }
-    },
-    include: {
-      assigned_to: true,
-      focus: { select: { title: true } }
+  for (const { task, user, daysOverdue, dedupe } of await dueOverdueNotices(prisma, new Date())) {
+    const text = `🚨 *Просроченная задача*\n\nЗадача: *${task.title}*\nПроект: ${task.focus.title}\nПросрочено: ${daysOverdue} дн.\n\nСрок выполнения уже прошёл. Пожалуйста, обнови статус задачи.`;
+
+    try {
+      const { enabled } = await userSettings(user.id);
+      if (!enabled.includes('overdue')) continue;
+      await enqueueNotify(user, 'overdue', text, {
+        payload: { task_id: task.id, due_at: task.due_at, overdue_day: dedupe.slot },
+        parse_mode: 'Markdown',
+        dedupe
+      });
+    } catch (e: any) {
+      console.error(`[cron] Failed to queue overdue notice for user ${user.id}:`, e?.message);
     }
-  });
+  }
+});
+
+// ── Morning digest / weekly summary cron (every 30 min) ──────────
+// Each user gets the digest once per local day during DIGEST_HOUR in their own timezone;
+// owners also get the weekly summary on Mondays. payload.date guards against double sends.
+const DIGESTS = [
+  { type: 'daily_digest', build: buildDailyDigest, due: () => true },
+  { type: 'weekly_summary', build: buildWeeklySummary, due: isLocalMonday }
+] as const;
 
-  for (const task of tasks) {
-    const user = task.assigned_to!;
-    if (!user.tg_id) continue;
+async function alreadyQueued(userId: string, type: NotificationType, date: string) {
+  const row = await prisma.notificationLog.findFirst({
+    where: { user_id: userId, type, payload: { path: ['date'], equals: date } },
+    select: { id: true }
+  });
+  return !!row;
+}
 
-    const text = `🚨 *Просроченная задача*\n\nЗадача: *${task.title}*\nПроект: ${task.focus.title}\n\nСрок выполнения уже прошёл. Пожалуйста, обнови статус задачи.`;
+cron.schedule('*/30 * * * *', async () => {
+  const now = new Date();
+  const users = await prisma.user.findMany({
+    where: { focus_members: { some: {} } },
+    select: { id: true, tg_id: true }
+  });
 
+  for (const user of users) {
     try {
-      await bot.telegram.sendMessage(Number(user.tg_id), text, { parse_mode: 'Markdown' });
+      const { timezone, enabled } = await userSettings(user.id);
+      const minutes = localMinutes(now, timezone);
+      if (minutes < DIGEST_HOUR * 60 || minutes >= (DIGEST_HOUR + 1) * 60) continue;
+      const date = localDateKey(now, timezone);
+
+      for (const digest of DIGESTS) {
+        if (!enabled.includes(digest.type) || !digest.due(now, timezone)) continue;
+        if (await alreadyQueued(user.id, digest.type, date)) continue;
+        const text = await digest.build(prisma, user.id, timezone, now);
+        if (!text) continue;
+        await enqueueNotify(user, digest.type, text, { payload: { date } });
+      }
     } catch (e: any) {
-      console.error(`[cron] Failed to notify user ${user.id} about overdue task:`, e?.message);
+      console.error(`[cron] Failed to queue digests for user ${user.id}:`, e?.message);
     }
   }
 });
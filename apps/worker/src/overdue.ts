@@ -0,0 +1,45 @@
+import type { PrismaClient } from '@prisma/client';
+import type { NotifyDedupe } from '@ba/shared';
+import { isDelivered } from './ledger.js';
+
+/**
+ * Overdue nagging. Each task is nagged on OVERDUE_BACKOFF_DAYS only; the ledger
+ * key includes due_version, so moving due_at starts the sequence over.
+ */
+
+export const OVERDUE_BACKOFF_DAYS = [1, 3, 7]; // nag on these days past due_at, then stop
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** The backoff day a task this late is on, or undefined before the first one. */
+export function overdueSlot(daysOverdue: number) {
+  return [...OVERDUE_BACKOFF_DAYS].reverse().find(d => d <= daysOverdue);
+}
+
+/** Overdue tasks whose current slot has not been delivered yet. */
+export async function dueOverdueNotices(prisma: PrismaClient, now: Date) {
+  const tasks = await prisma.task.findMany({
+    where: {
+      due_at: { lt: now },
+      status: { notIn: ['done', 'canceled'] },
+      assigned_to: { isNot: null }
+    },
+    include: {
+      assigned_to: true,
+      focus: { select: { title: true } }
+    }
+  });
+
+  const notices = [];
+  for (const task of tasks) {
+    const user = task.assigned_to!;
+    if (!user.tg_id) continue;
+
+    const daysOverdue = Math.ceil((now.getTime() - task.due_at!.getTime()) / DAY_MS);
+    const slot = overdueSlot(daysOverdue);
+    if (!slot) continue;
+    const dedupe: NotifyDedupe = { task_id: task.id, due_version: task.due_version, slot };
+    if (await isDelivered(prisma, { ...dedupe, type: 'overdue' })) continue;
+    notices.push({ task, user, daysOverdue, dedupe });
+  }
+  return notices;
+}
@@ -0,0 +1,20 @@
+import { PrismaClient } from '@prisma/client';
+
+export { hasTestDatabase, truncateAll } from '../../api/test/db.js';
+
+const url = process.env.TEST_DATABASE_URL;
+// Without a test database the suites are skipped and never touch the client
+export const prisma = (url ? new PrismaClient({ datasources: { db: { url } } }) : null)!;
+
+let seq = 0;
+
+/** A user with a focus and one task assigned to them. */
+export async function seedTask(task: { due_at?: Date; due_version?: number } = {}) {
+  seq += 1;
+  const user = await prisma.user.create({ data: { tg_id: BigInt(1000 + seq), first_name: 'Test' } });
+  const focus = await prisma.focus.create({ data: { owner_user_id: user.id, title: `Проект ${seq}` } });
+  return prisma.task.create({
+    data: { focus_id: focus.id, created_by_user_id: user.id, assigned_to_user_id: user.id, title: `Задача ${seq}`, ...task },
+    include: { assigned_to: true }
+  });
+}
@@ -0,0 +1,63 @@
+import { afterAll, beforeEach, describe, expect, it } from 'vitest';
+import type { NotifyJob } from '@ba/shared';
+import { claimDelivery, isDelivered, releaseDelivery } from '../src/ledger.js';
+import { hasTestDatabase, prisma, seedTask, truncateAll } from './db.js';
+
+function job(taskId: string, logId: string, slot = 60): NotifyJob {
+  return {
+    log_id: logId,
+    user_id: 'u',
+    tg_id: '1',
+    type: 'deadline_reminder',
+    text: 'Напоминание',
+    dedupe: { task_id: taskId, due_version: 0, slot }
+  };
+}
+
+describe.skipIf(!hasTestDatabase)('delivery ledger', () => {
+  beforeEach(() => truncateAll(prisma));
+  afterAll(() => prisma.$disconnect());
+
+  it('lets only the first of two jobs with the same key send', async () => {
+    const task = await seedTask();
+    const key = { task_id: task.id, due_version: 0, slot: 60, type: 'deadline_reminder' as const };
+
+    expect(await isDelivered(prisma, key)).toBe(false);
+    expect(await claimDelivery(prisma, job(task.id, 'log-1'))).toBe(true);
+    expect(await claimDelivery(prisma, job(task.id, 'log-2'))).toBe(false);
+    expect(await isDelivered(prisma, key)).toBe(true);
+  });
+
+  it('keeps the claim for retries of the same job', async () => {
+    const task = await seedTask();
+    expect(await claimDelivery(prisma, job(task.id, 'log-1'))).toBe(true);
+    expect(await claimDelivery(prisma, job(task.id, 'log-1'))).toBe(true);
+  });
+
+  it('settles concurrent duplicates on exactly one winner', async () => {
+    const task = await seedTask();
+    const results = await Promise.all(['a', 'b', 'c', 'd'].map(id => claimDelivery(prisma, job(task.id, id))));
+    expect(results.filter(Boolean)).toHaveLength(1);
+    expect(await prisma.notificationDelivery.count()).toBe(1);
+  });
+
+  it('frees the key when the job finally fails', async () => {
+    const task = await seedTask();
+    await claimDelivery(prisma, job(task.id, 'log-1'));
+    await releaseDelivery(prisma, job(task.id, 'log-1'));
+    expect(await isDelivered(prisma, { task_id: task.id, due_version: 0, slot: 60, type: 'deadline_reminder' })).toBe(false);
+    expect(await claimDelivery(prisma, job(task.id, 'log-2'))).toBe(true);
+  });
+
+  it('drops jobs for a deleted task', async () => {
+    const task = await seedTask();
+    await prisma.task.delete({ where: { id: task.id } });
+    expect(await claimDelivery(prisma, job(task.id, 'log-1'))).toBe(false);
+  });
+
+  it('never blocks jobs without a dedupe key', async () => {
+    const { dedupe: _, ...plain } = job('none', 'log-1');
+    expect(await claimDelivery(prisma, plain)).toBe(true);
+    expect(await claimDelivery(prisma, { ...plain, log_id: 'log-2' })).toBe(true);
+  });
+});
@@ -0,0 +1,63 @@
+import { afterAll, beforeEach, describe, expect, it } from 'vitest';
+import { claimDelivery } from '../src/ledger.js';
+import { dueOverdueNotices, overdueSlot } from '../src/overdue.js';
+import { hasTestDatabase, prisma, seedTask, truncateAll } from './db.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date('2026-10-19T10:00:00Z');
+const daysAgo = (days: number) => new Date(now.getTime() - days * DAY_MS);
+
+describe('overdueSlot', () => {
+  it('nags on days 1, 3 and 7 and stays on the last one reached', () => {
+    expect([0, 1, 2, 3, 6, 7, 30].map(overdueSlot)).toEqual([undefined, 1, 1, 3, 3, 7, 7]);
+  });
+});
+
+describe.skipIf(!hasTestDatabase)('dueOverdueNotices', () => {
+  beforeEach(() => truncateAll(prisma));
+  afterAll(() => prisma.$disconnect());
+
+  // What the worker does once the notice is sent
+  async function deliver(notice: Awaited<ReturnType<typeof dueOverdueNotices>>[number]) {
+    await claimDelivery(prisma, {
+      log_id: `log-${notice.dedupe.due_version}-${notice.dedupe.slot}`,
+      user_id: notice.user.id,
+      tg_id: notice.user.tg_id.toString(),
+      type: 'overdue',
+      text: '',
+      dedupe: notice.dedupe
+    });
+  }
+
+  it('sends each slot once', async () => {
+    const task = await seedTask({ due_at: daysAgo(1.5) });
+
+    const [notice] = await dueOverdueNotices(prisma, now);
+    expect(notice.dedupe).toEqual({ task_id: task.id, due_version: 0, slot: 1 });
+    expect(notice.daysOverdue).toBe(2);
+
+    await deliver(notice);
+    expect(await dueOverdueNotices(prisma, now)).toEqual([]);
+    // Day 3 is the next slot
+    expect((await dueOverdueNotices(prisma, new Date(now.getTime() + DAY_MS)))[0].dedupe.slot).toBe(3);
+  });
+
+  it('starts over when due_at moves', async () => {
+    const task = await seedTask({ due_at: daysAgo(4) });
+    const [first] = await dueOverdueNotices(prisma, now);
+    expect(first.dedupe.slot).toBe(3);
+    await deliver(first);
+
+    // Moved a little forward but still overdue: the API bumps due_version
+    await prisma.task.update({ where: { id: task.id }, data: { due_at: daysAgo(0.5), due_version: { increment: 1 } } });
+    const [again] = await dueOverdueNotices(prisma, now);
+    expect(again.dedupe).toEqual({ task_id: task.id, due_version: 1, slot: 1 });
+  });
+
+  it('skips done tasks and tasks not due yet', async () => {
+    await seedTask({ due_at: daysAgo(-1) });
+    const done = await seedTask({ due_at: daysAgo(2) });
+    await prisma.task.update({ where: { id: done.id }, data: { status: 'done' } });
+    expect(await dueOverdueNotices(prisma, now)).toEqual([]);
+  });
+});
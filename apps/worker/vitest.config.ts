@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['test/**/*.test.ts'],
+    // The schema and migrations live in apps/api
+    globalSetup: ['../api/test/globalSetup.ts'],
+    fileParallelism: false
+  }
+});
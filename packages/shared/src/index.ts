@@ -1,5 +1,7 @@
 import crypto from 'node:crypto';
 
+export * from './notify.js';
+
 export type TelegramUser = {
   id: number;
   username?: string;
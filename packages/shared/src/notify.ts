@@ -0,0 +1,171 @@
+import { z } from 'zod';
+
+/**
+ * Notification job contract shared by the API (producer) and the worker (consumer).
+ * Every job points at the NotificationLog row(s) created when it was enqueued.
+ */
+
+export const NOTIFICATION_QUEUE = 'notifications';
+
+// Task events are not sent one by one: they wait in NotificationLog and go out as one digest
+export const TASK_EVENT_TYPES = ['task_assigned', 'task_commented', 'task_completed'] as const;
+export type TaskEventType = (typeof TASK_EVENT_TYPES)[number];
+
+export const NOTIFICATION_TYPES = ['deadline_reminder', 'overdue', ...TASK_EVENT_TYPES, 'daily_digest', 'weekly_summary'] as const;
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
+
+// Ledger key for task notifications; the worker sends each key at most once
+export type NotifyDedupe = {
+  task_id: string;
+  due_version: number;
+  slot: number; // reminder offset in minutes, or overdue day
+};
+
+export type NotifyJob = {
+  log_id: string;
+  user_id: string;
+  tg_id: string; // BigInt does not survive JSON, so it travels as a string
+  type: NotificationType;
+  text: string;
+  parse_mode?: 'Markdown' | 'HTML';
+  dedupe?: NotifyDedupe;
+  task_actions?: { task_id: string }; // adds the taskActionKeyboard below
+};
+
+// ── Task event digest ─────────────────────────────────────────────
+
+export const EVENT_DIGEST_JOB = 'event_digest';
+export const EVENT_DIGEST_WINDOW_MS = 60_000;
+
+// Job name EVENT_DIGEST_JOB: send every queued task event of the user as one message
+export type EventDigestJob = {
+  user_id: string;
+  tg_id: string;
+};
+
+// NotificationLog.payload of a task event
+export type TaskEventPayload = {
+  task_id: string;
+  task_title: string;
+  focus_title: string;
+  actor_name: string;
+  comment?: string;
+};
+
+// Events of one user within the same window share a job id, so a burst becomes a single job
+export function eventDigestJobId(userId: string, now = Date.now()) {
+  return `digest-${userId}-${Math.floor(now / EVENT_DIGEST_WINDOW_MS)}`;
+}
+
+// ── Task action buttons ───────────────────────────────────────────
+// Callback data is handled by the API bot (apps/api/src/bot/tasks.ts)
+
+export type TaskAction = 'done' | 'snooze';
+export const TASK_ACTION_RE = /^task:(done|snooze)=([0-9a-f-]{36})$/;
+
+export function taskActionData(action: TaskAction, taskId: string) {
+  return `task:${action}=${taskId}`;
+}
+
+// Mini App deep link that opens the task; needs the bot username
+export function taskOpenLink(botUsername: string, taskId: string) {
+  return `https://t.me/${botUsername}?startapp=task_${taskId}`;
+}
+
+type InlineButton = { text: string; callback_data: string } | { text: string; url: string };
+
+export function taskActionKeyboard(taskId: string, opts: { botUsername?: string; done?: boolean } = {}) {
+  const rows: InlineButton[][] = [];
+  if (!opts.done) {
+    rows.push([
+      { text: '✅ Готово', callback_data: taskActionData('done', taskId) },
+      { text: '⏰ +1 день', callback_data: taskActionData('snooze', taskId) }
+    ]);
+  }
+  if (opts.botUsername) rows.push([{ text: '📂 Открыть', url: taskOpenLink(opts.botUsername, taskId) }]);
+  return { inline_keyboard: rows };
+}
+
+// ── Quiet hours ───────────────────────────────────────────────────
+// Stored in ReminderSettings.quiet_hours as local "HH:MM" times; the window may cross midnight.
+
+const zTime = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected HH:MM');
+
+export const zQuietHours = z.object({ start: zTime, end: zTime });
+export type QuietHours = z.infer<typeof zQuietHours>;
+
+export const DEFAULT_TIMEZONE = 'Europe/Helsinki';
+
+export function parseQuietHours(raw: unknown): QuietHours | null {
+  const parsed = zQuietHours.safeParse(raw);
+  return parsed.success && parsed.data.start !== parsed.data.end ? parsed.data : null;
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function toMinutes(hhmm: string) {
+  const [h, m] = hhmm.split(':').map(Number);
+  return h * 60 + m;
+}
+
+/** Calendar date of `date` in `timezone` as YYYY-MM-DD. */
+export function localDateKey(date: Date, timezone: string): string {
+  return new Intl.DateTimeFormat('en-CA', { timeZone: timezone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(date);
+}
+
+/** Minutes since local midnight of `date` in `timezone`. */
+export function localMinutes(date: Date, timezone: string): number {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone: timezone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(date);
+  const hour = Number(parts.find(p => p.type === 'hour')?.value ?? 0);
+  const minute = Number(parts.find(p => p.type === 'minute')?.value ?? 0);
+  return hour * 60 + minute;
+}
+
+/**
+ * If `now` falls inside the quiet window, returns the moment it ends; otherwise null.
+ * DST shifts inside the window can move the result by up to an hour, which is fine for reminders.
+ */
+export function quietHoursEnd(now: Date, timezone: string, quiet: QuietHours | null): Date | null {
+  if (!quiet) return null;
+  const tz = isValidTimezone(timezone) ? timezone : DEFAULT_TIMEZONE;
+  const current = localMinutes(now, tz);
+  const start = toMinutes(quiet.start);
+  const end = toMinutes(quiet.end);
+
+  const inside = start < end ? current >= start && current < end : current >= start || current < end;
+  if (!inside) return null;
+
+  const minutesLeft = (end - current + 24 * 60) % (24 * 60);
+  const endsAt = new Date(now.getTime() + minutesLeft * 60_000);
+  endsAt.setSeconds(0, 0);
+  return endsAt;
+}
+
+// ── Reminder settings defaults ────────────────────────────────────
+
+export const DEFAULT_DUE_OFFSETS = [24 * 60]; // minutes before due_at
+export const MAX_DUE_OFFSET_MINUTES = 30 * 24 * 60;
+
+export const zDueOffsets = z.array(z.number().int().min(0).max(MAX_DUE_OFFSET_MINUTES)).max(5);
+
+// Task.remind_policy; null falls back to the assignee's default_due_offsets, [] disables reminders
+export const zRemindPolicy = z.object({ offsets: zDueOffsets });
+export type RemindPolicy = z.infer<typeof zRemindPolicy>;
+
+// A missing enabled_types means the user never opted out of anything
+export function parseEnabledTypes(raw: unknown): NotificationType[] {
+  if (!Array.isArray(raw)) return [...NOTIFICATION_TYPES];
+  return NOTIFICATION_TYPES.filter(t => raw.includes(t));
+}